@@ -0,0 +1,179 @@
+/**
+ * AdaptiveSamplerConfig - Configuration for AdaptiveSampler.
+ */
+export interface AdaptiveSamplerConfig {
+  /** Events per second to persist across all routes (fixed + sampled) */
+  targetEventsPerSecond: number;
+  /** Length of the measurement window in ms */
+  windowMs: number;
+  /** Rate used for routes without measurements yet (first window) */
+  initialRate: number;
+}
+
+/**
+ * Statistics for adaptive sampling.
+ */
+export interface AdaptiveSamplingStats {
+  targetEventsPerSecond: number;
+  windowMs: number;
+  /** Always-recorded events per second (errors, slow, critical, ...) */
+  fixedEventsPerSecond: number;
+  /** Budget left for sampled traffic */
+  sampledBudgetPerSecond: number;
+  routes: Record<string, { eventsPerSecond: number; sampleRate: number }>;
+}
+
+/** Smoothing factor for per-window rate estimates */
+const EWMA_ALPHA = 0.5;
+/** Lowest rate handed out, so that no route disappears entirely */
+const MIN_SAMPLE_RATE = 0.0001;
+/** Routes estimated below this rate are forgotten */
+const MIN_TRACKED_EPS = 0.001;
+/** Bound on tracked routes; further routes use initialRate */
+const MAX_TRACKED_ROUTES = 1000;
+
+/**
+ * AdaptiveSampler - Adjusts per-route sample rates so that the total number
+ * of persisted events approaches a fixed events-per-second budget.
+ *
+ * Problem:
+ * - Traffic swings 20x between night and peak
+ * - A static rate either floods storage at peak or starves analysis at night
+ *
+ * Solution:
+ * - Measure per-route request rates in fixed windows (EWMA-smoothed)
+ * - Subtract always-recorded events (errors, slow, critical) from the budget
+ * - Split the remaining budget across routes by water-filling: quiet routes
+ *   are kept at 100%, busy routes share what is left equally
+ *
+ * Rates are recomputed lazily when a window elapses, so there is no timer.
+ * Pure domain object (no framework dependencies), owned by SamplingPolicy.
+ */
+export class AdaptiveSampler {
+  private windowStart: number;
+  private readonly windowCounts = new Map<string, number>();
+  private windowFixedCount = 0;
+
+  private readonly routeEps = new Map<string, number>();
+  private readonly routeRates = new Map<string, number>();
+  private fixedEps = 0;
+  private sampledBudget: number;
+
+  constructor(
+    private readonly config: AdaptiveSamplerConfig,
+    now = Date.now(),
+  ) {
+    this.windowStart = now;
+    this.sampledBudget = config.targetEventsPerSecond;
+  }
+
+  /**
+   * Count a request that is subject to adaptive sampling and return the
+   * sample rate for its route.
+   */
+  observe(route: string, now = Date.now()): number {
+    this.roll(now);
+
+    const count = this.windowCounts.get(route);
+    if (count !== undefined) {
+      this.windowCounts.set(route, count + 1);
+    } else if (this.windowCounts.size < MAX_TRACKED_ROUTES) {
+      this.windowCounts.set(route, 1);
+    }
+
+    return this.routeRates.get(route) ?? this.config.initialRate;
+  }
+
+  /**
+   * Count an event that is recorded regardless of the adaptive rate.
+   */
+  recordFixed(now = Date.now()): void {
+    this.roll(now);
+    this.windowFixedCount++;
+  }
+
+  getStats(): AdaptiveSamplingStats {
+    const routes: AdaptiveSamplingStats['routes'] = {};
+    for (const [route, eps] of this.routeEps) {
+      routes[route] = {
+        eventsPerSecond: eps,
+        sampleRate: this.routeRates.get(route) ?? this.config.initialRate,
+      };
+    }
+
+    return {
+      targetEventsPerSecond: this.config.targetEventsPerSecond,
+      windowMs: this.config.windowMs,
+      fixedEventsPerSecond: this.fixedEps,
+      sampledBudgetPerSecond: this.sampledBudget,
+      routes,
+    };
+  }
+
+  /**
+   * Close the current window if it elapsed and recompute rates.
+   */
+  private roll(now: number): void {
+    const elapsedMs = now - this.windowStart;
+    if (elapsedMs < this.config.windowMs) return;
+
+    const elapsedSeconds = elapsedMs / 1000;
+
+    for (const route of new Set([
+      ...this.routeEps.keys(),
+      ...this.windowCounts.keys(),
+    ])) {
+      const observed = (this.windowCounts.get(route) ?? 0) / elapsedSeconds;
+      const eps = this.smooth(this.routeEps.get(route), observed);
+
+      if (eps < MIN_TRACKED_EPS) {
+        this.routeEps.delete(route);
+        this.routeRates.delete(route);
+      } else {
+        this.routeEps.set(route, eps);
+      }
+    }
+    this.fixedEps = this.smooth(
+      this.fixedEps,
+      this.windowFixedCount / elapsedSeconds,
+    );
+
+    this.windowCounts.clear();
+    this.windowFixedCount = 0;
+    this.windowStart = now;
+
+    this.recomputeRates();
+  }
+
+  private smooth(previous: number | undefined, observed: number): number {
+    if (previous === undefined) return observed;
+    return EWMA_ALPHA * observed + (1 - EWMA_ALPHA) * previous;
+  }
+
+  /**
+   * Water-filling: visit routes from quietest to busiest, giving each an
+   * equal share of the remaining budget (or all it needs, if less).
+   */
+  private recomputeRates(): void {
+    this.sampledBudget = Math.max(
+      0,
+      this.config.targetEventsPerSecond - this.fixedEps,
+    );
+
+    const routes = Array.from(this.routeEps.entries()).sort(
+      (a, b) => a[1] - b[1],
+    );
+
+    let remaining = this.sampledBudget;
+    routes.forEach(([route, eps], index) => {
+      const share = remaining / (routes.length - index);
+      const allocated = Math.min(eps, share);
+      remaining -= allocated;
+
+      this.routeRates.set(
+        route,
+        Math.min(1, Math.max(MIN_SAMPLE_RATE, allocated / eps)),
+      );
+    });
+  }
+}
@@ -0,0 +1,170 @@
+import { CircuitBreaker, CircuitState } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  const T0 = Date.parse('2026-01-01T00:00:00.000Z');
+
+  const create = () =>
+    new CircuitBreaker({
+      failureThreshold: 3,
+      successThreshold: 2,
+      halfOpenMaxCalls: 2,
+      openBackoffMs: 1000,
+      openMaxBackoffMs: 3000,
+    });
+
+  /** A breaker opened at T0 by reaching the failure threshold */
+  const opened = () => {
+    const breaker = create();
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure('publish failed', T0);
+    }
+    return breaker;
+  };
+
+  describe('CLOSED', () => {
+    it('should open after failureThreshold consecutive failures', () => {
+      const breaker = create();
+
+      breaker.recordFailure('publish failed', T0);
+      breaker.recordFailure('publish failed', T0);
+      expect(breaker.getState(T0)).toBe(CircuitState.CLOSED);
+      expect(breaker.allowRequest(T0)).toBe(true);
+
+      breaker.recordFailure('broker down', T0);
+      expect(breaker.getState(T0)).toBe(CircuitState.OPEN);
+      expect(breaker.allowRequest(T0)).toBe(false);
+      expect(breaker.getStats()).toMatchObject({
+        openedCount: 1,
+        lastFailure: 'broker down',
+        nextProbeAt: new Date(T0 + 1000).toISOString(),
+      });
+    });
+
+    it('should reset the failure count on success', () => {
+      const breaker = create();
+
+      breaker.recordFailure('publish failed', T0);
+      breaker.recordFailure('publish failed', T0);
+      breaker.recordSuccess();
+      breaker.recordFailure('publish failed', T0);
+      breaker.recordFailure('publish failed', T0);
+
+      expect(breaker.getState(T0)).toBe(CircuitState.CLOSED);
+      expect(breaker.getStats().consecutiveFailures).toBe(2);
+    });
+
+    it('should open on trip() regardless of the threshold', () => {
+      const breaker = create();
+
+      breaker.trip('consumer crashed', T0);
+
+      expect(breaker.getState(T0)).toBe(CircuitState.OPEN);
+      expect(breaker.getStats().lastFailure).toBe('consumer crashed');
+    });
+  });
+
+  describe('OPEN', () => {
+    it('should become HALF_OPEN once the open backoff has elapsed', () => {
+      const breaker = opened();
+
+      expect(breaker.getRetryDelay(T0 + 400)).toBe(600);
+      expect(breaker.getState(T0 + 999)).toBe(CircuitState.OPEN);
+      expect(breaker.allowRequest(T0 + 999)).toBe(false);
+
+      expect(breaker.getState(T0 + 1000)).toBe(CircuitState.HALF_OPEN);
+      expect(breaker.getRetryDelay(T0 + 1000)).toBe(0);
+    });
+
+    it('should ignore late results of calls started before it opened', () => {
+      const breaker = opened();
+
+      breaker.recordSuccess();
+      breaker.recordFailure('late failure', T0 + 10);
+
+      expect(breaker.getStats()).toMatchObject({
+        state: CircuitState.OPEN,
+        openedCount: 1,
+        lastFailure: 'publish failed',
+      });
+    });
+
+    it('should notify listeners of every transition', () => {
+      const breaker = create();
+      const transitions: string[] = [];
+      breaker.onStateChange((state, previous) =>
+        transitions.push(`${previous}->${state}`),
+      );
+
+      breaker.trip('consumer crashed', T0);
+      breaker.getState(T0 + 1000);
+      breaker.recordSuccess();
+      breaker.recordSuccess();
+
+      expect(transitions).toEqual([
+        'CLOSED->OPEN',
+        'OPEN->HALF_OPEN',
+        'HALF_OPEN->CLOSED',
+      ]);
+    });
+  });
+
+  describe('HALF_OPEN', () => {
+    const halfOpen = () => {
+      const breaker = opened();
+      breaker.getState(T0 + 1000);
+      return breaker;
+    };
+
+    it('should let at most halfOpenMaxCalls probes through at a time', () => {
+      const breaker = halfOpen();
+
+      expect(breaker.allowRequest(T0 + 1000)).toBe(true);
+      expect(breaker.allowRequest(T0 + 1000)).toBe(true);
+      expect(breaker.allowRequest(T0 + 1000)).toBe(false);
+
+      // A reported outcome frees its slot
+      breaker.recordSuccess();
+      expect(breaker.allowRequest(T0 + 1000)).toBe(true);
+      expect(breaker.allowRequest(T0 + 1000)).toBe(false);
+    });
+
+    it('should close after successThreshold successful probes', () => {
+      const breaker = halfOpen();
+
+      breaker.allowRequest(T0 + 1000);
+      breaker.recordSuccess();
+      expect(breaker.getState(T0 + 1000)).toBe(CircuitState.HALF_OPEN);
+
+      breaker.allowRequest(T0 + 1000);
+      breaker.recordSuccess();
+      expect(breaker.getState(T0 + 1000)).toBe(CircuitState.CLOSED);
+      expect(breaker.getStats()).toMatchObject({
+        consecutiveFailures: 0,
+        consecutiveOpens: 0,
+      });
+    });
+
+    it('should reopen on a failed probe, doubling the open time up to the max', () => {
+      const breaker = halfOpen();
+
+      breaker.allowRequest(T0 + 1000);
+      breaker.recordSuccess();
+      breaker.allowRequest(T0 + 1000);
+      breaker.recordFailure('probe failed', T0 + 1000);
+
+      expect(breaker.getState(T0 + 1000)).toBe(CircuitState.OPEN);
+      expect(breaker.getRetryDelay(T0 + 1000)).toBe(2000);
+      expect(breaker.getStats()).toMatchObject({
+        consecutiveOpens: 2,
+        lastFailure: 'probe failed',
+      });
+
+      // The next probe window starts again from zero successes
+      expect(breaker.getState(T0 + 3000)).toBe(CircuitState.HALF_OPEN);
+      expect(breaker.getStats().halfOpenSuccesses).toBe(0);
+
+      breaker.recordFailure('probe failed', T0 + 3000);
+      expect(breaker.getRetryDelay(T0 + 3000)).toBe(3000);
+    });
+  });
+});
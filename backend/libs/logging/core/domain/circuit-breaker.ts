@@ -0,0 +1,242 @@
+import { RetryPolicy } from './retry.policy';
+
+/**
+ * CircuitState - States of a CircuitBreaker.
+ *
+ * CLOSED: calls go through; consecutive failures are counted
+ * OPEN: calls are rejected until the next probe is due
+ * HALF_OPEN: a limited number of real calls probe whether the dependency recovered
+ */
+export enum CircuitState {
+  CLOSED = 'CLOSED',
+  OPEN = 'OPEN',
+  HALF_OPEN = 'HALF_OPEN',
+}
+
+/**
+ * CircuitBreakerConfig - Configuration for CircuitBreaker.
+ */
+export interface CircuitBreakerConfig {
+  /** Consecutive failures that open a closed circuit. Default: 5 */
+  failureThreshold: number;
+  /** Consecutive successful probes that close a half-open circuit. Default: 3 */
+  successThreshold: number;
+  /** Probe calls allowed in flight while half-open. Default: 1 */
+  halfOpenMaxCalls: number;
+  /** Time the circuit stays open before the first probe. Default: 10000 */
+  openBackoffMs: number;
+  /** Upper bound for the open time; doubled after each failed probe. Default: 300000 */
+  openMaxBackoffMs: number;
+}
+
+/**
+ * Default configuration values for CircuitBreaker.
+ */
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  successThreshold: 3,
+  halfOpenMaxCalls: 1,
+  openBackoffMs: 10000,
+  openMaxBackoffMs: 300000,
+};
+
+/**
+ * Statistics for a circuit breaker.
+ */
+export interface CircuitBreakerStats {
+  state: CircuitState;
+  /** Consecutive failures while closed */
+  consecutiveFailures: number;
+  /** Consecutive successful probes while half-open */
+  halfOpenSuccesses: number;
+  /** Times the circuit opened since it was last closed */
+  consecutiveOpens: number;
+  /** Times the circuit opened in total */
+  openedCount: number;
+  /** When the next probe is allowed (ISO 8601), while open */
+  nextProbeAt: string | null;
+  /** Why the circuit last opened */
+  lastFailure: string | null;
+}
+
+export type CircuitStateListener = (
+  state: CircuitState,
+  previous: CircuitState,
+) => void;
+
+/**
+ * CircuitBreaker - CLOSED/OPEN/HALF_OPEN state machine guarding a dependency.
+ *
+ * - CLOSED → OPEN after `failureThreshold` consecutive failures (or trip())
+ * - OPEN → HALF_OPEN once the open time has elapsed; the open time grows
+ *   exponentially with each failed probe (RetryPolicy schedule)
+ * - HALF_OPEN lets up to `halfOpenMaxCalls` real calls through at a time;
+ *   `successThreshold` consecutive successes close the circuit, one failure
+ *   opens it again
+ *
+ * Callers report outcomes with recordSuccess()/recordFailure(); the
+ * breaker never performs calls itself. The OPEN → HALF_OPEN transition is
+ * evaluated lazily by getState()/allowRequest(); owners that need it
+ * without traffic schedule a getState() call after getRetryDelay().
+ *
+ * Pure domain object (no framework dependencies), like TailSamplingBuffer.
+ */
+export class CircuitBreaker {
+  private readonly config: CircuitBreakerConfig;
+  private readonly backoff: RetryPolicy;
+  private readonly listeners: CircuitStateListener[] = [];
+  private state = CircuitState.CLOSED;
+  private consecutiveFailures = 0;
+  private halfOpenSuccesses = 0;
+  private halfOpenInFlight = 0;
+  private consecutiveOpens = 0;
+  private openedCount = 0;
+  private nextProbeAt = 0;
+  private lastFailure: string | null = null;
+
+  constructor(config: Partial<CircuitBreakerConfig> = {}) {
+    this.config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
+    this.backoff = new RetryPolicy({
+      baseDelayMs: this.config.openBackoffMs,
+      maxDelayMs: this.config.openMaxBackoffMs,
+    });
+  }
+
+  /**
+   * Factory method to create a CircuitBreaker from MQ_CIRCUIT_* variables.
+   */
+  static fromEnv(env: Record<string, string | undefined>): CircuitBreaker {
+    return new CircuitBreaker({
+      failureThreshold:
+        parseInt(env.MQ_CIRCUIT_FAILURE_THRESHOLD ?? '', 10) ||
+        DEFAULT_CIRCUIT_BREAKER_CONFIG.failureThreshold,
+      successThreshold:
+        parseInt(env.MQ_CIRCUIT_SUCCESS_THRESHOLD ?? '', 10) ||
+        DEFAULT_CIRCUIT_BREAKER_CONFIG.successThreshold,
+      halfOpenMaxCalls:
+        parseInt(env.MQ_CIRCUIT_HALF_OPEN_MAX_CALLS ?? '', 10) ||
+        DEFAULT_CIRCUIT_BREAKER_CONFIG.halfOpenMaxCalls,
+      openBackoffMs:
+        parseInt(env.MQ_CIRCUIT_OPEN_BACKOFF_MS ?? '', 10) ||
+        DEFAULT_CIRCUIT_BREAKER_CONFIG.openBackoffMs,
+      openMaxBackoffMs:
+        parseInt(env.MQ_CIRCUIT_OPEN_MAX_BACKOFF_MS ?? '', 10) ||
+        DEFAULT_CIRCUIT_BREAKER_CONFIG.openMaxBackoffMs,
+    });
+  }
+
+  /**
+   * Current state; an open circuit whose open time has elapsed becomes
+   * half-open.
+   */
+  getState(now = Date.now()): CircuitState {
+    if (this.state === CircuitState.OPEN && now >= this.nextProbeAt) {
+      this.halfOpenSuccesses = 0;
+      this.halfOpenInFlight = 0;
+      this.transition(CircuitState.HALF_OPEN);
+    }
+    return this.state;
+  }
+
+  /**
+   * Whether a call may go through. While half-open this takes one of the
+   * probe slots, released by the recordSuccess()/recordFailure() that
+   * reports its outcome.
+   */
+  allowRequest(now = Date.now()): boolean {
+    switch (this.getState(now)) {
+      case CircuitState.CLOSED:
+        return true;
+      case CircuitState.HALF_OPEN:
+        if (this.halfOpenInFlight >= this.config.halfOpenMaxCalls) {
+          return false;
+        }
+        this.halfOpenInFlight++;
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  recordSuccess(): void {
+    if (this.state === CircuitState.CLOSED) {
+      this.consecutiveFailures = 0;
+    } else if (this.state === CircuitState.HALF_OPEN) {
+      this.halfOpenInFlight = Math.max(0, this.halfOpenInFlight - 1);
+      this.halfOpenSuccesses++;
+      if (this.halfOpenSuccesses >= this.config.successThreshold) {
+        this.consecutiveFailures = 0;
+        this.consecutiveOpens = 0;
+        this.transition(CircuitState.CLOSED);
+      }
+    }
+    // Late results of calls started before the circuit opened are ignored
+  }
+
+  recordFailure(reason: string, now = Date.now()): void {
+    if (this.state === CircuitState.CLOSED) {
+      this.consecutiveFailures++;
+      if (this.consecutiveFailures >= this.config.failureThreshold) {
+        this.open(reason, now);
+      }
+    } else if (this.state === CircuitState.HALF_OPEN) {
+      this.open(reason, now);
+    }
+  }
+
+  /**
+   * Open the circuit immediately, regardless of the failure threshold
+   * (for failures that are conclusive on their own).
+   */
+  trip(reason: string, now = Date.now()): void {
+    if (this.state !== CircuitState.OPEN) {
+      this.open(reason, now);
+    }
+  }
+
+  /**
+   * Milliseconds until the next probe is allowed (0 unless open).
+   */
+  getRetryDelay(now = Date.now()): number {
+    return this.state === CircuitState.OPEN
+      ? Math.max(0, this.nextProbeAt - now)
+      : 0;
+  }
+
+  onStateChange(listener: CircuitStateListener): void {
+    this.listeners.push(listener);
+  }
+
+  getConfig(): CircuitBreakerConfig {
+    return { ...this.config };
+  }
+
+  getStats(): CircuitBreakerStats {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      halfOpenSuccesses: this.halfOpenSuccesses,
+      consecutiveOpens: this.consecutiveOpens,
+      openedCount: this.openedCount,
+      nextProbeAt:
+        this.state === CircuitState.OPEN
+          ? new Date(this.nextProbeAt).toISOString()
+          : null,
+      lastFailure: this.lastFailure,
+    };
+  }
+
+  private open(reason: string, now: number): void {
+    this.consecutiveOpens++;
+    this.openedCount++;
+    this.lastFailure = reason;
+    this.nextProbeAt = now + this.backoff.delayFor(this.consecutiveOpens);
+    this.transition(CircuitState.OPEN);
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    this.state = state;
+    this.listeners.forEach((listener) => listener(state, previous));
+  }
+}
@@ -1,3 +1,5 @@
+import type { Span } from './span';
+
 /**
  * LoggingContext - Mutable context that will be enriched throughout
  * the request lifecycle and eventually converted to a WideEvent.
@@ -13,6 +15,16 @@ export class LoggingContext {
   public user?: { id: string; role: string };
   public error?: { code: string; message: string };
   public performance?: { durationMs: number };
+  /** W3C Trace Context (see TraceContext) */
+  public traceId?: string;
+  public spanId?: string;
+  public parentSpanId?: string;
+  /** Incoming tracestate, forwarded unchanged */
+  public traceState?: string;
+  /** trace-flags forwarded in traceparent */
+  public traceFlags?: number;
+  /** Child spans recorded via ContextService.startSpan() */
+  public spans?: Span[];
   /** Domain-specific metadata storage */
   public _metadata: Record<string, unknown>;
 
@@ -43,6 +55,12 @@ export class LoggingContext {
     if (updates.error !== undefined) this.error = updates.error;
     if (updates.performance !== undefined)
       this.performance = updates.performance;
+    if (updates.traceId !== undefined) this.traceId = updates.traceId;
+    if (updates.spanId !== undefined) this.spanId = updates.spanId;
+    if (updates.parentSpanId !== undefined)
+      this.parentSpanId = updates.parentSpanId;
+    if (updates.traceState !== undefined) this.traceState = updates.traceState;
+    if (updates.traceFlags !== undefined) this.traceFlags = updates.traceFlags;
     if (updates._metadata !== undefined) {
       this._metadata = { ...this._metadata, ...updates._metadata };
     }
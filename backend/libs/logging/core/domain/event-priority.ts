@@ -0,0 +1,58 @@
+import { SamplingReason } from './sampling.policy';
+
+/**
+ * EventPriority - How much a recorded event is worth keeping under pressure.
+ * When something has to be shed, LOW goes first and HIGH last.
+ */
+export enum EventPriority {
+  /** Sampled-in routine traffic at a reduced rate */
+  LOW = 0,
+  /** Regular sampled traffic */
+  NORMAL = 1,
+  /** Always-recorded events: errors, slow requests, critical routes, audit */
+  HIGH = 2,
+}
+
+const PRIORITY_BY_REASON: Record<SamplingReason, EventPriority> = {
+  [SamplingReason.HAS_ERROR]: EventPriority.HIGH,
+  [SamplingReason.SLOW_REQUEST]: EventPriority.HIGH,
+  [SamplingReason.CRITICAL_ROUTE]: EventPriority.HIGH,
+  [SamplingReason.CRITICAL_HINT]: EventPriority.HIGH,
+  [SamplingReason.AUDIT]: EventPriority.HIGH,
+  [SamplingReason.PROMOTED_BY_RELATED_ERROR]: EventPriority.NORMAL,
+  [SamplingReason.SAMPLED_ROUTE_RULE]: EventPriority.NORMAL,
+  [SamplingReason.SAMPLED_IMPORTANT]: EventPriority.NORMAL,
+  [SamplingReason.SAMPLED_NORMAL]: EventPriority.NORMAL,
+  [SamplingReason.SAMPLED_ADAPTIVE]: EventPriority.NORMAL,
+  [SamplingReason.UPSTREAM_SAMPLED]: EventPriority.NORMAL,
+  [SamplingReason.SAMPLED_LOW]: EventPriority.LOW,
+  [SamplingReason.NOT_SAMPLED]: EventPriority.LOW,
+};
+
+/**
+ * EventPriorityPolicy - Derives an EventPriority from the sampling decision.
+ */
+export class EventPriorityPolicy {
+  static forReason(reason: SamplingReason | undefined): EventPriority {
+    return reason !== undefined && reason in PRIORITY_BY_REASON
+      ? PRIORITY_BY_REASON[reason]
+      : EventPriority.NORMAL;
+  }
+
+  /**
+   * Priority of a stored event: events with an error are always HIGH,
+   * others follow `_metadata._sampling.reason` (see LoggingService).
+   */
+  static forEvent(
+    event: { error?: unknown },
+    _metadata: Record<string, unknown> | undefined,
+  ): EventPriority {
+    if (event.error) {
+      return EventPriority.HIGH;
+    }
+    const sampling = _metadata?._sampling as
+      | { reason?: SamplingReason }
+      | undefined;
+    return EventPriorityPolicy.forReason(sampling?.reason);
+  }
+}
@@ -14,6 +14,24 @@ export interface FinalizeStats {
   lastErrorTime: string | null;
   /** Success rate percentage */
   successRate: number;
+  /** Per-sink delivery counts (composite logger only) */
+  sinks: Record<string, SinkStats>;
+}
+
+/**
+ * Delivery statistics for one sink of the composite logger.
+ */
+export interface SinkStats {
+  /** Events written successfully */
+  successCount: number;
+  /** Events the sink failed (or timed out) to write */
+  failureCount: number;
+  /** Events not sent because they did not match the sink filter */
+  skippedCount: number;
+  /** Last error message (if any) */
+  lastError: string | null;
+  /** Timestamp of last error */
+  lastErrorTime: string | null;
 }
 
 /**
@@ -52,6 +70,8 @@ export class FinalizeMetrics {
   /** Interval for rate-limited warning logs (ms) */
   private readonly WARNING_INTERVAL_MS = 60000; // 1 minute
   private lastWarningTime = 0;
+  private readonly sinkStats = new Map<string, SinkStats>();
+  private readonly lastSinkWarningTime = new Map<string, number>();
 
   /**
    * Record a successful finalize operation.
@@ -80,6 +100,58 @@ export class FinalizeMetrics {
     this.checkFailureRate();
   }
 
+  /**
+   * Record a successful write to one sink.
+   */
+  recordSinkSuccess(sink: string): void {
+    this.getSink(sink).successCount++;
+  }
+
+  /**
+   * Record an event skipped by a sink filter.
+   */
+  recordSinkSkipped(sink: string): void {
+    this.getSink(sink).skippedCount++;
+  }
+
+  /**
+   * Record a failed write to one sink.
+   * Warnings are rate-limited per sink, since a broken sink fails on every event.
+   */
+  recordSinkFailure(sink: string, error: Error): void {
+    const stats = this.getSink(sink);
+    stats.failureCount++;
+    stats.lastError = error.message;
+    stats.lastErrorTime = new Date().toISOString();
+
+    const now = Date.now();
+    if (
+      now - (this.lastSinkWarningTime.get(sink) ?? 0) >
+      this.WARNING_INTERVAL_MS
+    ) {
+      this.lastSinkWarningTime.set(sink, now);
+      this.logger.warn(
+        `Sink "${sink}" write failed: ${error.message} ` +
+          `(${stats.failureCount} failures so far)`,
+      );
+    }
+  }
+
+  private getSink(sink: string): SinkStats {
+    let stats = this.sinkStats.get(sink);
+    if (!stats) {
+      stats = {
+        successCount: 0,
+        failureCount: 0,
+        skippedCount: 0,
+        lastError: null,
+        lastErrorTime: null,
+      };
+      this.sinkStats.set(sink, stats);
+    }
+    return stats;
+  }
+
   /**
    * Check failure rate and emit warning if above threshold.
    */
@@ -120,6 +192,12 @@ export class FinalizeMetrics {
       lastError: this.lastError?.message ?? null,
       lastErrorTime: this.lastErrorTime?.toISOString() ?? null,
       successRate: Math.round(successRate * 100) / 100,
+      sinks: Object.fromEntries(
+        Array.from(this.sinkStats.entries()).map(([name, stats]) => [
+          name,
+          { ...stats },
+        ]),
+      ),
     };
   }
 
@@ -133,6 +211,8 @@ export class FinalizeMetrics {
     this.lastError = null;
     this.lastErrorTime = null;
     this.lastWarningTime = 0;
+    this.sinkStats.clear();
+    this.lastSinkWarningTime.clear();
   }
 
   /**
@@ -1,6 +1,17 @@
 export * from './context';
+export * from './trace-context';
+export * from './span';
 export * from './wide-event';
 export * from './latency';
+export * from './route-pattern';
+export * from './adaptive-sampler';
 export * from './sampling.policy';
+export * from './tail-sampling.buffer';
 export * from './logging-mode.enum';
+export * from './retry.policy';
+export * from './circuit-breaker';
+export * from './event-priority';
+export * from './log-envelope';
 export * from './finalize.metrics';
+export * from './pipeline.metrics';
+export * from './redaction.policy';
@@ -0,0 +1,133 @@
+import 'reflect-metadata';
+import {
+  LOG_ENVELOPE_VERSION,
+  LogEnvelopeCodec,
+  SCHEMA_ID_HEADER,
+} from './log-envelope';
+import { WideEvent } from './wide-event';
+
+describe('LogEnvelopeCodec', () => {
+  const event = new WideEvent(
+    'req-1',
+    '2026-01-01T00:00:00.000Z',
+    'payments',
+    'POST /payments',
+  );
+
+  /** A message as producers wrote it before envelopes were versioned */
+  const v1Value = JSON.stringify({
+    event,
+    _metadata: { userId: 'user-1' },
+    summary: 'payment accepted',
+    timestamp: '2026-01-01T00:00:01.000Z',
+  });
+
+  it('should decode what it encodes at the current version', () => {
+    const codec = new LogEnvelopeCodec();
+    const { value, headers } = codec.encode(event, {}, 'summary');
+
+    expect(headers).toEqual({
+      [SCHEMA_ID_HEADER]: `wide-event.v${LOG_ENVELOPE_VERSION}`,
+    });
+    expect(codec.decode(value, headers)).toMatchObject({
+      ok: true,
+      sourceVersion: LOG_ENVELOPE_VERSION,
+      envelope: { event: { requestId: 'req-1' }, _metadata: {} },
+    });
+  });
+
+  describe('upcasting', () => {
+    it('should upcast an unversioned v1 message to the current version', () => {
+      const result = new LogEnvelopeCodec().decode(v1Value);
+
+      expect(result).toEqual({
+        ok: true,
+        sourceVersion: 1,
+        envelope: {
+          schema: 'wide-event',
+          version: LOG_ENVELOPE_VERSION,
+          event: JSON.parse(JSON.stringify(event)) as unknown,
+          _metadata: { userId: 'user-1' },
+          summary: 'payment accepted',
+          timestamp: '2026-01-01T00:00:01.000Z',
+        },
+      });
+    });
+
+    it('should take the version from the schema id header over the payload', () => {
+      const value = JSON.stringify({
+        ...(JSON.parse(v1Value) as object),
+        version: LOG_ENVELOPE_VERSION,
+      });
+
+      expect(
+        new LogEnvelopeCodec().decode(value, {
+          [SCHEMA_ID_HEADER]: 'wide-event.v1',
+        }),
+      ).toMatchObject({ ok: true, sourceVersion: 1 });
+    });
+
+    it('should run a registered upcaster in place of the built-in one', () => {
+      const codec = new LogEnvelopeCodec().register(1, (payload) => ({
+        ...payload,
+        summary: `upcast: ${String(payload.summary)}`,
+        version: 2,
+      }));
+
+      expect(codec.decode(v1Value)).toMatchObject({
+        ok: true,
+        envelope: { summary: 'upcast: payment accepted' },
+      });
+    });
+
+    it('should report an upcaster that throws', () => {
+      const codec = new LogEnvelopeCodec().register(1, () => {
+        throw new Error('summary missing');
+      });
+
+      expect(codec.decode(v1Value)).toEqual({
+        ok: false,
+        reason: 'UPCAST_ERROR',
+        error: 'upcast from version 1 failed: summary missing',
+        sourceVersion: 1,
+      });
+    });
+  });
+
+  describe('rejections', () => {
+    const codec = new LogEnvelopeCodec();
+
+    it('should reject an unknown schema id', () => {
+      expect(
+        codec.decode(v1Value, { [SCHEMA_ID_HEADER]: 'audit-event.v1' }),
+      ).toMatchObject({ ok: false, reason: 'UNKNOWN_SCHEMA' });
+      expect(
+        codec.decode(v1Value, { [SCHEMA_ID_HEADER]: 'wide-event' }),
+      ).toMatchObject({ ok: false, reason: 'UNKNOWN_SCHEMA' });
+    });
+
+    it('should reject versions newer than this build', () => {
+      expect(
+        codec.decode(v1Value, {
+          [SCHEMA_ID_HEADER]: `wide-event.v${LOG_ENVELOPE_VERSION + 1}`,
+        }),
+      ).toMatchObject({
+        ok: false,
+        reason: 'UNKNOWN_VERSION',
+        sourceVersion: LOG_ENVELOPE_VERSION + 1,
+      });
+    });
+
+    it('should reject invalid JSON and messages without an event', () => {
+      expect(codec.decode('{"event":')).toMatchObject({
+        ok: false,
+        reason: 'PARSE_ERROR',
+      });
+      expect(codec.decode('{"summary":"no event"}')).toMatchObject({
+        ok: false,
+        reason: 'PARSE_ERROR',
+        error: 'missing event',
+      });
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import type { WideEvent } from './wide-event';
+import type { LoggingContext } from './context';
+
+/** Schema name of MQ log messages */
+export const LOG_ENVELOPE_SCHEMA = 'wide-event';
+
+/**
+ * Envelope version written by this build. Bump it (and register an
+ * upcaster from the previous version) whenever the payload shape changes.
+ *
+ * - v1: unversioned `{ event, _metadata, summary, timestamp }`
+ * - v2: v1 plus `schema` and `version`
+ */
+export const LOG_ENVELOPE_VERSION = 2;
+
+/** Message header carrying `<schema>.v<version>` (e.g. `wide-event.v2`) */
+export const SCHEMA_ID_HEADER = 'x-schema-id';
+
+/**
+ * Current MQ log message.
+ */
+export interface LogEnvelope {
+  schema: typeof LOG_ENVELOPE_SCHEMA;
+  version: number;
+  event: WideEvent;
+  _metadata: LoggingContext['_metadata'];
+  summary: string;
+  timestamp: string;
+}
+
+/**
+ * Migrates a payload of version N to version N + 1.
+ */
+export type LogEnvelopeUpcaster = (
+  payload: Record<string, unknown>,
+) => Record<string, unknown>;
+
+export type LogEnvelopeDecodeResult =
+  | { ok: true; envelope: LogEnvelope; sourceVersion: number }
+  | {
+      ok: false;
+      reason:
+        | 'PARSE_ERROR'
+        | 'UNKNOWN_SCHEMA'
+        | 'UNKNOWN_VERSION'
+        | 'UPCAST_ERROR';
+      error: string;
+      sourceVersion?: number;
+    };
+
+/**
+ * Built-in upcasters, keyed by the version they migrate from.
+ */
+const UPCASTERS: [number, LogEnvelopeUpcaster][] = [
+  [
+    1,
+    (payload) => ({
+      ...payload,
+      schema: LOG_ENVELOPE_SCHEMA,
+      version: 2,
+    }),
+  ],
+];
+
+/**
+ * LogEnvelopeCodec - Versioned MQ log message format.
+ *
+ * - encode() writes the current version and the schema id header
+ * - decode() takes the version from the header (falling back to the
+ *   payload, then v1 for unversioned messages) and runs the upcaster
+ *   chain up to LOG_ENVELOPE_VERSION
+ * - Versions newer than this build (a rolling deploy where producers are
+ *   ahead) fail with UNKNOWN_VERSION so they can be dead-lettered and
+ *   re-driven once consumers are upgraded
+ */
+export class LogEnvelopeCodec {
+  private readonly upcasters = new Map<number, LogEnvelopeUpcaster>(UPCASTERS);
+
+  /**
+   * Register (or replace) the upcaster from `fromVersion` to `fromVersion + 1`.
+   */
+  register(fromVersion: number, upcaster: LogEnvelopeUpcaster): this {
+    this.upcasters.set(fromVersion, upcaster);
+    return this;
+  }
+
+  encode(
+    event: WideEvent,
+    metadata: LoggingContext['_metadata'],
+    summary: string,
+  ): { value: string; headers: Record<string, string> } {
+    const envelope: LogEnvelope = {
+      schema: LOG_ENVELOPE_SCHEMA,
+      version: LOG_ENVELOPE_VERSION,
+      event,
+      _metadata: metadata || {},
+      summary,
+      timestamp: new Date().toISOString(),
+    };
+
+    return {
+      value: JSON.stringify(envelope),
+      headers: { [SCHEMA_ID_HEADER]: LogEnvelopeCodec.schemaId() },
+    };
+  }
+
+  decode(
+    value: string,
+    headers: Record<string, string> = {},
+  ): LogEnvelopeDecodeResult {
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(value) as Record<string, unknown>;
+    } catch (error) {
+      return { ok: false, reason: 'PARSE_ERROR', error: error.message };
+    }
+    if (!payload || typeof payload !== 'object') {
+      return { ok: false, reason: 'PARSE_ERROR', error: 'not an object' };
+    }
+
+    const header = headers[SCHEMA_ID_HEADER];
+    const schemaId = header ? /^(.+)\.v(\d+)$/.exec(header) : null;
+    if (header && !schemaId) {
+      return {
+        ok: false,
+        reason: 'UNKNOWN_SCHEMA',
+        error: `invalid schema id "${header}"`,
+      };
+    }
+
+    const schema = schemaId
+      ? schemaId[1]
+      : (payload.schema ?? LOG_ENVELOPE_SCHEMA);
+    if (schema !== LOG_ENVELOPE_SCHEMA) {
+      return {
+        ok: false,
+        reason: 'UNKNOWN_SCHEMA',
+        error: `unsupported schema ${JSON.stringify(schema)}`,
+      };
+    }
+
+    const sourceVersion = schemaId
+      ? Number(schemaId[2])
+      : typeof payload.version === 'number'
+        ? payload.version
+        : 1;
+    if (!Number.isInteger(sourceVersion) || sourceVersion < 1) {
+      return {
+        ok: false,
+        reason: 'UNKNOWN_VERSION',
+        error: `invalid version ${sourceVersion}`,
+      };
+    }
+    if (sourceVersion > LOG_ENVELOPE_VERSION) {
+      return {
+        ok: false,
+        reason: 'UNKNOWN_VERSION',
+        error: `version ${sourceVersion} is newer than supported version ${LOG_ENVELOPE_VERSION}`,
+        sourceVersion,
+      };
+    }
+
+    let current = payload;
+    for (
+      let version = sourceVersion;
+      version < LOG_ENVELOPE_VERSION;
+      version++
+    ) {
+      const upcaster = this.upcasters.get(version);
+      if (!upcaster) {
+        return {
+          ok: false,
+          reason: 'UPCAST_ERROR',
+          error: `no upcaster from version ${version}`,
+          sourceVersion,
+        };
+      }
+      try {
+        current = upcaster(current);
+      } catch (error) {
+        return {
+          ok: false,
+          reason: 'UPCAST_ERROR',
+          error: `upcast from version ${version} failed: ${error.message}`,
+          sourceVersion,
+        };
+      }
+    }
+
+    const envelope = current as unknown as LogEnvelope;
+    if (!envelope.event?.requestId) {
+      return {
+        ok: false,
+        reason: 'PARSE_ERROR',
+        error: 'missing event',
+        sourceVersion,
+      };
+    }
+
+    return { ok: true, envelope, sourceVersion };
+  }
+
+  static schemaId(version = LOG_ENVELOPE_VERSION): string {
+    return `${LOG_ENVELOPE_SCHEMA}.v${version}`;
+  }
+}
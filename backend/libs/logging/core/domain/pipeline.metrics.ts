@@ -0,0 +1,139 @@
+import { Injectable } from '@nestjs/common';
+import { SamplingReason } from './sampling.policy';
+
+/**
+ * Request outcome used as a histogram label.
+ */
+export type RequestOutcome = 'success' | 'error';
+
+/**
+ * Duration histogram of one (service, route, outcome) series.
+ */
+export interface RequestDurationSeries {
+  service: string;
+  route: string;
+  outcome: RequestOutcome;
+  /** Cumulative counts, one per bucket bound (`le`), without +Inf */
+  bucketCounts: number[];
+  count: number;
+  /** Sum of durations in milliseconds */
+  sumMs: number;
+}
+
+/**
+ * Statistics collected by PipelineMetrics.
+ */
+export interface PipelineStats {
+  /** Upper bounds of the duration buckets in milliseconds */
+  durationBucketsMs: number[];
+  requestDurations: RequestDurationSeries[];
+  /** Events persisted, by sampling reason */
+  recorded: Partial<Record<SamplingReason, number>>;
+  /** Events not persisted (held for tail sampling or discarded), by reason */
+  sampledOut: Partial<Record<SamplingReason, number>>;
+}
+
+/**
+ * PipelineMetrics - Counts every finalized request, sampled or not.
+ *
+ * Wide Events only exist for sampled requests, so rates and latencies read
+ * back from storage are estimates; these in-process counters are exact and
+ * are published on `GET /metrics`.
+ *
+ * - Request duration histogram per service, normalized route and outcome
+ * - Recorded vs. sampled-out events per SamplingReason
+ *
+ * Routes are already normalized (`/users/:id`); past MAX_SERIES distinct
+ * series, new routes are counted under the route `other`.
+ */
+@Injectable()
+export class PipelineMetrics {
+  /** Bucket bounds in milliseconds (Prometheus client defaults, scaled) */
+  static readonly DURATION_BUCKETS_MS = [
+    5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000,
+  ];
+  private static readonly MAX_SERIES = 1000;
+  private static readonly OVERFLOW_ROUTE = 'other';
+
+  private readonly durations = new Map<string, RequestDurationSeries>();
+  private readonly recorded = new Map<SamplingReason, number>();
+  private readonly sampledOut = new Map<SamplingReason, number>();
+
+  /**
+   * Observe the duration of a finalized request.
+   */
+  observeRequest(
+    service: string,
+    route: string,
+    outcome: RequestOutcome,
+    durationMs: number,
+  ): void {
+    const series = this.getSeries(service, route, outcome);
+    PipelineMetrics.DURATION_BUCKETS_MS.forEach((bound, index) => {
+      if (durationMs <= bound) {
+        series.bucketCounts[index]++;
+      }
+    });
+    series.count++;
+    series.sumMs += durationMs;
+  }
+
+  /**
+   * Record a sampling decision: persisted or sampled out.
+   */
+  recordSampling(reason: SamplingReason, recorded: boolean): void {
+    const counters = recorded ? this.recorded : this.sampledOut;
+    counters.set(reason, (counters.get(reason) ?? 0) + 1);
+  }
+
+  getStats(): PipelineStats {
+    return {
+      durationBucketsMs: [...PipelineMetrics.DURATION_BUCKETS_MS],
+      requestDurations: Array.from(this.durations.values()).map((series) => ({
+        ...series,
+        bucketCounts: [...series.bucketCounts],
+      })),
+      recorded: Object.fromEntries(this.recorded),
+      sampledOut: Object.fromEntries(this.sampledOut),
+    };
+  }
+
+  /**
+   * Reset statistics.
+   * Useful for testing.
+   */
+  reset(): void {
+    this.durations.clear();
+    this.recorded.clear();
+    this.sampledOut.clear();
+  }
+
+  private getSeries(
+    service: string,
+    route: string,
+    outcome: RequestOutcome,
+  ): RequestDurationSeries {
+    let key = `${service}\u0000${route}\u0000${outcome}`;
+    if (
+      !this.durations.has(key) &&
+      this.durations.size >= PipelineMetrics.MAX_SERIES
+    ) {
+      route = PipelineMetrics.OVERFLOW_ROUTE;
+      key = `${service}\u0000${route}\u0000${outcome}`;
+    }
+
+    let series = this.durations.get(key);
+    if (!series) {
+      series = {
+        service,
+        route,
+        outcome,
+        bucketCounts: PipelineMetrics.DURATION_BUCKETS_MS.map(() => 0),
+        count: 0,
+        sumMs: 0,
+      };
+      this.durations.set(key, series);
+    }
+    return series;
+  }
+}
@@ -0,0 +1,406 @@
+import { createHmac } from 'crypto';
+
+/**
+ * RedactionMode - How a sensitive value is written to the log.
+ *
+ * REPLACE: the whole value becomes the replacement string ('[REDACTED]')
+ * MASK: characters are masked, keeping a short tail (card's last 4 digits,
+ *   email domain) so the value stays recognizable
+ * HASH: a keyed HMAC-SHA256 digest, so equal values can be correlated
+ *   across events without being readable
+ */
+export enum RedactionMode {
+  REPLACE = 'replace',
+  MASK = 'mask',
+  HASH = 'hash',
+}
+
+/**
+ * RedactionDetector - Sensitive values found by their content, wherever
+ * they appear in a string (including error messages).
+ */
+export enum RedactionDetector {
+  /** Payment card numbers (13-19 digits, Luhn-checked) */
+  CARD = 'card',
+  EMAIL = 'email',
+  /** JSON Web Tokens (three base64url parts, `eyJ` header) */
+  JWT = 'jwt',
+  /** International (+...) or separated phone numbers */
+  PHONE = 'phone',
+}
+
+/**
+ * Paths redacted by default. `**` matches any depth, so a field is redacted
+ * wherever it appears (request body, response, error response).
+ */
+export const DEFAULT_REDACT_PATHS = [
+  '**.password',
+  '**.currentPassword',
+  '**.newPassword',
+  '**.confirmPassword',
+  '**.secret',
+  '**.apiKey',
+  '**.token',
+  '**.accessToken',
+  '**.refreshToken',
+  '**.cardNumber',
+  '**.cvv',
+  '**.ssn',
+  'headers.authorization',
+  'headers.cookie',
+  'headers.x-api-key',
+];
+
+/**
+ * RedactionConfig - Configuration for RedactionPolicy.
+ */
+export interface RedactionConfig {
+  /** Path patterns whose values are redacted (see RedactionPath) */
+  paths: string[];
+  /** Default: REPLACE */
+  mode: RedactionMode;
+  /** Written in REPLACE mode, and for objects in MASK mode. Default: '[REDACTED]' */
+  replacement: string;
+  /** Detectors applied to every string. Default: all */
+  detectors: RedactionDetector[];
+  /** HMAC key for HASH mode; without one HASH falls back to REPLACE */
+  hashKey?: string;
+  /** Characters left visible at the end of masked values. Default: 4 */
+  maskVisibleChars: number;
+}
+
+/**
+ * Default configuration values for RedactionPolicy.
+ */
+export const DEFAULT_REDACTION_CONFIG: RedactionConfig = {
+  paths: DEFAULT_REDACT_PATHS,
+  mode: RedactionMode.REPLACE,
+  replacement: '[REDACTED]',
+  detectors: Object.values(RedactionDetector),
+  maskVisibleChars: 4,
+};
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * RedactionPath - Matches object paths against dot-notation patterns.
+ *
+ * Pattern syntax:
+ * - `body.password`     exact path
+ * - `body.*.token`      `*` matches one segment (key or array index)
+ * - `body.**.token`     `**` matches zero or more segments
+ * - `items[*].card`     `[*]` any array index, `[0]` a specific one
+ * - `body.*Token`       `*` inside a segment matches within it
+ *
+ * A pattern also matches everything below the path it names.
+ */
+export class RedactionPath {
+  private constructor(
+    readonly source: string,
+    private readonly segments: (RegExp | '**')[],
+  ) {}
+
+  static compile(pattern: string): RedactionPath {
+    const segments = RedactionPath.split(pattern);
+    if (segments.length === 0) {
+      throw new Error('Redaction path must not be empty');
+    }
+
+    return new RedactionPath(
+      pattern,
+      segments.map((segment) =>
+        segment === '**'
+          ? '**'
+          : new RegExp(`^${segment.split('*').map(escapeRegex).join('.*')}$`),
+      ),
+    );
+  }
+
+  /**
+   * Split a path into segments; `items[0].card` → ['items', '0', 'card'].
+   */
+  static split(path: string): string[] {
+    return path
+      .replace(/\[([^\]]*)\]/g, '.$1')
+      .split('.')
+      .filter((segment) => segment.length > 0);
+  }
+
+  /**
+   * Check whether the path (or one of its ancestors) matches.
+   */
+  matches(path: string[]): boolean {
+    return this.matchFrom(0, path, 0);
+  }
+
+  private matchFrom(index: number, path: string[], offset: number): boolean {
+    if (index === this.segments.length) {
+      return true;
+    }
+    const segment = this.segments[index];
+    if (segment === '**') {
+      return (
+        this.matchFrom(index + 1, path, offset) ||
+        (offset < path.length && this.matchFrom(index, path, offset + 1))
+      );
+    }
+    return (
+      offset < path.length &&
+      segment.test(path[offset]) &&
+      this.matchFrom(index + 1, path, offset + 1)
+    );
+  }
+}
+
+const DETECTOR_PATTERNS: [RedactionDetector, string][] = [
+  [RedactionDetector.JWT, 'eyJ[\\w-]+\\.[\\w-]+\\.[\\w-]+'],
+  [RedactionDetector.EMAIL, '[\\w.%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}'],
+  // Issuer prefixes 2-6 only: keeps epoch-millisecond timestamps out
+  [RedactionDetector.CARD, '\\b[2-6](?:[ -]?\\d){12,18}\\b'],
+  [
+    RedactionDetector.PHONE,
+    '(?:\\+\\d{1,3}[ .-]?)?(?:\\(\\d{1,4}\\)[ .-]?|\\b\\d{2,4}[ .-])\\d{3,4}[ .-]\\d{4}\\b|\\+\\d{8,15}\\b',
+  ],
+];
+
+/**
+ * RedactionPolicy - Central redaction engine for everything the logging
+ * pipeline copies out of requests, responses and errors.
+ *
+ * - Values at matching paths (RedactionPath patterns) are redacted whole
+ * - Every remaining string is scanned by the enabled detectors and only the
+ *   detected part is redacted
+ * - The mode (replace, mask, hash) decides what is written instead
+ *
+ * Values are copied, never modified in place; circular references are
+ * written as '[Circular]'.
+ *
+ * Pure domain object (no framework dependencies), like RoutePattern.
+ */
+export class RedactionPolicy {
+  private readonly config: RedactionConfig;
+  private readonly paths: RedactionPath[];
+  private readonly detectorRegex: RegExp | null;
+
+  constructor(config: Partial<RedactionConfig> = {}) {
+    this.config = { ...DEFAULT_REDACTION_CONFIG, ...config };
+    this.paths = this.config.paths.map((path) => RedactionPath.compile(path));
+
+    const patterns = DETECTOR_PATTERNS.filter(([detector]) =>
+      this.config.detectors.includes(detector),
+    ).map(([detector, pattern]) => `(?<${detector}>${pattern})`);
+    this.detectorRegex =
+      patterns.length > 0 ? new RegExp(patterns.join('|'), 'g') : null;
+  }
+
+  /**
+   * Factory method to create a RedactionPolicy from LOG_REDACT_* variables.
+   * LOG_REDACT_PATHS is added to the default paths; LOG_REDACT_DETECTORS
+   * is a comma-separated list or 'none'.
+   */
+  static fromEnv(env: Record<string, string | undefined>): RedactionPolicy {
+    const mode = Object.values(RedactionMode).find(
+      (value) => value === env.LOG_REDACT_MODE?.trim().toLowerCase(),
+    );
+    const detectors = env.LOG_REDACT_DETECTORS?.trim()
+      ? env.LOG_REDACT_DETECTORS.split(',')
+          .map((value) => value.trim().toLowerCase())
+          .filter((value): value is RedactionDetector =>
+            Object.values(RedactionDetector).includes(
+              value as RedactionDetector,
+            ),
+          )
+      : DEFAULT_REDACTION_CONFIG.detectors;
+
+    return new RedactionPolicy({
+      paths: [
+        ...DEFAULT_REDACT_PATHS,
+        ...(env.LOG_REDACT_PATHS ?? '')
+          .split(',')
+          .map((path) => path.trim())
+          .filter((path) => path.length > 0),
+      ],
+      mode: mode ?? DEFAULT_REDACTION_CONFIG.mode,
+      detectors,
+      hashKey: env.LOG_REDACT_HASH_KEY || undefined,
+    });
+  }
+
+  /**
+   * Create a policy with additional paths and overridden settings
+   * (e.g. from @LogRedact); the hash key is kept.
+   */
+  extend(overrides: Partial<RedactionConfig>): RedactionPolicy {
+    return new RedactionPolicy({
+      ...this.config,
+      ...overrides,
+      paths: [...this.config.paths, ...(overrides.paths ?? [])],
+      hashKey: this.config.hashKey,
+    });
+  }
+
+  /**
+   * Return a redacted copy of a value found at `path` (e.g. 'body.user').
+   */
+  redact(value: unknown, path: string | string[] = []): unknown {
+    return this.redactNode(
+      value,
+      typeof path === 'string' ? RedactionPath.split(path) : path,
+      new Set(),
+    );
+  }
+
+  /**
+   * Redact the values the detectors find in a string.
+   */
+  redactText(text: string): string {
+    if (!this.detectorRegex) {
+      return text;
+    }
+
+    return text.replace(
+      this.detectorRegex,
+      (match: string, ...args: unknown[]) => {
+        const groups = args[args.length - 1] as Record<string, string>;
+        const detector = Object.values(RedactionDetector).find(
+          (value) => groups[value] !== undefined,
+        );
+        if (
+          detector === RedactionDetector.CARD &&
+          !RedactionPolicy.isLuhnValid(match.replace(/\D/g, ''))
+        ) {
+          return match;
+        }
+        return this.redactString(match, detector);
+      },
+    );
+  }
+
+  getConfig(): RedactionConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Luhn checksum, for 13-19 digit card numbers.
+   */
+  static isLuhnValid(digits: string): boolean {
+    if (digits.length < 13 || digits.length > 19) {
+      return false;
+    }
+
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+      let digit = Number(digits[digits.length - 1 - i]);
+      if (i % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) digit -= 9;
+      }
+      sum += digit;
+    }
+    return sum % 10 === 0;
+  }
+
+  private redactNode(
+    value: unknown,
+    path: string[],
+    ancestors: Set<object>,
+  ): unknown {
+    if (
+      path.length > 0 &&
+      this.paths.some((pattern) => pattern.matches(path))
+    ) {
+      return this.redactValue(value);
+    }
+    if (typeof value === 'string') {
+      return this.redactText(value);
+    }
+    if (!Array.isArray(value) && !RedactionPolicy.isPlainObject(value)) {
+      return value;
+    }
+    if (ancestors.has(value)) {
+      return '[Circular]';
+    }
+
+    ancestors.add(value);
+    const result = Array.isArray(value)
+      ? value.map((item, index) =>
+          this.redactNode(item, [...path, String(index)], ancestors),
+        )
+      : Object.fromEntries(
+          Object.entries(value).map(([key, item]) => [
+            key,
+            this.redactNode(item, [...path, key], ancestors),
+          ]),
+        );
+    ancestors.delete(value);
+    return result;
+  }
+
+  /**
+   * Redact a whole value matched by path.
+   */
+  private redactValue(value: unknown): unknown {
+    if (value === null || value === undefined) {
+      return value;
+    }
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+    if (typeof value === 'number' || typeof value === 'bigint') {
+      return this.redactString(String(value));
+    }
+    if (this.config.mode === RedactionMode.HASH && this.config.hashKey) {
+      try {
+        return this.hash(JSON.stringify(value));
+      } catch {
+        return this.config.replacement;
+      }
+    }
+    return this.config.replacement;
+  }
+
+  private redactString(text: string, detector?: RedactionDetector): string {
+    switch (this.config.mode) {
+      case RedactionMode.MASK:
+        return this.mask(text, detector);
+      case RedactionMode.HASH:
+        return this.config.hashKey ? this.hash(text) : this.config.replacement;
+      default:
+        return this.config.replacement;
+    }
+  }
+
+  /**
+   * Mask letters and digits, keeping separators and a short tail; emails
+   * keep their first character and domain. Values too short to keep a tail
+   * without giving most of them away are fully masked.
+   */
+  private mask(text: string, detector?: RedactionDetector): string {
+    if (detector === RedactionDetector.EMAIL) {
+      const at = text.lastIndexOf('@');
+      return `${text[0]}***${text.slice(at)}`;
+    }
+
+    const visible = this.config.maskVisibleChars;
+    if (text.length < visible * 3) {
+      return '********';
+    }
+    return (
+      text.slice(0, -visible).replace(/[A-Za-z0-9]/g, '*') +
+      text.slice(-visible)
+    );
+  }
+
+  private hash(text: string): string {
+    const digest = createHmac('sha256', this.config.hashKey as string)
+      .update(text)
+      .digest('hex');
+    return `[HMAC:${digest.slice(0, 16)}]`;
+  }
+
+  private static isPlainObject(value: unknown): value is object {
+    return Object.prototype.toString.call(value) === '[object Object]';
+  }
+}
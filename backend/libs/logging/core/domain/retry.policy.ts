@@ -0,0 +1,64 @@
+/**
+ * Configuration for RetryPolicy.
+ */
+export interface RetryPolicyConfig {
+  /** Retries after the first attempt (0 = no retry) */
+  maxRetries: number;
+  /** Delay before the first retry; doubled for each further retry */
+  baseDelayMs: number;
+  /** Upper bound for a single delay */
+  maxDelayMs: number;
+}
+
+/**
+ * RetryPolicy - Exponential backoff schedule.
+ *
+ * Pure calculation only; callers own the loop and the sleeping so the
+ * policy stays usable from any adapter.
+ *
+ * @example
+ * ```typescript
+ * for (let attempt = 1; ; attempt++) {
+ *   try { return await write(); }
+ *   catch (error) {
+ *     if (!policy.canRetry(attempt)) throw error;
+ *     await sleep(policy.delayFor(attempt));
+ *   }
+ * }
+ * ```
+ */
+export class RetryPolicy {
+  private readonly config: RetryPolicyConfig;
+
+  constructor(config: Partial<RetryPolicyConfig> = {}) {
+    this.config = {
+      maxRetries: Math.max(0, config.maxRetries ?? 3),
+      baseDelayMs: Math.max(0, config.baseDelayMs ?? 200),
+      maxDelayMs: Math.max(0, config.maxDelayMs ?? 5000),
+    };
+  }
+
+  /** Total attempts including the first one */
+  get maxAttempts(): number {
+    return this.config.maxRetries + 1;
+  }
+
+  /**
+   * Whether another attempt is allowed after `attempt` (1-based) failed.
+   */
+  canRetry(attempt: number): boolean {
+    return attempt < this.maxAttempts;
+  }
+
+  /**
+   * Delay before the retry that follows failed attempt `attempt` (1-based).
+   */
+  delayFor(attempt: number): number {
+    const delay = this.config.baseDelayMs * 2 ** Math.max(0, attempt - 1);
+    return Math.min(delay, this.config.maxDelayMs);
+  }
+
+  getConfig(): RetryPolicyConfig {
+    return { ...this.config };
+  }
+}
@@ -0,0 +1,60 @@
+import { RoutePattern } from './route-pattern';
+
+describe('RoutePattern', () => {
+  const matches = (pattern: string, route: string) =>
+    RoutePattern.compile(pattern).matches(route);
+
+  describe('globs', () => {
+    it('should match "*" against exactly one segment', () => {
+      expect(matches('POST /payments/*', 'POST /payments/123')).toBe(true);
+      expect(matches('POST /payments/*', 'POST /payments')).toBe(false);
+      expect(matches('POST /payments/*', 'POST /payments/123/refund')).toBe(
+        false,
+      );
+    });
+
+    it('should match "**" against zero or more segments', () => {
+      expect(matches('* /admin/**', 'GET /admin')).toBe(true);
+      expect(matches('* /admin/**', 'DELETE /admin/users/1')).toBe(true);
+      expect(matches('* /admin/**', 'GET /administrator')).toBe(false);
+      expect(matches('/**', 'GET /')).toBe(true);
+    });
+
+    it('should match "*" inside a segment within that segment', () => {
+      expect(matches('GET /v*/items', 'GET /v2/items')).toBe(true);
+      expect(matches('GET /files/*.json', 'GET /files/a.json')).toBe(true);
+      expect(matches('GET /files/*.json', 'GET /files/a/b.json')).toBe(false);
+      expect(matches('GET /files/*.json', 'GET /files/ajson')).toBe(false);
+    });
+
+    it('should match any method when the method is "*" or omitted', () => {
+      expect(matches('/auth/**', 'POST /auth/login')).toBe(true);
+      expect(matches('* /auth/login', 'PUT /auth/login')).toBe(true);
+      expect(matches('get /auth/login', 'GET /auth/login')).toBe(true);
+      expect(matches('GET /auth/login', 'POST /auth/login')).toBe(false);
+    });
+
+    it('should ignore a trailing slash on the route', () => {
+      expect(matches('GET /health', 'GET /health/')).toBe(true);
+    });
+
+    it('should treat regex characters in globs literally', () => {
+      expect(matches('GET /a.b', 'GET /a.b')).toBe(true);
+      expect(matches('GET /a.b', 'GET /axb')).toBe(false);
+    });
+  });
+
+  describe('regexes', () => {
+    it('should use patterns starting with "^" as regexes', () => {
+      expect(matches('^(GET|HEAD) /health$', 'HEAD /health')).toBe(true);
+      expect(matches('^(GET|HEAD) /health$', 'POST /health')).toBe(false);
+    });
+
+    it('should reject invalid regexes and empty patterns', () => {
+      expect(() => RoutePattern.compile('^(GET')).toThrow();
+      expect(() => RoutePattern.compile('  ')).toThrow(
+        'Route pattern must not be empty',
+      );
+    });
+  });
+});
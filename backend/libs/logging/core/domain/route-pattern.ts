@@ -0,0 +1,81 @@
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * RoutePattern - Matches normalized routes ("METHOD /path") against
+ * glob or regex patterns.
+ *
+ * Glob syntax:
+ * - `POST /payments/*`  one path segment
+ * - `* /admin/**`       any method, zero or more segments
+ * - `/auth/**`          method omitted = any method
+ * - `GET /v*` / `/files/*.json`  `*` inside a segment matches within it
+ *
+ * Patterns starting with `^` are used as raw regular expressions against
+ * the full route string (e.g. `^(GET|HEAD) /health$`).
+ * They are only accepted from env config (see
+ * SamplingPolicy.validateConfig); the runtime API takes globs.
+ *
+ * Pure domain object (no framework dependencies).
+ */
+export class RoutePattern {
+  private constructor(
+    readonly source: string,
+    private readonly regex: RegExp,
+  ) {}
+
+  /**
+   * Compile a pattern. Throws on an invalid regex or empty pattern.
+   */
+  static compile(pattern: string): RoutePattern {
+    const source = pattern.trim();
+    if (source.length === 0) {
+      throw new Error('Route pattern must not be empty');
+    }
+
+    if (source.startsWith('^')) {
+      return new RoutePattern(source, new RegExp(source));
+    }
+
+    const [first, ...rest] = source.split(/\s+/);
+    const hasMethod = rest.length > 0;
+    const method = hasMethod ? first.toUpperCase() : '*';
+    const path = hasMethod ? rest.join(' ') : first;
+
+    const methodRegex = method === '*' ? '[A-Z]+' : escapeRegex(method);
+    return new RoutePattern(
+      source,
+      new RegExp(`^${methodRegex} ${this.globToRegex(path)}$`),
+    );
+  }
+
+  /**
+   * Check whether a normalized route ("METHOD /path") matches.
+   * A trailing slash on the route is ignored.
+   */
+  matches(route: string): boolean {
+    const normalized =
+      route.length > 1 && route.endsWith('/') ? route.slice(0, -1) : route;
+    return this.regex.test(normalized);
+  }
+
+  private static globToRegex(path: string): string {
+    const segments = path.split('/').filter((segment) => segment.length > 0);
+    if (segments.length === 0) {
+      return '/';
+    }
+    if (segments.every((segment) => segment === '**')) {
+      // Also matches the root route
+      return '(?:/[^/]+)*/?';
+    }
+
+    return segments
+      .map((segment) => {
+        if (segment === '**') return '(?:/[^/]+)*';
+        if (segment === '*') return '/[^/]+';
+        return '/' + segment.split('*').map(escapeRegex).join('[^/]*');
+      })
+      .join('');
+  }
+}
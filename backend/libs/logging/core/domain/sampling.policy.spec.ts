@@ -0,0 +1,162 @@
+import { LoggingContext } from './context';
+import {
+  SamplingPolicy,
+  SamplingReason,
+  SamplingRouteRule,
+} from './sampling.policy';
+import { TraceContext } from './trace-context';
+
+describe('SamplingPolicy', () => {
+  describe('deterministic mode', () => {
+    const policies = {
+      payments: new SamplingPolicy({ normalRate: 0.5, deterministic: true }),
+      orders: new SamplingPolicy({ normalRate: 0.5, deterministic: true }),
+    };
+    const requestIds = Array.from({ length: 50 }, (_, i) => `req-${i}`);
+
+    /**
+     * A context as LoggingInterceptor builds it: a trace id is always set,
+     * generated locally unless a traceparent came in.
+     */
+    const contextFor = (
+      service: string,
+      requestId: string,
+      traceparent?: string,
+    ) => {
+      const context = new LoggingContext(requestId, service, 'GET /items');
+      const parent = TraceContext.parseTraceparent(traceparent);
+      context.enrich({
+        traceId: parent?.traceId ?? TraceContext.generateTraceId(),
+        spanId: TraceContext.generateSpanId(),
+        parentSpanId: parent?.parentSpanId,
+      });
+      return context;
+    };
+
+    it('should reach the same verdict in every service for one x-request-id without traceparent', () => {
+      const verdicts = requestIds.map((requestId) => {
+        const [payments, orders] = (['payments', 'orders'] as const).map(
+          (service) =>
+            policies[service].shouldRecord(contextFor(service, requestId))
+              .shouldRecord,
+        );
+        expect(orders).toBe(payments);
+        return payments;
+      });
+
+      // Both verdicts occur, so agreement is not a constant rate at work
+      expect(verdicts).toContain(true);
+      expect(verdicts).toContain(false);
+    });
+
+    it('should hash the trace id of an incoming traceparent', () => {
+      const verdicts = requestIds.map((_, i) => {
+        const traceparent = `00-${TraceContext.generateTraceId()}-${TraceContext.generateSpanId()}-01`;
+        // Services that do not forward x-request-id still share the trace
+        const payments = policies.payments.shouldRecord(
+          contextFor('payments', `payments-${i}`, traceparent),
+        );
+        const orders = policies.orders.shouldRecord(
+          contextFor('orders', `orders-${i}`, traceparent),
+        );
+        expect(orders.shouldRecord).toBe(payments.shouldRecord);
+        return payments.reason;
+      });
+
+      expect(verdicts).toContain(SamplingReason.SAMPLED_NORMAL);
+      expect(verdicts).toContain(SamplingReason.NOT_SAMPLED);
+    });
+  });
+
+  describe('route rules', () => {
+    /** Which rule applied, told apart by their rates */
+    const rateFor = (rules: SamplingRouteRule[], route: string) =>
+      new SamplingPolicy({ normalRate: 0.5, routeRules: rules }).shouldRecord(
+        new LoggingContext('req-1', 'payments', route),
+      ).sampleRate;
+
+    it('should apply the highest-priority matching rule', () => {
+      const rules = [
+        { pattern: 'GET /payments/*', rate: 0 },
+        { pattern: '* /payments/**', rate: 1, priority: 10 },
+      ];
+
+      expect(rateFor(rules, 'GET /payments/123')).toBe(1);
+    });
+
+    it('should prefer the rule declared first among equal priorities', () => {
+      const specificFirst = [
+        { pattern: 'GET /payments/*', rate: 0 },
+        { pattern: '/payments/**', rate: 1 },
+      ];
+      const globFirst = [...specificFirst].reverse();
+
+      expect(rateFor(specificFirst, 'GET /payments/123')).toBe(0);
+      expect(rateFor(globFirst, 'GET /payments/123')).toBe(1);
+    });
+
+    it('should skip higher-priority rules that do not match', () => {
+      const rules = [
+        { pattern: '/payments/**', rate: 0 },
+        { pattern: '* /admin/**', rate: 1, priority: 10 },
+      ];
+
+      expect(rateFor(rules, 'GET /payments/123')).toBe(0);
+      expect(rateFor(rules, 'GET /orders')).toBe(0.5);
+    });
+  });
+
+  describe('validateConfig', () => {
+    const regexRule = { pattern: '^(GET|HEAD) /health$', rate: 0 };
+
+    it('should reject regex patterns by default', () => {
+      expect(
+        SamplingPolicy.validateConfig({
+          routeRules: [regexRule],
+          criticalRoutes: ['^/payments'],
+        }),
+      ).toEqual([
+        'criticalRoutes: invalid pattern "^/payments": regex patterns are only accepted from LOG_ROUTE_RULES, use a glob',
+        'routeRules[0]: invalid pattern "^(GET|HEAD) /health$": regex patterns are only accepted from LOG_ROUTE_RULES, use a glob',
+      ]);
+    });
+
+    it('should accept regex patterns with allowRegexPatterns', () => {
+      expect(
+        SamplingPolicy.validateConfig(
+          { routeRules: [regexRule], criticalRoutes: ['^/payments'] },
+          { allowRegexPatterns: true },
+        ),
+      ).toEqual([]);
+      expect(
+        SamplingPolicy.validateConfig(
+          { routeRules: [{ pattern: '^(GET' }] },
+          { allowRegexPatterns: true },
+        ),
+      ).toEqual([
+        expect.stringMatching(/^routeRules\[0\]: invalid pattern "\^\(GET": /),
+      ]);
+    });
+
+    it('should accept globs without allowRegexPatterns', () => {
+      expect(
+        SamplingPolicy.validateConfig({
+          routeRules: [{ pattern: '* /admin/**', rate: 1, priority: 10 }],
+          criticalRoutes: ['/payments'],
+        }),
+      ).toEqual([]);
+    });
+
+    it('should accept regex patterns from LOG_ROUTE_RULES', () => {
+      const policy = SamplingPolicy.fromEnv({
+        LOG_ROUTE_RULES: JSON.stringify([regexRule]),
+      });
+
+      expect(
+        policy.shouldRecord(
+          new LoggingContext('req-1', 'payments', 'HEAD /health'),
+        ),
+      ).toMatchObject({ shouldRecord: false, sampleRate: 0 });
+    });
+  });
+});
@@ -1,4 +1,19 @@
 import { LoggingContext } from './context';
+import { RoutePattern } from './route-pattern';
+import { AdaptiveSampler, AdaptiveSamplingStats } from './adaptive-sampler';
+
+/**
+ * SamplingHintLevel - Importance level declared by @LogSamplingHint.
+ * The interceptor stores it in `_metadata._samplingHint`.
+ */
+export type SamplingHintLevel = 'critical' | 'important' | 'normal' | 'low';
+
+const SAMPLING_HINT_LEVELS: ReadonlySet<string> = new Set<SamplingHintLevel>([
+  'critical',
+  'important',
+  'normal',
+  'low',
+]);
 
 /**
  * SamplingDecision - Result of sampling decision with explanation.
@@ -6,6 +21,16 @@ import { LoggingContext } from './context';
 export interface SamplingDecision {
   shouldRecord: boolean;
   reason: SamplingReason;
+  /**
+   * Probability with which this request was kept (1 for always-recorded).
+   * Stored with the event so aggregations can re-weight counts by 1/rate.
+   */
+  sampleRate: number;
+  /**
+   * Set when the inclusion probability is not known: the upstream service
+   * sampled the flow without sending its rate, so sampleRate is 1.
+   */
+  sampleRateUnknown?: boolean;
 }
 
 /**
@@ -18,12 +43,72 @@ export enum SamplingReason {
   HAS_ERROR = 'HAS_ERROR',
   SLOW_REQUEST = 'SLOW_REQUEST',
   CRITICAL_ROUTE = 'CRITICAL_ROUTE',
+  CRITICAL_HINT = 'CRITICAL_HINT',
+  /** Configuration audit events; they bypass sampling. */
+  AUDIT = 'AUDIT',
 
   /**
    * Probabilistically sampled.
    */
+  SAMPLED_ROUTE_RULE = 'SAMPLED_ROUTE_RULE',
+  SAMPLED_IMPORTANT = 'SAMPLED_IMPORTANT',
   SAMPLED_NORMAL = 'SAMPLED_NORMAL',
+  SAMPLED_ADAPTIVE = 'SAMPLED_ADAPTIVE',
+  /** Recorded because the calling service sampled the flow (x-sampled: 1) */
+  UPSTREAM_SAMPLED = 'UPSTREAM_SAMPLED',
+  SAMPLED_LOW = 'SAMPLED_LOW',
   NOT_SAMPLED = 'NOT_SAMPLED',
+
+  /**
+   * Initially not sampled, held by TailSamplingBuffer and recorded
+   * because a related request (same user / correlation id) failed or was slow.
+   */
+  PROMOTED_BY_RELATED_ERROR = 'PROMOTED_BY_RELATED_ERROR',
+}
+
+/**
+ * SamplingRouteRule - Per-route sampling override.
+ *
+ * @example
+ * { pattern: 'GET /health', rate: 0 }
+ * { pattern: '* /admin/**', rate: 1, slowThresholdMs: 500, priority: 10 }
+ */
+export interface SamplingRouteRule {
+  /** Glob or regex route pattern (see RoutePattern) */
+  pattern: string;
+  /** Sampling rate for matching requests; overrides hint and normal rates */
+  rate?: number;
+  /** Slow threshold for matching requests; overrides slowThresholdMs */
+  slowThresholdMs?: number;
+  /** Rules are evaluated by descending priority, first match wins. Default: 0 */
+  priority?: number;
+}
+
+const ROUTE_RULE_KEYS: ReadonlySet<string> = new Set([
+  'pattern',
+  'rate',
+  'slowThresholdMs',
+  'priority',
+]);
+
+/** Longest route pattern accepted from the runtime API */
+const MAX_RUNTIME_PATTERN_LENGTH = 256;
+
+/**
+ * Options for SamplingPolicy.validateConfig().
+ */
+export interface SamplingConfigValidationOptions {
+  /**
+   * Accept raw `^...` regex patterns. Only for operator-controlled config
+   * (env): a regex runs against every request route, so one from the
+   * runtime API could stall the event loop (ReDoS). Default: false
+   */
+  allowRegexPatterns?: boolean;
+}
+
+interface CompiledRouteRule {
+  rule: SamplingRouteRule;
+  pattern: RoutePattern;
 }
 
 /**
@@ -33,10 +118,26 @@ export enum SamplingReason {
 export interface SamplingPolicyConfig {
   /** Sampling rate for normal requests (0.0 to 1.0). Default: 0.01 (1%) */
   normalRate: number;
+  /** Sampling rate for 'important' hinted requests. Default: 0.1 (10%) */
+  importantRate: number;
+  /** Sampling rate for 'low' hinted requests. Default: 0.001 (0.1%) */
+  lowRate: number;
   /** Threshold in ms above which requests are always recorded. Default: 2000 */
   slowThresholdMs: number;
-  /** Routes that are always recorded regardless of sampling. */
+  /** Route patterns (glob or regex) that are always recorded regardless of sampling. */
   criticalRoutes: string[];
+  /** Route-level sampling rules, evaluated in priority order. */
+  routeRules: SamplingRouteRule[];
+  /** Replace normalRate with per-route rates that target an events/sec budget. Default: false */
+  adaptiveEnabled: boolean;
+  /** Adaptive mode: events/sec to persist, including always-recorded ones. Default: 50 */
+  targetEventsPerSecond: number;
+  /** Adaptive mode: measurement window in ms. Default: 10000 */
+  adaptiveWindowMs: number;
+  /** Derive sampling verdicts from a hash of the propagated trace id (or request id) instead of Math.random(). Default: false */
+  deterministic: boolean;
+  /** Follow the upstream sampled flag (`_metadata._upstreamSampled`, `_upstreamSampleRate`) for probabilistic rules. Default: true */
+  honorUpstreamSampled: boolean;
 }
 
 /**
@@ -44,8 +145,16 @@ export interface SamplingPolicyConfig {
  */
 export const DEFAULT_SAMPLING_CONFIG: SamplingPolicyConfig = {
   normalRate: 0.01,
+  importantRate: 0.1,
+  lowRate: 0.001,
   slowThresholdMs: 2000,
   criticalRoutes: [],
+  routeRules: [],
+  adaptiveEnabled: false,
+  targetEventsPerSecond: 50,
+  adaptiveWindowMs: 10000,
+  deterministic: false,
+  honorUpstreamSampled: true,
 };
 
 /**
@@ -53,17 +162,52 @@ export const DEFAULT_SAMPLING_CONFIG: SamplingPolicyConfig = {
  *
  * This class has no framework dependencies. Configuration is injected via constructor,
  * allowing the infrastructure layer to handle config loading.
+ *
+ * In adaptive mode the normal rate is replaced by per-route rates computed by
+ * AdaptiveSampler; the sampler's state is per instance, so a runtime config
+ * change starts a fresh measurement.
  */
 export class SamplingPolicy {
   private readonly normalRate: number;
+  private readonly importantRate: number;
+  private readonly lowRate: number;
   private readonly slowThresholdMs: number;
-  private readonly criticalRoutes: Set<string>;
+  private readonly criticalRoutes: RoutePattern[];
+  private readonly routeRules: CompiledRouteRule[];
+  private readonly targetEventsPerSecond: number;
+  private readonly adaptiveWindowMs: number;
+  private readonly deterministic: boolean;
+  private readonly honorUpstreamSampled: boolean;
+  /** Present only in adaptive mode */
+  private readonly adaptiveSampler: AdaptiveSampler | null;
 
   constructor(config: Partial<SamplingPolicyConfig> = {}) {
     const mergedConfig = { ...DEFAULT_SAMPLING_CONFIG, ...config };
     this.normalRate = mergedConfig.normalRate;
+    this.importantRate = mergedConfig.importantRate;
+    this.lowRate = mergedConfig.lowRate;
     this.slowThresholdMs = mergedConfig.slowThresholdMs;
-    this.criticalRoutes = new Set(mergedConfig.criticalRoutes);
+    this.criticalRoutes = mergedConfig.criticalRoutes.map((route) =>
+      RoutePattern.compile(route),
+    );
+    // Stable sort keeps declaration order among equal priorities
+    this.routeRules = mergedConfig.routeRules
+      .map((rule) => ({
+        rule: { ...rule },
+        pattern: RoutePattern.compile(rule.pattern),
+      }))
+      .sort((a, b) => (b.rule.priority ?? 0) - (a.rule.priority ?? 0));
+    this.targetEventsPerSecond = mergedConfig.targetEventsPerSecond;
+    this.adaptiveWindowMs = mergedConfig.adaptiveWindowMs;
+    this.deterministic = mergedConfig.deterministic;
+    this.honorUpstreamSampled = mergedConfig.honorUpstreamSampled;
+    this.adaptiveSampler = mergedConfig.adaptiveEnabled
+      ? new AdaptiveSampler({
+          targetEventsPerSecond: mergedConfig.targetEventsPerSecond,
+          windowMs: mergedConfig.adaptiveWindowMs,
+          initialRate: mergedConfig.normalRate,
+        })
+      : null;
   }
 
   /**
@@ -71,9 +215,18 @@ export class SamplingPolicy {
    * Use this in module configuration.
    */
   static fromEnv(env: Record<string, string | undefined>): SamplingPolicy {
-    const normalRate =
-      parseFloat(env.LOG_SAMPLING_NORMAL_RATE ?? '') ||
-      DEFAULT_SAMPLING_CONFIG.normalRate;
+    const normalRate = this.parseRate(
+      env.LOG_SAMPLING_NORMAL_RATE,
+      DEFAULT_SAMPLING_CONFIG.normalRate,
+    );
+    const importantRate = this.parseRate(
+      env.LOG_SAMPLING_IMPORTANT_RATE,
+      DEFAULT_SAMPLING_CONFIG.importantRate,
+    );
+    const lowRate = this.parseRate(
+      env.LOG_SAMPLING_LOW_RATE,
+      DEFAULT_SAMPLING_CONFIG.lowRate,
+    );
     const slowThresholdMs =
       parseInt(env.LOG_SLOW_THRESHOLD_MS ?? '', 10) ||
       DEFAULT_SAMPLING_CONFIG.slowThresholdMs;
@@ -82,59 +235,446 @@ export class SamplingPolicy {
       .split(',')
       .map((r) => r.trim())
       .filter((r) => r.length > 0);
+    const routeRules = this.parseRouteRules(env.LOG_ROUTE_RULES);
+    const targetEventsPerSecond =
+      parseFloat(env.LOG_SAMPLING_TARGET_EPS ?? '') ||
+      DEFAULT_SAMPLING_CONFIG.targetEventsPerSecond;
+    const adaptiveWindowMs =
+      parseInt(env.LOG_SAMPLING_ADAPTIVE_WINDOW_MS ?? '', 10) ||
+      DEFAULT_SAMPLING_CONFIG.adaptiveWindowMs;
 
-    return new SamplingPolicy({ normalRate, slowThresholdMs, criticalRoutes });
+    return new SamplingPolicy({
+      normalRate,
+      importantRate,
+      lowRate,
+      slowThresholdMs,
+      criticalRoutes,
+      routeRules,
+      adaptiveEnabled: env.LOG_SAMPLING_ADAPTIVE_ENABLED === 'true',
+      targetEventsPerSecond,
+      adaptiveWindowMs,
+      deterministic: env.LOG_SAMPLING_DETERMINISTIC === 'true',
+      honorUpstreamSampled: env.LOG_SAMPLING_HONOR_UPSTREAM !== 'false',
+    });
+  }
+
+  /**
+   * Parse LOG_ROUTE_RULES (JSON array of SamplingRouteRule).
+   * Invalid rules fail fast at startup instead of being silently ignored.
+   */
+  private static parseRouteRules(
+    value: string | undefined,
+  ): SamplingRouteRule[] {
+    if (!value || value.trim().length === 0) return [];
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch (error) {
+      throw new Error(`Invalid LOG_ROUTE_RULES: ${error.message}`);
+    }
+
+    const errors = this.validateConfig(
+      { routeRules: parsed as SamplingRouteRule[] },
+      { allowRegexPatterns: true },
+    );
+    if (errors.length > 0) {
+      throw new Error(`Invalid LOG_ROUTE_RULES: ${errors.join('; ')}`);
+    }
+    return parsed as SamplingRouteRule[];
+  }
+
+  /**
+   * Validate a (partial) configuration before it is applied at runtime.
+   * Returns a list of human-readable errors; empty when valid.
+   * Raw regex patterns are rejected unless `allowRegexPatterns` is set.
+   */
+  static validateConfig(
+    config: Partial<SamplingPolicyConfig>,
+    options: SamplingConfigValidationOptions = {},
+  ): string[] {
+    if (typeof config !== 'object' || config === null) {
+      return ['config must be an object'];
+    }
+
+    const errors: string[] = [];
+    const knownKeys = Object.keys(DEFAULT_SAMPLING_CONFIG);
+
+    for (const key of Object.keys(config)) {
+      if (!knownKeys.includes(key)) {
+        errors.push(`Unknown field: ${key}`);
+      }
+    }
+
+    for (const key of ['normalRate', 'importantRate', 'lowRate'] as const) {
+      const value = config[key];
+      if (
+        value !== undefined &&
+        (typeof value !== 'number' || !(value >= 0 && value <= 1))
+      ) {
+        errors.push(`${key} must be a number between 0 and 1`);
+      }
+    }
+
+    if (
+      config.slowThresholdMs !== undefined &&
+      (!Number.isInteger(config.slowThresholdMs) || config.slowThresholdMs <= 0)
+    ) {
+      errors.push('slowThresholdMs must be a positive integer');
+    }
+
+    if (
+      config.criticalRoutes !== undefined &&
+      (!Array.isArray(config.criticalRoutes) ||
+        config.criticalRoutes.some(
+          (route) => typeof route !== 'string' || route.trim().length === 0,
+        ))
+    ) {
+      errors.push('criticalRoutes must be an array of non-empty strings');
+    } else if (config.criticalRoutes !== undefined) {
+      for (const route of config.criticalRoutes) {
+        const patternError = this.validatePattern(route, options);
+        if (patternError) errors.push(`criticalRoutes: ${patternError}`);
+      }
+    }
+
+    for (const key of [
+      'adaptiveEnabled',
+      'deterministic',
+      'honorUpstreamSampled',
+    ] as const) {
+      if (config[key] !== undefined && typeof config[key] !== 'boolean') {
+        errors.push(`${key} must be a boolean`);
+      }
+    }
+
+    if (
+      config.targetEventsPerSecond !== undefined &&
+      (typeof config.targetEventsPerSecond !== 'number' ||
+        !(config.targetEventsPerSecond > 0))
+    ) {
+      errors.push('targetEventsPerSecond must be a positive number');
+    }
+
+    if (
+      config.adaptiveWindowMs !== undefined &&
+      (!Number.isInteger(config.adaptiveWindowMs) ||
+        config.adaptiveWindowMs < 1000)
+    ) {
+      errors.push('adaptiveWindowMs must be an integer of at least 1000');
+    }
+
+    if (config.routeRules !== undefined) {
+      if (!Array.isArray(config.routeRules)) {
+        errors.push('routeRules must be an array');
+      } else {
+        config.routeRules.forEach((rule, index) => {
+          errors.push(
+            ...this.validateRouteRule(rule, options).map(
+              (error) => `routeRules[${index}]: ${error}`,
+            ),
+          );
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  private static validateRouteRule(
+    rule: SamplingRouteRule,
+    options: SamplingConfigValidationOptions,
+  ): string[] {
+    if (typeof rule !== 'object' || rule === null) {
+      return ['rule must be an object'];
+    }
+
+    const errors: string[] = [];
+    for (const key of Object.keys(rule)) {
+      if (!ROUTE_RULE_KEYS.has(key)) {
+        errors.push(`Unknown field: ${key}`);
+      }
+    }
+
+    if (typeof rule.pattern !== 'string') {
+      errors.push('pattern must be a string');
+    } else {
+      const patternError = this.validatePattern(rule.pattern, options);
+      if (patternError) errors.push(patternError);
+    }
+
+    if (
+      rule.rate !== undefined &&
+      (typeof rule.rate !== 'number' || !(rule.rate >= 0 && rule.rate <= 1))
+    ) {
+      errors.push('rate must be a number between 0 and 1');
+    }
+    if (
+      rule.slowThresholdMs !== undefined &&
+      (!Number.isInteger(rule.slowThresholdMs) || rule.slowThresholdMs <= 0)
+    ) {
+      errors.push('slowThresholdMs must be a positive integer');
+    }
+    if (rule.priority !== undefined && !Number.isFinite(rule.priority)) {
+      errors.push('priority must be a finite number');
+    }
+
+    return errors;
+  }
+
+  private static validatePattern(
+    pattern: string,
+    options: SamplingConfigValidationOptions,
+  ): string | null {
+    if (!options.allowRegexPatterns) {
+      if (pattern.trim().startsWith('^')) {
+        return `invalid pattern "${pattern.slice(0, 50)}": regex patterns are only accepted from LOG_ROUTE_RULES, use a glob`;
+      }
+      if (pattern.length > MAX_RUNTIME_PATTERN_LENGTH) {
+        return `invalid pattern "${pattern.slice(0, 50)}...": longer than ${MAX_RUNTIME_PATTERN_LENGTH} characters`;
+      }
+    }
+
+    try {
+      RoutePattern.compile(pattern);
+      return null;
+    } catch (error) {
+      return `invalid pattern "${pattern}": ${error.message}`;
+    }
+  }
+
+  /**
+   * Parse a rate from env. Unlike `parseFloat(...) || default`,
+   * an explicit 0 is respected (e.g. LOG_SAMPLING_LOW_RATE=0).
+   */
+  private static parseRate(
+    value: string | undefined,
+    fallback: number,
+  ): number {
+    const parsed = parseFloat(value ?? '');
+    if (Number.isNaN(parsed)) return fallback;
+    return Math.min(Math.max(parsed, 0), 1);
   }
 
   /**
    * Determine whether the given context should be persisted.
    */
-  shouldRecord(context: LoggingContext): SamplingDecision {
+  shouldRecord(context: LoggingContext, now = Date.now()): SamplingDecision {
+    const decision = this.evaluate(context, now);
+
+    // Adaptive mode: everything recorded outside the adaptive rate
+    // consumes the events/sec budget
+    if (
+      this.adaptiveSampler &&
+      decision.shouldRecord &&
+      decision.reason !== SamplingReason.SAMPLED_ADAPTIVE
+    ) {
+      this.adaptiveSampler.recordFixed(now);
+    }
+
+    return decision;
+  }
+
+  private evaluate(context: LoggingContext, now: number): SamplingDecision {
+    const routeRule = this.findRouteRule(context.route);
+    const slowThresholdMs = routeRule?.slowThresholdMs ?? this.slowThresholdMs;
+
     // Rule 1: Always record errors
     if (context.error) {
-      return { shouldRecord: true, reason: SamplingReason.HAS_ERROR };
+      return this.always(SamplingReason.HAS_ERROR);
     }
 
     // Rule 2: Always record slow requests
     if (
       context.performance?.durationMs &&
-      context.performance.durationMs > this.slowThresholdMs
+      context.performance.durationMs > slowThresholdMs
     ) {
-      return { shouldRecord: true, reason: SamplingReason.SLOW_REQUEST };
+      return this.always(SamplingReason.SLOW_REQUEST);
     }
 
     // Rule 3: Always record critical routes
-    if (this.criticalRoutes.has(context.route)) {
-      return { shouldRecord: true, reason: SamplingReason.CRITICAL_ROUTE };
+    if (this.criticalRoutes.some((pattern) => pattern.matches(context.route))) {
+      return this.always(SamplingReason.CRITICAL_ROUTE);
+    }
+
+    const hint = this.getSamplingHint(context);
+
+    // Rule 4: Always record handlers hinted as critical
+    if (hint === 'critical') {
+      return this.always(SamplingReason.CRITICAL_HINT);
+    }
+
+    // Rule 5: Probabilistic sampling at the rate of the matching route rule
+    if (routeRule?.rate !== undefined) {
+      return this.sample(
+        context,
+        routeRule.rate,
+        SamplingReason.SAMPLED_ROUTE_RULE,
+      );
+    }
+
+    // Rule 6: Probabilistic sampling at the rate of the hinted level
+    if (hint === 'important') {
+      return this.sample(
+        context,
+        this.importantRate,
+        SamplingReason.SAMPLED_IMPORTANT,
+      );
     }
 
-    // Rule 4: Probabilistic sampling for normal requests
-    if (this.isSampled(this.normalRate)) {
-      return { shouldRecord: true, reason: SamplingReason.SAMPLED_NORMAL };
+    if (hint === 'low') {
+      return this.sample(context, this.lowRate, SamplingReason.SAMPLED_LOW);
     }
 
-    return { shouldRecord: false, reason: SamplingReason.NOT_SAMPLED };
+    // Rule 7: Probabilistic sampling for normal requests
+    // (per-route budgeted rate in adaptive mode)
+    if (this.adaptiveSampler) {
+      return this.sample(
+        context,
+        this.adaptiveSampler.observe(context.route, now),
+        SamplingReason.SAMPLED_ADAPTIVE,
+      );
+    }
+
+    return this.sample(context, this.normalRate, SamplingReason.SAMPLED_NORMAL);
+  }
+
+  private always(reason: SamplingReason): SamplingDecision {
+    return { shouldRecord: true, reason, sampleRate: 1 };
+  }
+
+  /**
+   * Probabilistic verdict for `rate`. An upstream sampled flag, when
+   * honored, takes precedence so that a flow is recorded in every service
+   * or in none. The event then carries the upstream rate, the probability
+   * it was actually kept with; without one its rate is marked unknown.
+   */
+  private sample(
+    context: LoggingContext,
+    rate: number,
+    reason: SamplingReason,
+  ): SamplingDecision {
+    const upstreamSampled = context._metadata?._upstreamSampled;
+    if (this.honorUpstreamSampled && typeof upstreamSampled === 'boolean') {
+      const upstreamRate = context._metadata?._upstreamSampleRate;
+      const upstream =
+        typeof upstreamRate === 'number' &&
+        upstreamRate > 0 &&
+        upstreamRate <= 1
+          ? { sampleRate: upstreamRate }
+          : { sampleRate: 1, sampleRateUnknown: true };
+      return upstreamSampled
+        ? {
+            shouldRecord: true,
+            reason: SamplingReason.UPSTREAM_SAMPLED,
+            ...upstream,
+          }
+        : {
+            shouldRecord: false,
+            reason: SamplingReason.NOT_SAMPLED,
+            ...upstream,
+          };
+    }
+
+    return this.isSampled(rate, SamplingPolicy.samplingKey(context))
+      ? { shouldRecord: true, reason, sampleRate: rate }
+      : {
+          shouldRecord: false,
+          reason: SamplingReason.NOT_SAMPLED,
+          sampleRate: rate,
+        };
+  }
+
+  /**
+   * First matching route rule in priority order.
+   */
+  private findRouteRule(route: string): SamplingRouteRule | null {
+    for (const { rule, pattern } of this.routeRules) {
+      if (pattern.matches(route)) return rule;
+    }
+    return null;
+  }
+
+  /**
+   * Read the @LogSamplingHint level stored by the interceptor.
+   * Unknown values are ignored (treated as 'normal').
+   */
+  private getSamplingHint(context: LoggingContext): SamplingHintLevel | null {
+    const hint = context._metadata?._samplingHint;
+    if (typeof hint === 'string' && SAMPLING_HINT_LEVELS.has(hint)) {
+      return hint as SamplingHintLevel;
+    }
+    return null;
+  }
+
+  /**
+   * Key hashed by deterministic mode. A trace id only identifies the flow
+   * when it came in with a `traceparent` (the context then has a parent
+   * span); one generated locally differs per service, so the propagated
+   * request id is used instead.
+   */
+  private static samplingKey(context: LoggingContext): string {
+    return context.parentSpanId && context.traceId
+      ? context.traceId
+      : context.requestId;
   }
 
   /**
    * Probabilistic sampling based on configured rate.
+   * Deterministic mode hashes the sampling key instead of using
+   * Math.random(), so all services of a flow agree.
    */
-  private isSampled(rate: number): boolean {
+  private isSampled(rate: number, key: string): boolean {
     if (rate >= 1) return true;
     if (rate <= 0) return false;
 
+    if (this.deterministic) {
+      return SamplingPolicy.hashToUnit(key) < rate;
+    }
+
     const probability = Math.random() * 100;
     return probability <= rate * 100;
   }
 
+  /**
+   * Map a key to [0, 1) with 32-bit FNV-1a.
+   *
+   * Every service that sees the same key reaches the same verdict for the
+   * same rate, and a key kept at rate r is also kept at any rate above r,
+   * so services with different rates still record nested subsets of flows.
+   */
+  static hashToUnit(key: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+      hash ^= key.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0) / 0x100000000;
+  }
+
   /**
    * Get current sampling configuration for monitoring/debugging.
    */
   getConfig(): SamplingPolicyConfig {
     return {
       normalRate: this.normalRate,
+      importantRate: this.importantRate,
+      lowRate: this.lowRate,
       slowThresholdMs: this.slowThresholdMs,
-      criticalRoutes: Array.from(this.criticalRoutes),
+      criticalRoutes: this.criticalRoutes.map((pattern) => pattern.source),
+      routeRules: this.routeRules.map(({ rule }) => ({ ...rule })),
+      adaptiveEnabled: this.adaptiveSampler !== null,
+      targetEventsPerSecond: this.targetEventsPerSecond,
+      adaptiveWindowMs: this.adaptiveWindowMs,
+      deterministic: this.deterministic,
+      honorUpstreamSampled: this.honorUpstreamSampled,
     };
   }
+
+  /**
+   * Adaptive sampling statistics (null when adaptive mode is disabled).
+   */
+  getAdaptiveStats(): AdaptiveSamplingStats | null {
+    return this.adaptiveSampler ? this.adaptiveSampler.getStats() : null;
+  }
 }
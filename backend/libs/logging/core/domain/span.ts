@@ -0,0 +1,79 @@
+import { TraceContext } from './trace-context';
+
+/**
+ * SpanStatus - Outcome of a span. UNSET until the span is ended.
+ */
+export type SpanStatus = 'UNSET' | 'OK' | 'ERROR';
+
+/**
+ * Options for starting a span.
+ */
+export interface StartSpanOptions {
+  /** Service the step belongs to (defaults to the request's service) */
+  service?: string;
+  /** Extra key-value pairs recorded with the span */
+  attributes?: Record<string, unknown>;
+  /** Parent span (defaults to the active span, else the request span) */
+  parent?: Span;
+}
+
+/**
+ * Options for ending a span.
+ */
+export interface EndSpanOptions {
+  /** Marks the span as failed */
+  error?: { code: string; message: string };
+  /** Extra key-value pairs merged into the span's attributes */
+  attributes?: Record<string, unknown>;
+}
+
+/**
+ * Span - A timed step within a request (e.g. a downstream call).
+ *
+ * Spans are recorded inside the request's wide event rather than emitted
+ * separately, so each step's latency, service and error stay queryable
+ * together with the request.
+ */
+export class Span {
+  public readonly spanId: string;
+  public readonly startTime: string;
+  public durationMs?: number;
+  public status: SpanStatus = 'UNSET';
+  public error?: { code: string; message: string };
+  public attributes?: Record<string, unknown>;
+
+  private readonly startedAt: number;
+
+  constructor(
+    public readonly name: string,
+    public readonly service: string,
+    public readonly parentSpanId?: string,
+    attributes?: Record<string, unknown>,
+    now = Date.now(),
+  ) {
+    this.spanId = TraceContext.generateSpanId();
+    this.startedAt = now;
+    this.startTime = new Date(now).toISOString();
+    this.attributes = attributes;
+  }
+
+  get ended(): boolean {
+    return this.durationMs !== undefined;
+  }
+
+  /**
+   * End the span. Subsequent calls are ignored.
+   */
+  end(options: EndSpanOptions = {}, now = Date.now()): void {
+    if (this.ended) return;
+
+    this.durationMs = now - this.startedAt;
+    this.status = options.error ? 'ERROR' : 'OK';
+    if (options.error) {
+      this.error = options.error;
+    }
+    if (options.attributes) {
+      this.attributes = { ...this.attributes, ...options.attributes };
+    }
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * TailSamplingConfig - Configuration for TailSamplingBuffer.
+ */
+export interface TailSamplingConfig {
+  /** Whether unsampled events are held at all. Default: false */
+  enabled: boolean;
+  /** How long an unsampled event stays eligible for promotion. Default: 60000 */
+  windowMs: number;
+  /** Upper bound of held events across all groups. Default: 5000 */
+  maxEvents: number;
+  /** Upper bound of held events per group (user / correlation id). Default: 50 */
+  maxEventsPerGroup: number;
+}
+
+/**
+ * Default configuration values for TailSamplingBuffer.
+ */
+export const DEFAULT_TAIL_SAMPLING_CONFIG: TailSamplingConfig = {
+  enabled: false,
+  windowMs: 60000,
+  maxEvents: 5000,
+  maxEventsPerGroup: 50,
+};
+
+/**
+ * Statistics for the tail-sampling buffer.
+ */
+export interface TailSamplingStats {
+  enabled: boolean;
+  /** Events currently held */
+  heldEvents: number;
+  /** Groups currently held */
+  groups: number;
+  /** Events released for persistence because of a related error/slow request */
+  promotedCount: number;
+  /** Events discarded because their window elapsed */
+  expiredCount: number;
+  /** Events discarded because a capacity bound was reached */
+  evictedCount: number;
+}
+
+interface HeldEntry<T> {
+  item: T;
+  heldAt: number;
+}
+
+/**
+ * TailSamplingBuffer - Holds unsampled events so that they can be promoted
+ * when a related request (same user or correlation id) turns out to be
+ * interesting.
+ *
+ * Head sampling decides per request in isolation. When one request of a
+ * session fails, the successful requests that led up to it are usually the
+ * context we need. This buffer keeps those for a short window instead of
+ * discarding them immediately.
+ *
+ * Memory is bounded by `maxEvents` and `maxEventsPerGroup`; the oldest
+ * entries are evicted first. Groups are kept in least-recently-touched
+ * order (Map insertion order), which keeps eviction O(1).
+ *
+ * Pure domain object (no framework dependencies), like SamplingPolicy.
+ */
+export class TailSamplingBuffer<T> {
+  private readonly config: TailSamplingConfig;
+  private readonly groups = new Map<string, HeldEntry<T>[]>();
+  private heldCount = 0;
+  private promotedCount = 0;
+  private expiredCount = 0;
+  private evictedCount = 0;
+
+  constructor(config: Partial<TailSamplingConfig> = {}) {
+    this.config = { ...DEFAULT_TAIL_SAMPLING_CONFIG, ...config };
+  }
+
+  /**
+   * Factory method to create TailSamplingBuffer from environment variables.
+   */
+  static fromEnv<T>(
+    env: Record<string, string | undefined>,
+  ): TailSamplingBuffer<T> {
+    return new TailSamplingBuffer<T>({
+      enabled: env.LOG_TAIL_SAMPLING_ENABLED === 'true',
+      windowMs:
+        parseInt(env.LOG_TAIL_SAMPLING_WINDOW_MS ?? '', 10) ||
+        DEFAULT_TAIL_SAMPLING_CONFIG.windowMs,
+      maxEvents:
+        parseInt(env.LOG_TAIL_SAMPLING_MAX_EVENTS ?? '', 10) ||
+        DEFAULT_TAIL_SAMPLING_CONFIG.maxEvents,
+      maxEventsPerGroup:
+        parseInt(env.LOG_TAIL_SAMPLING_MAX_PER_GROUP ?? '', 10) ||
+        DEFAULT_TAIL_SAMPLING_CONFIG.maxEventsPerGroup,
+    });
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Hold an unsampled item for the given group.
+   */
+  hold(groupKey: string, item: T, now = Date.now()): void {
+    if (!this.config.enabled) return;
+
+    this.evictExpired(now);
+
+    // Re-insert the group to mark it as most recently touched
+    const entries = this.groups.get(groupKey) ?? [];
+    this.groups.delete(groupKey);
+    this.groups.set(groupKey, entries);
+
+    entries.push({ item, heldAt: now });
+    this.heldCount++;
+
+    if (entries.length > this.config.maxEventsPerGroup) {
+      entries.shift();
+      this.heldCount--;
+      this.evictedCount++;
+    }
+
+    while (this.heldCount > this.config.maxEvents) {
+      this.evictOldest();
+    }
+  }
+
+  /**
+   * Release every held item of the group that is still within the window.
+   * The group is removed from the buffer.
+   */
+  release(groupKey: string, now = Date.now()): T[] {
+    const entries = this.groups.get(groupKey);
+    if (!entries) return [];
+
+    this.groups.delete(groupKey);
+    this.heldCount -= entries.length;
+
+    const cutoff = now - this.config.windowMs;
+    const fresh = entries.filter((entry) => entry.heldAt >= cutoff);
+    this.expiredCount += entries.length - fresh.length;
+    this.promotedCount += fresh.length;
+
+    return fresh.map((entry) => entry.item);
+  }
+
+  /**
+   * Get buffer statistics for monitoring.
+   */
+  getStats(): TailSamplingStats {
+    return {
+      enabled: this.config.enabled,
+      heldEvents: this.heldCount,
+      groups: this.groups.size,
+      promotedCount: this.promotedCount,
+      expiredCount: this.expiredCount,
+      evictedCount: this.evictedCount,
+    };
+  }
+
+  /**
+   * Drop expired entries, starting from the least recently touched group.
+   * Stops at the first group whose newest entry is still fresh.
+   */
+  private evictExpired(now: number): void {
+    const cutoff = now - this.config.windowMs;
+
+    for (const [groupKey, entries] of this.groups) {
+      while (entries.length > 0 && entries[0].heldAt < cutoff) {
+        entries.shift();
+        this.heldCount--;
+        this.expiredCount++;
+      }
+
+      if (entries.length > 0) {
+        break;
+      }
+      this.groups.delete(groupKey);
+    }
+  }
+
+  /**
+   * Drop the oldest entry of the least recently touched group.
+   */
+  private evictOldest(): void {
+    for (const [groupKey, entries] of this.groups) {
+      entries.shift();
+      this.heldCount--;
+      this.evictedCount++;
+
+      if (entries.length === 0) {
+        this.groups.delete(groupKey);
+      }
+      return;
+    }
+  }
+}
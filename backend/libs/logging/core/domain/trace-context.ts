@@ -0,0 +1,106 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Parsed W3C `traceparent` header.
+ */
+export interface TraceParent {
+  traceId: string;
+  /** Span id of the caller (becomes our parentSpanId) */
+  parentSpanId: string;
+  /** trace-flags byte, e.g. 0x01 = sampled */
+  flags: number;
+}
+
+const TRACEPARENT_PATTERN =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(?:-.*)?$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+/** W3C limits for tracestate */
+const MAX_TRACESTATE_MEMBERS = 32;
+const MAX_TRACESTATE_LENGTH = 512;
+
+/** trace-flags used for traces started here */
+export const TRACE_FLAG_SAMPLED = 0x01;
+
+/**
+ * TraceContext - W3C Trace Context (traceparent / tracestate) helpers.
+ *
+ * Lets wide events be joined with spans emitted by other services.
+ * See https://www.w3.org/TR/trace-context/
+ *
+ * @example
+ * TraceContext.parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')
+ * // { traceId: '4bf9...4736', parentSpanId: '00f0...02b7', flags: 1 }
+ */
+export class TraceContext {
+  /**
+   * Parse a traceparent header. Returns null when absent or invalid,
+   * in which case a new trace should be started.
+   */
+  static parseTraceparent(
+    header: string | null | undefined,
+  ): TraceParent | null {
+    if (!header) return null;
+
+    const match = TRACEPARENT_PATTERN.exec(header.trim().toLowerCase());
+    if (!match) return null;
+
+    const [, version, traceId, parentSpanId, flags] = match;
+
+    // Version ff is forbidden; version 00 must not carry extra fields
+    if (version === 'ff') return null;
+    if (version === '00' && header.trim().length !== 55) return null;
+    if (traceId === INVALID_TRACE_ID || parentSpanId === INVALID_SPAN_ID) {
+      return null;
+    }
+
+    return { traceId, parentSpanId, flags: parseInt(flags, 16) };
+  }
+
+  /**
+   * Format a version 00 traceparent header.
+   */
+  static formatTraceparent(
+    traceId: string,
+    spanId: string,
+    flags: number = TRACE_FLAG_SAMPLED,
+  ): string {
+    return `00-${traceId}-${spanId}-${flags.toString(16).padStart(2, '0')}`;
+  }
+
+  /**
+   * Normalize a tracestate header. Returns null when empty or invalid;
+   * list-members beyond the W3C limits are dropped from the end.
+   */
+  static parseTracestate(header: string | null | undefined): string | null {
+    if (!header) return null;
+
+    const members = header
+      .split(',')
+      .map((member) => member.trim())
+      .filter((member) => member.length > 0);
+    if (members.some((member) => !member.includes('='))) return null;
+
+    const kept: string[] = [];
+    let length = 0;
+    for (const member of members.slice(0, MAX_TRACESTATE_MEMBERS)) {
+      const nextLength = length + member.length + (kept.length > 0 ? 1 : 0);
+      if (nextLength > MAX_TRACESTATE_LENGTH) break;
+      kept.push(member);
+      length = nextLength;
+    }
+
+    return kept.length > 0 ? kept.join(',') : null;
+  }
+
+  /** 16 random bytes as lowercase hex */
+  static generateTraceId(): string {
+    return randomBytes(16).toString('hex');
+  }
+
+  /** 8 random bytes as lowercase hex */
+  static generateSpanId(): string {
+    return randomBytes(8).toString('hex');
+  }
+}
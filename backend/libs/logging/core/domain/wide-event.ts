@@ -65,6 +65,91 @@ export class WideEventPerformance {
   }
 }
 
+/**
+ * Plain span shape accepted by WideEventSpan.fromPlain (Span or stored document).
+ */
+export interface WideEventSpanData {
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  service: string;
+  startTime: string | Date;
+  durationMs?: number;
+  status: string;
+  error?: { code: string; message: string };
+  attributes?: Record<string, unknown>;
+}
+
+/**
+ * WideEventSpan - A timed step recorded within the request (see Span).
+ */
+export class WideEventSpan {
+  @IsString()
+  @IsNotEmpty()
+  spanId: string;
+
+  @IsOptional()
+  @IsString()
+  parentSpanId?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsNotEmpty()
+  service: string;
+
+  @IsString()
+  startTime: string;
+
+  @IsOptional()
+  @IsNumber()
+  durationMs?: number;
+
+  @IsString()
+  status: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => WideEventError)
+  error?: WideEventError;
+
+  @IsOptional()
+  attributes?: Record<string, unknown>;
+
+  /**
+   * Create WideEventSpan from a Span or a stored document.
+   */
+  static fromPlain(span: WideEventSpanData): WideEventSpan {
+    const result = new WideEventSpan();
+    result.spanId = span.spanId;
+    if (span.parentSpanId) result.parentSpanId = span.parentSpanId;
+    result.name = span.name;
+    result.service = span.service;
+    result.startTime =
+      span.startTime instanceof Date
+        ? span.startTime.toISOString()
+        : span.startTime;
+    if (span.durationMs !== undefined) result.durationMs = span.durationMs;
+    result.status = span.status;
+    if (span.error) {
+      result.error = new WideEventError(span.error.code, span.error.message);
+    }
+    if (span.attributes) result.attributes = span.attributes;
+    return result;
+  }
+}
+
+/**
+ * W3C trace identifiers of the request (see TraceContext).
+ */
+export interface WideEventTrace {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+}
+
 /**
  * WideEvent - The single unit of truth for logging across all phases.
  *
@@ -104,6 +189,23 @@ export class WideEvent {
   @Type(() => WideEventPerformance)
   public readonly performance?: WideEventPerformance;
 
+  @IsOptional()
+  @IsString()
+  public readonly traceId?: string;
+
+  @IsOptional()
+  @IsString()
+  public readonly spanId?: string;
+
+  @IsOptional()
+  @IsString()
+  public readonly parentSpanId?: string;
+
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => WideEventSpan)
+  public readonly spans?: WideEventSpan[];
+
   constructor(
     requestId: string,
     timestamp: string,
@@ -112,6 +214,8 @@ export class WideEvent {
     user?: WideEventUser,
     error?: WideEventError,
     performance?: WideEventPerformance,
+    trace?: WideEventTrace,
+    spans?: WideEventSpan[],
   ) {
     this.requestId = requestId;
     this.timestamp = timestamp;
@@ -120,6 +224,14 @@ export class WideEvent {
     this.user = user;
     this.error = error;
     this.performance = performance;
+    if (trace) {
+      this.traceId = trace.traceId;
+      this.spanId = trace.spanId;
+      if (trace.parentSpanId) this.parentSpanId = trace.parentSpanId;
+    }
+    if (spans && spans.length > 0) {
+      this.spans = spans;
+    }
   }
 
   /**
@@ -139,6 +251,14 @@ export class WideEvent {
       context.performance
         ? new WideEventPerformance(context.performance.durationMs)
         : undefined,
+      context.traceId && context.spanId
+        ? {
+            traceId: context.traceId,
+            spanId: context.spanId,
+            parentSpanId: context.parentSpanId,
+          }
+        : undefined,
+      context.spans?.map((span) => WideEventSpan.fromPlain(span)),
     );
   }
 
@@ -154,6 +274,10 @@ export class WideEvent {
     user?: { id: string; role: string };
     error?: { code: string; message: string };
     performance?: { durationMs: number };
+    traceId?: string;
+    spanId?: string;
+    parentSpanId?: string;
+    spans?: WideEventSpanData[];
   }): WideEvent {
     const timestamp =
       doc.timestamp instanceof Date
@@ -172,6 +296,14 @@ export class WideEvent {
       doc.performance
         ? new WideEventPerformance(doc.performance.durationMs)
         : undefined,
+      doc.traceId && doc.spanId
+        ? {
+            traceId: doc.traceId,
+            spanId: doc.spanId,
+            parentSpanId: doc.parentSpanId ?? undefined,
+          }
+        : undefined,
+      doc.spans?.map((span) => WideEventSpan.fromPlain(span)),
     );
   }
 
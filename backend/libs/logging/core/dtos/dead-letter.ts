@@ -0,0 +1,51 @@
+/**
+ * Message written to the dead-letter topic when a log event could not be
+ * consumed. Carries the original payload unchanged so it can be re-driven.
+ */
+export interface DeadLetterMessage {
+  /** Original message value (raw string, may be invalid JSON) */
+  originalPayload: string;
+  /** Original message key */
+  originalKey: string | null;
+  /** Why the message was dead-lettered */
+  reason: string;
+  /** Persist attempts made before giving up (1 for parse failures) */
+  attempts: number;
+  /** How many times this payload has already been re-driven */
+  redriveCount: number;
+  sourceTopic: string;
+  sourcePartition: number;
+  sourceOffset: string;
+  requestId?: string;
+  failedAt: string;
+}
+
+/**
+ * A message read from the dead-letter topic.
+ */
+export interface DeadLetterEntry {
+  partition: number;
+  offset: string;
+  /** null when the dead-letter message itself could not be parsed */
+  message: DeadLetterMessage | null;
+}
+
+/**
+ * Pending (not yet re-driven) dead-letter messages.
+ */
+export interface DeadLetterListResult {
+  topic: string;
+  /** Total pending messages across partitions */
+  pending: number;
+  entries: DeadLetterEntry[];
+}
+
+export interface DeadLetterRedriveResult {
+  success: boolean;
+  /** Messages published back to their source topic */
+  redriven: number;
+  /** Unreadable dead-letter messages skipped past */
+  skipped: number;
+  errorCode?: 'UNAVAILABLE' | 'REDRIVE_FAILED';
+  error?: string;
+}
@@ -0,0 +1,2 @@
+export * from './sampling-config';
+export * from './dead-letter';
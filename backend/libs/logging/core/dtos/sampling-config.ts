@@ -0,0 +1,45 @@
+import { SamplingPolicyConfig } from '@logging/domain';
+
+/**
+ * Request body for `PUT /logging/sampling`.
+ */
+export abstract class SamplingConfigUpdateRequest {
+  /** Fields to change; omitted fields keep their current value */
+  config: Partial<SamplingPolicyConfig>;
+  /** Revert to the baseline (env) configuration after this many seconds */
+  ttlSeconds?: number;
+  /** Reject the update if the current version differs (optimistic locking) */
+  expectedVersion?: number;
+  /** Who made the change (recorded in the audit event) */
+  changedBy?: string;
+  /** Why the change was made (recorded in the audit event) */
+  reason?: string;
+}
+
+/**
+ * Current state of the runtime sampling configuration.
+ */
+export interface SamplingConfigState {
+  /** Incremented on every change, including reverts */
+  version: number;
+  /** Active configuration */
+  config: SamplingPolicyConfig;
+  /** Configuration loaded from env at startup */
+  baseline: SamplingPolicyConfig;
+  /** Whether the active configuration differs from the baseline */
+  overridden: boolean;
+  updatedAt: string;
+  updatedBy: string | null;
+  /** When the override reverts automatically (null if it does not) */
+  expiresAt: string | null;
+}
+
+/**
+ * Result of a sampling configuration change.
+ */
+export abstract class SamplingConfigUpdateResult {
+  success: boolean;
+  state?: SamplingConfigState;
+  errorCode?: 'INVALID_CONFIG' | 'VERSION_CONFLICT';
+  errors?: string[];
+}
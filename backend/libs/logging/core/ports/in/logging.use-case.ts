@@ -1,4 +1,9 @@
-import { LoggingContext } from '@logging/domain';
+import {
+  LoggingContext,
+  Span,
+  StartSpanOptions,
+  EndSpanOptions,
+} from '@logging/domain';
 
 /**
  * LoggingUseCase - Inbound port (use case) for logging operations.
@@ -10,6 +15,7 @@ import { LoggingContext } from '@logging/domain';
  * - Context management (initialize, add user/error/performance/metadata)
  * - Wide Event finalization and persistence
  * - Service boundary tracking
+ * - Child spans for timed steps within a request
  *
  * This port allows the application layer to depend on an abstraction,
  * making it easier to test and swap implementations.
@@ -67,6 +73,36 @@ export abstract class LoggingUseCase {
    */
   abstract setService(service: string): void;
 
+  /**
+   * Start a timed child span (e.g. a downstream call) within the current request.
+   * The span is recorded in the wide event once ended.
+   *
+   * @param name Step name (e.g. 'callGateway')
+   * @param options.service Service the step belongs to (defaults to the request's service)
+   * @param options.attributes Extra key-value pairs recorded with the span
+   * @param options.parent Parent span (defaults to the active span, see withSpan())
+   * @returns Span handle to pass to endSpan()
+   */
+  abstract startSpan(name: string, options?: StartSpanOptions): Span;
+
+  /**
+   * Run a function with `span` as the active span, so spans started within
+   * it become its children. The span still has to be ended with endSpan();
+   * spans left open are ended as failed when the request is finalized.
+   *
+   * @param span Span handle returned by startSpan()
+   * @param fn Function to run
+   */
+  abstract withSpan<T>(span: Span, fn: () => T): T;
+
+  /**
+   * End a span started with startSpan().
+   *
+   * @param span Span handle returned by startSpan()
+   * @param options.error Marks the span as failed
+   */
+  abstract endSpan(span: Span, options?: EndSpanOptions): void;
+
   /**
    * Finalize and flush the current request's Wide Event.
    * This should be called once per request, even on error or early return.
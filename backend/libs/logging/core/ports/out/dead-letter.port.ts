@@ -0,0 +1,35 @@
+import {
+  DeadLetterMessage,
+  DeadLetterEntry,
+  DeadLetterListResult,
+} from '@logging/dtos';
+
+/** Header carrying the re-drive count on re-driven messages */
+export const REDRIVE_COUNT_HEADER = 'x-redrive-count';
+
+/**
+ * Dead-letter Port - Stores log events the MQ consumer could not persist
+ * and allows re-driving them into their source topic.
+ */
+export abstract class DeadLetterPort {
+  /**
+   * Publish a failed message to the dead-letter topic.
+   */
+  abstract send(message: DeadLetterMessage): Promise<void>;
+
+  /**
+   * Read up to `limit` pending messages without consuming them.
+   */
+  abstract list(limit: number): Promise<DeadLetterListResult>;
+
+  /**
+   * Publish up to `limit` pending messages back to their source topic
+   * and mark them as re-driven. Returns the entries that were processed.
+   */
+  abstract redrive(limit: number): Promise<DeadLetterEntry[]>;
+
+  /**
+   * Name of the dead-letter topic.
+   */
+  abstract getTopic(): string;
+}
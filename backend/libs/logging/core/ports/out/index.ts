@@ -1,2 +1,5 @@
 export * from './logger.port';
 export * from './mq-producer.port';
+export * from './dead-letter.port';
+export * from './log-spool.port';
+export * from './mq-consumer.port';
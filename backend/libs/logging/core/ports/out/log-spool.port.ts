@@ -0,0 +1,70 @@
+import { WideEvent, LoggingContext } from '@logging/domain';
+
+/**
+ * An event held in the spool until a sink accepts it.
+ */
+export interface SpoolEntry {
+  event: WideEvent;
+  _metadata: LoggingContext['_metadata'] | undefined;
+  summary: string;
+  spooledAt: string;
+}
+
+/**
+ * Entries read from the spool. Pass back to commit() once they have been
+ * delivered.
+ */
+export interface SpoolBatch {
+  /** Segment the batch was read from (batches never span segments) */
+  segment: string;
+  entries: SpoolEntry[];
+  /** Byte offset just after each entry */
+  endOffsets: number[];
+  /** Byte offset just after everything read, including skipped corrupt lines */
+  endOffset: number;
+  /** Corrupt lines skipped while reading this batch */
+  skipped: number;
+}
+
+/**
+ * Statistics for the spool.
+ */
+export interface SpoolStats {
+  /** Pending entries */
+  depth: number;
+  /** Pending bytes on disk */
+  depthBytes: number;
+  maxBytes: number;
+  segments: number;
+  /** Age of the oldest pending entry (null when empty) */
+  oldestEntryAgeMs: number | null;
+  /** Rejected because the spool was full */
+  droppedCount: number;
+  /** Skipped during replay because their checksum did not match */
+  corruptCount: number;
+}
+
+/**
+ * Log Spool Port - Durable local buffer for events no sink accepted.
+ * Entries are read back in append order.
+ */
+export abstract class LogSpoolPort {
+  /**
+   * Append an entry. Returns false if the spool is full (entry dropped).
+   */
+  abstract append(entry: Omit<SpoolEntry, 'spooledAt'>): Promise<boolean>;
+
+  /**
+   * Read up to `limit` of the oldest pending entries, or null when empty.
+   * Reading does not remove entries; see commit().
+   */
+  abstract read(limit: number): Promise<SpoolBatch | null>;
+
+  /**
+   * Remove everything up to the batch cursor (or up to `delivered`
+   * entries of the batch when only part of it was delivered).
+   */
+  abstract commit(batch: SpoolBatch, delivered?: number): Promise<void>;
+
+  abstract getStats(): SpoolStats;
+}
@@ -10,4 +10,12 @@ export abstract class LoggerPort {
     _metadata: LoggingContext['_metadata'],
     _summary: string,
   ): Promise<void>;
+
+  /**
+   * Write out buffered events (called by ShutdownCoordinator).
+   * Default: nothing is buffered.
+   */
+  flush(): Promise<void> {
+    return Promise.resolve();
+  }
 }
@@ -1,7 +1,69 @@
-import { Consumer } from 'kafkajs';
+/**
+ * A message delivered by the broker.
+ */
+export interface MqMessage {
+  /** Broker position: Kafka offset or Redis stream entry ID */
+  id: string;
+  key: string | null;
+  value: string | null;
+  headers: Record<string, string>;
+}
+
+/**
+ * Messages from one topic partition (Redis streams have a single
+ * partition, 0), in delivery order.
+ */
+export interface MqMessageBatch {
+  topic: string;
+  partition: number;
+  messages: MqMessage[];
+}
+
+/**
+ * Controls passed to the batch handler.
+ */
+export interface MqBatchContext {
+  /** False once the consumer is stopping or the batch was reassigned */
+  isActive(): boolean;
+  /**
+   * Acknowledge messages so they are not redelivered
+   * (Kafka: commit up to the last one; Redis: XACK).
+   */
+  ack(messages: MqMessage[]): Promise<void>;
+  /** Keep group membership alive during long batches */
+  heartbeat(): Promise<void>;
+}
 
+export type MqBatchHandler = (
+  batch: MqMessageBatch,
+  context: MqBatchContext,
+) => Promise<void>;
+
+/**
+ * MQ Consumer Port - Broker-neutral consumer group interface.
+ * Unacknowledged messages are redelivered (at-least-once).
+ */
 export abstract class MqConsumerPort {
-  abstract subscribe(topic: string): Promise<void>;
-  abstract unsubscribe(topic: string): Promise<void>;
-  abstract getConsumer(): Consumer;
+  /**
+   * Join the consumer group and start delivering batches to `handler`.
+   * If the handler throws, consumption stops and `onCrash` is called;
+   * the failed batch's unacknowledged messages are redelivered later.
+   */
+  abstract start(
+    topic: string,
+    handler: MqBatchHandler,
+    onCrash: (error: Error) => void,
+  ): Promise<void>;
+
+  /**
+   * Stop consuming (waiting for the current batch) and disconnect.
+   */
+  abstract stop(): Promise<void>;
+
+  /**
+   * Lightweight broker reachability check, independent of the consumer.
+   */
+  abstract checkAvailability(): Promise<boolean>;
+
+  abstract getGroupId(): string;
 }
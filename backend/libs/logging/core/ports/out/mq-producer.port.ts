@@ -32,4 +32,12 @@ export abstract class MqProducerPort {
    * Disconnect from the message queue.
    */
   abstract disconnect(): Promise<void>;
+
+  /**
+   * Send buffered messages and wait until the broker acknowledged them.
+   * Default: publish() does not buffer.
+   */
+  flush(): Promise<void> {
+    return Promise.resolve();
+  }
 }
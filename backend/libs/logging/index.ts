@@ -10,6 +10,7 @@ export { LoggingModule } from './logging.module';
 export { LoggingService } from './service/logging.service';
 export { LoggingUseCase } from './core/ports/in/logging.use-case';
 export { ContextService } from './service/context.service';
+export { TracedHttpClient } from './infrastructure/http/traced-http.client';
 
 // Interceptors
 export { LoggingInterceptor } from './presentation/logging.interceptor';
@@ -28,6 +29,7 @@ export {
 
 // Domain utilities
 export { FinalizeMetrics } from './core/domain/finalize.metrics';
+export { TraceContext } from './core/domain/trace-context';
 
 // Presentation utilities (moved from domain - depends on Express/NestJS)
 export { RouteNormalizer, ErrorNormalizer } from './presentation/normalizers';
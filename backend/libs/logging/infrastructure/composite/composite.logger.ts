@@ -0,0 +1,208 @@
+import { Logger } from '@nestjs/common';
+import { LoggerPort } from '@logging/out-ports';
+import {
+  WideEvent,
+  LoggingContext,
+  FinalizeMetrics,
+  SamplingReason,
+} from '@logging/domain';
+
+/**
+ * Which events a sink receives.
+ * - all: every recorded event
+ * - errors: events with an error
+ * - slow: events recorded because they exceeded the slow threshold
+ */
+export type SinkFilter = 'all' | 'errors' | 'slow';
+
+export const SINK_FILTERS: readonly SinkFilter[] = ['all', 'errors', 'slow'];
+
+/**
+ * Parsed entry of LOG_SINKS (`type[:filter]`).
+ */
+export interface SinkSpec {
+  type: string;
+  filter: SinkFilter;
+}
+
+/**
+ * A configured sink: a LoggerPort plus its filter.
+ */
+export interface LogSink {
+  /** Name used for per-sink metrics (e.g. "mongodb", "file") */
+  name: string;
+  logger: LoggerPort;
+  filter: SinkFilter;
+}
+
+/**
+ * CompositeLogger - LoggerPort that fans each event out to several sinks.
+ *
+ * - Each sink only receives events matching its filter
+ * - Sinks are written concurrently and isolated from each other:
+ *   a failing or hanging sink (bounded by a per-sink timeout) does not
+ *   prevent delivery to the rest
+ * - Per-sink success/failure/skipped counts are recorded in FinalizeMetrics
+ * - log() rejects only if every sink that received the event failed,
+ *   so the interceptor's finalize metrics reflect total loss
+ *
+ * @example LOG_SINKS=mongodb,file:errors
+ */
+export class CompositeLogger extends LoggerPort {
+  private readonly logger = new Logger(CompositeLogger.name);
+
+  constructor(
+    private readonly sinks: LogSink[],
+    private readonly finalizeMetrics: FinalizeMetrics,
+    private readonly sinkTimeoutMs: number = 5000,
+  ) {
+    super();
+    this.logger.log(
+      `Writing to ${sinks.length} sinks: ${sinks
+        .map((sink) => `${sink.name}(${sink.filter})`)
+        .join(', ')}`,
+    );
+  }
+
+  /**
+   * Parse LOG_SINKS (`type[:filter],...`). Throws on unknown filters or
+   * duplicate sink types so misconfiguration fails at startup.
+   */
+  static parseSinks(value: string): SinkSpec[] {
+    const specs: SinkSpec[] = [];
+
+    for (const entry of value.split(',')) {
+      const trimmed = entry.trim();
+      if (!trimmed) continue;
+
+      const [type, filter = 'all'] = trimmed.split(':').map((s) => s.trim());
+      if (!SINK_FILTERS.includes(filter as SinkFilter)) {
+        throw new Error(
+          `Invalid LOG_SINKS filter "${filter}" for sink "${type}" (expected one of: ${SINK_FILTERS.join(', ')})`,
+        );
+      }
+      if (specs.some((spec) => spec.type === type)) {
+        throw new Error(`Duplicate sink "${type}" in LOG_SINKS`);
+      }
+      specs.push({ type, filter: filter as SinkFilter });
+    }
+
+    return specs;
+  }
+
+  /**
+   * Whether an event passes a sink filter.
+   */
+  static matches(
+    filter: SinkFilter,
+    event: WideEvent,
+    _metadata: LoggingContext['_metadata'] | undefined,
+  ): boolean {
+    switch (filter) {
+      case 'errors':
+        return !!event.error;
+      case 'slow': {
+        const sampling = _metadata?._sampling as
+          | { reason?: string }
+          | undefined;
+        return sampling?.reason === SamplingReason.SLOW_REQUEST;
+      }
+      default:
+        return true;
+    }
+  }
+
+  async log(
+    event: WideEvent,
+    _metadata: LoggingContext['_metadata'],
+    _summary: string,
+  ): Promise<void> {
+    const targets: LogSink[] = [];
+    for (const sink of this.sinks) {
+      if (CompositeLogger.matches(sink.filter, event, _metadata)) {
+        targets.push(sink);
+      } else {
+        this.finalizeMetrics.recordSinkSkipped(sink.name);
+      }
+    }
+
+    if (targets.length === 0) {
+      return;
+    }
+
+    const results = await Promise.allSettled(
+      targets.map((sink) => this.writeToSink(sink, event, _metadata, _summary)),
+    );
+
+    let failures = 0;
+    results.forEach((result, index) => {
+      const sink = targets[index];
+      if (result.status === 'fulfilled') {
+        this.finalizeMetrics.recordSinkSuccess(sink.name);
+      } else {
+        failures++;
+        const error =
+          result.reason instanceof Error
+            ? result.reason
+            : new Error(String(result.reason));
+        this.finalizeMetrics.recordSinkFailure(sink.name, error);
+      }
+    });
+
+    if (failures === targets.length) {
+      throw new Error(
+        `All sinks failed for requestId: ${event.requestId} (${targets
+          .map((sink) => sink.name)
+          .join(', ')})`,
+      );
+    }
+  }
+
+  /**
+   * Flush every sink concurrently; a failing sink does not stop the others.
+   */
+  async flush(): Promise<void> {
+    const results = await Promise.allSettled(
+      this.sinks.map((sink) => sink.logger.flush()),
+    );
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        this.logger.error(
+          `Failed to flush sink "${this.sinks[index].name}": ${String(result.reason)}`,
+        );
+      }
+    });
+  }
+
+  /**
+   * Write to one sink, bounded by the per-sink timeout.
+   */
+  private async writeToSink(
+    sink: LogSink,
+    event: WideEvent,
+    _metadata: LoggingContext['_metadata'],
+    _summary: string,
+  ): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            new Error(
+              `Sink "${sink.name}" timed out after ${this.sinkTimeoutMs}ms`,
+            ),
+          ),
+        this.sinkTimeoutMs,
+      );
+    });
+
+    try {
+      await Promise.race([
+        sink.logger.log(event, _metadata, _summary),
+        timeout,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -1,22 +1,69 @@
-import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
-import { promises as fs } from 'fs';
-import { join, dirname } from 'path';
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { promises as fs, createReadStream, createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
+import { join, dirname, basename, extname } from 'path';
 import { ConfigService } from '@nestjs/config';
 import { LoggerPort } from '@logging/out-ports';
-import { WideEvent } from '@logging/domain';
+import { WideEvent, LoggingContext } from '@logging/domain';
+
+/**
+ * Statistics for FileLogger.
+ */
+export interface FileLoggerStats {
+  bufferedBytes: number;
+  /** Events dropped after failed writes once the buffer reached LOG_FILE_MAX_BYTES */
+  lostCount: number;
+}
 
 /**
  * FileLogger - Infrastructure layer implementation of Logger interface.
  * Appends Wide Events as JSON lines to a local file.
  * No business logic, no context construction - pure I/O.
+ *
+ * - Each line is the event plus `_metadata` and `_summary` (the same shape
+ *   MongoLogger stores), so files can be re-imported
+ * - Lines are buffered and written through the open handle every
+ *   LOG_FILE_FLUSH_INTERVAL_MS (or once LOG_FILE_BUFFER_BYTES is buffered);
+ *   the file is fsync'd every LOG_FILE_FSYNC_INTERVAL_MS
+ * - The file is rotated once it would exceed LOG_FILE_MAX_BYTES or is older
+ *   than LOG_FILE_ROTATE_INTERVAL_MS, to `<name>.<timestamp><ext>`;
+ *   rotated files are gzipped (LOG_FILE_COMPRESS) and only the newest
+ *   LOG_FILE_MAX_FILES are kept
+ * - Lines of a failed write stay buffered for the next flush, up to
+ *   LOG_FILE_MAX_BYTES; beyond that they are dropped and counted as lost
  */
 @Injectable()
 export class FileLogger
   extends LoggerPort
-  implements OnModuleInit, OnModuleDestroy
+  implements OnModuleInit, OnApplicationShutdown
 {
+  private readonly logger = new Logger(FileLogger.name);
   private readonly logFilePath: string;
+  private readonly maxBytes: number;
+  private readonly rotateIntervalMs: number;
+  private readonly maxFiles: number;
+  private readonly compress: boolean;
+  private readonly bufferBytes: number;
+  private readonly flushIntervalMs: number;
+  private readonly fsyncIntervalMs: number;
+
   private logFileHandle: fs.FileHandle | null = null;
+  private fileSize = 0;
+  private fileOpenedAt = 0;
+  private buffer: string[] = [];
+  private bufferedBytes = 0;
+  private lostCount = 0;
+  private unsyncedWrites = false;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private fsyncTimer: NodeJS.Timeout | null = null;
+  private lock: Promise<unknown> = Promise.resolve();
+  private readonly compressions = new Set<Promise<void>>();
 
   constructor(private readonly configService: ConfigService) {
     super();
@@ -29,6 +76,39 @@ export class FileLogger
     this.logFilePath =
       this.configService.get<string>('LOG_FILE_PATH') ||
       join(projectRoot, 'logs', 'app.log');
+    this.maxBytes =
+      parseInt(
+        this.configService.get<string>('LOG_FILE_MAX_BYTES') || '',
+        10,
+      ) || 100 * 1024 * 1024;
+    // 0 disables time-based rotation
+    this.rotateIntervalMs = parseInt(
+      this.configService.get<string>('LOG_FILE_ROTATE_INTERVAL_MS') ||
+        '86400000',
+      10,
+    );
+    this.maxFiles =
+      parseInt(
+        this.configService.get<string>('LOG_FILE_MAX_FILES') || '',
+        10,
+      ) || 7;
+    this.compress =
+      this.configService.get<string>('LOG_FILE_COMPRESS') !== 'false';
+    this.bufferBytes =
+      parseInt(
+        this.configService.get<string>('LOG_FILE_BUFFER_BYTES') || '',
+        10,
+      ) || 64 * 1024;
+    this.flushIntervalMs =
+      parseInt(
+        this.configService.get<string>('LOG_FILE_FLUSH_INTERVAL_MS') || '',
+        10,
+      ) || 1000;
+    this.fsyncIntervalMs =
+      parseInt(
+        this.configService.get<string>('LOG_FILE_FSYNC_INTERVAL_MS') || '',
+        10,
+      ) || 5000;
   }
 
   async onModuleInit(): Promise<void> {
@@ -38,30 +118,245 @@ export class FileLogger
     } catch {}
 
     try {
-      this.logFileHandle = await fs.open(this.logFilePath, 'a');
-    } catch {
+      await this.openFile();
+    } catch (error) {
+      this.logger.error(
+        `Failed to open log file ${this.logFilePath}: ${error.message}`,
+      );
       this.logFileHandle = null;
     }
+
+    this.flushTimer = setInterval(() => {
+      void this.flush();
+    }, this.flushIntervalMs);
+    this.flushTimer.unref();
+
+    this.fsyncTimer = setInterval(() => {
+      void this.withLock(() => this.sync());
+    }, this.fsyncIntervalMs);
+    this.fsyncTimer.unref();
+  }
+
+  async onApplicationShutdown(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.fsyncTimer) {
+      clearInterval(this.fsyncTimer);
+      this.fsyncTimer = null;
+    }
+
+    await this.flush();
+    await this.withLock(async () => {
+      await this.sync();
+      if (this.logFileHandle) {
+        await this.logFileHandle.close();
+        this.logFileHandle = null;
+      }
+    });
+    await Promise.all(this.compressions);
+  }
+
+  /**
+   * Matches the names of files rotated from `logFilePath` (gzipped or not),
+   * so readers can find every segment. Timestamps sort lexicographically.
+   */
+  static rotatedFilePattern(logFilePath: string): RegExp {
+    const ext = extname(logFilePath);
+    const escape = (value: string) =>
+      value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(
+      `^${escape(basename(logFilePath, ext))}\\.\\d{4}-\\d{2}-\\d{2}T[\\d-]+Z${escape(ext)}(\\.gz)?$`,
+    );
+  }
+
+  /**
+   * Log a Wide Event as a JSON line.
+   * Implements the Logger interface contract.
+   */
+  async log(
+    event: WideEvent,
+    _metadata: LoggingContext['_metadata'],
+    _summary: string,
+  ): Promise<void> {
+    const jsonLine = JSON.stringify({ ...event, _metadata, _summary }) + '\n';
+
+    this.buffer.push(jsonLine);
+    this.bufferedBytes += Buffer.byteLength(jsonLine);
+
+    if (this.bufferedBytes >= this.bufferBytes) {
+      await this.flush();
+    }
   }
 
-  async onModuleDestroy(): Promise<void> {
+  /**
+   * Write buffered lines through the open handle, rotating first if needed.
+   */
+  flush(): Promise<void> {
+    return this.withLock(async () => {
+      if (this.buffer.length === 0) {
+        return;
+      }
+
+      const lines = this.buffer;
+      const data = lines.join('');
+      const bytes = this.bufferedBytes;
+      this.buffer = [];
+      this.bufferedBytes = 0;
+
+      try {
+        if (this.shouldRotate(bytes)) {
+          await this.rotate();
+        }
+        if (!this.logFileHandle) {
+          await this.openFile();
+        }
+
+        await this.logFileHandle!.write(data, null, 'utf8');
+        this.fileSize += bytes;
+        this.unsyncedWrites = true;
+      } catch (error) {
+        this.logger.error(
+          `Failed to write ${bytes} bytes to ${this.logFilePath}: ${error.message}`,
+        );
+        this.restore(lines, bytes);
+      }
+    });
+  }
+
+  /**
+   * Put the lines of a failed write back in front of anything logged
+   * since, unless that would buffer more than LOG_FILE_MAX_BYTES.
+   */
+  private restore(lines: string[], bytes: number): void {
+    if (this.bufferedBytes + bytes > this.maxBytes) {
+      this.lostCount += lines.length;
+      this.logger.error(
+        `Dropped ${lines.length} log lines after a failed write (${this.lostCount} lost so far)`,
+      );
+      return;
+    }
+    this.buffer = [...lines, ...this.buffer];
+    this.bufferedBytes += bytes;
+  }
+
+  private shouldRotate(incomingBytes: number): boolean {
+    if (this.fileSize === 0) {
+      return false;
+    }
+    if (this.fileSize + incomingBytes > this.maxBytes) {
+      return true;
+    }
+    return (
+      this.rotateIntervalMs > 0 &&
+      Date.now() - this.fileOpenedAt >= this.rotateIntervalMs
+    );
+  }
+
+  /**
+   * Close the current file, move it aside and start a new one. Compression
+   * and retention run in the background so writes are not held up.
+   */
+  private async rotate(): Promise<void> {
+    await this.sync();
     if (this.logFileHandle) {
       await this.logFileHandle.close();
       this.logFileHandle = null;
     }
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const ext = extname(this.logFilePath);
+    const rotatedPath = join(
+      dirname(this.logFilePath),
+      `${basename(this.logFilePath, ext)}.${stamp}${ext}`,
+    );
+    await fs.rename(this.logFilePath, rotatedPath);
+    this.logger.log(`Rotated ${this.logFilePath} to ${rotatedPath}`);
+
+    await this.openFile();
+
+    const task = (this.compress ? this.gzip(rotatedPath) : Promise.resolve())
+      .then(() => this.prune())
+      .catch((error) => {
+        this.logger.error(
+          `Failed to compress or prune ${rotatedPath}: ${error.message}`,
+        );
+      });
+    this.compressions.add(task);
+    void task.finally(() => this.compressions.delete(task));
+  }
+
+  private async gzip(path: string): Promise<void> {
+    await pipeline(
+      createReadStream(path),
+      createGzip(),
+      createWriteStream(`${path}.gz`),
+    );
+    await fs.unlink(path);
   }
 
   /**
-   * Log a Wide Event as a JSON line.
-   * Implements the Logger interface contract.
+   * Delete the oldest rotated files beyond LOG_FILE_MAX_FILES.
    */
-  async log(event: WideEvent): Promise<void> {
-    try {
-      const jsonLine = JSON.stringify(event) + '\n';
+  private async prune(): Promise<void> {
+    const dir = dirname(this.logFilePath);
+    const pattern = FileLogger.rotatedFilePattern(this.logFilePath);
 
-      await fs.appendFile(this.logFilePath, jsonLine, 'utf8');
-    } catch {
-      // Future:Silently fail and emit to a fallback logger or metrics.
+    // A segment may exist as both `.log` and `.log.gz` while compressing.
+    // Timestamps sort lexicographically, newest last.
+    const names = (await fs.readdir(dir)).filter((name) => pattern.test(name));
+    const segments = Array.from(
+      new Set(names.map((name) => name.replace(/\.gz$/, ''))),
+    ).sort();
+    const excess = segments.slice(
+      0,
+      Math.max(0, segments.length - this.maxFiles),
+    );
+
+    for (const segment of excess) {
+      for (const name of [segment, `${segment}.gz`]) {
+        if (names.includes(name)) {
+          await fs.unlink(join(dir, name)).catch(() => undefined);
+        }
+      }
+    }
+  }
+
+  private async openFile(): Promise<void> {
+    this.logFileHandle = await fs.open(this.logFilePath, 'a');
+    const stat = await this.logFileHandle.stat();
+    this.fileSize = stat.size;
+    // An existing file keeps its age across restarts
+    this.fileOpenedAt =
+      stat.size > 0 && stat.birthtimeMs > 0 ? stat.birthtimeMs : Date.now();
+  }
+
+  private async sync(): Promise<void> {
+    if (!this.logFileHandle || !this.unsyncedWrites) {
+      return;
+    }
+    this.unsyncedWrites = false;
+    try {
+      await this.logFileHandle.sync();
+    } catch (error) {
+      this.logger.warn(`fsync of ${this.logFilePath} failed: ${error.message}`);
     }
   }
+
+  /**
+   * Run an operation after all previously queued ones.
+   */
+  private withLock<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(operation);
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Get buffer and loss stats for monitoring.
+   */
+  getStats(): FileLoggerStats {
+    return { bufferedBytes: this.bufferedBytes, lostCount: this.lostCount };
+  }
 }
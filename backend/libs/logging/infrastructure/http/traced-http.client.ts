@@ -0,0 +1,33 @@
+import { Injectable } from '@nestjs/common';
+import { ContextService } from '@logging/service';
+
+/**
+ * TracedHttpClient - fetch wrapper that forwards the current W3C Trace
+ * Context (traceparent / tracestate) to downstream services.
+ *
+ * Headers set explicitly by the caller take precedence.
+ *
+ * @example
+ * const res = await this.http.fetch('http://orders/api/orders', {
+ *   method: 'POST',
+ *   body: JSON.stringify(order),
+ * });
+ */
+@Injectable()
+export class TracedHttpClient {
+  constructor(private readonly contextService: ContextService) {}
+
+  async fetch(input: string | URL, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+
+    for (const [name, value] of Object.entries(
+      this.contextService.getPropagationHeaders(),
+    )) {
+      if (!headers.has(name)) {
+        headers.set(name, value);
+      }
+    }
+
+    return fetch(input, { ...init, headers });
+  }
+}
@@ -5,3 +5,18 @@ export * from './mq/kafka-producer.client';
 export * from './mq/kafka-consumer.client';
 export * from './mq/kafka.producer';
 export * from './mq/kafka.logger';
+export * from './mq/kafka.consumer';
+export * from './mq/redis-stream.client';
+export * from './mq/redis-stream.producer';
+export * from './mq/redis-stream.consumer';
+export * from './mq/redis-dead-letter.queue';
+export * from './mq/in-memory.queue';
+export * from './mq/in-memory.producer';
+export * from './mq/in-memory.consumer';
+export * from './mq/in-memory-dead-letter.queue';
+export * from './http/traced-http.client';
+export * from './otlp/otlp.mapper';
+export * from './otlp/otlp.logger';
+export * from './composite/composite.logger';
+export * from './mq/kafka-dead-letter.queue';
+export * from './spool/disk-spool';
@@ -1,7 +1,7 @@
 import {
   Injectable,
   OnModuleInit,
-  OnModuleDestroy,
+  OnApplicationShutdown,
   Logger,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
@@ -12,7 +12,9 @@ import { MongoClient, Db, Collection, Document } from 'mongodb';
  * Manages the lifecycle of the database connection.
  */
 @Injectable()
-export class MongoConnectionClient implements OnModuleInit, OnModuleDestroy {
+export class MongoConnectionClient
+  implements OnModuleInit, OnApplicationShutdown
+{
   private readonly logger = new Logger(MongoConnectionClient.name);
   private client: MongoClient;
   private db: Db;
@@ -39,7 +41,7 @@ export class MongoConnectionClient implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  async onModuleDestroy() {
+  async onApplicationShutdown() {
     if (this.client) {
       await this.client.close();
       this.logger.log('MongoDB connection closed.');
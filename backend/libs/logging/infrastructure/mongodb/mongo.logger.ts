@@ -1,35 +1,189 @@
-import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  Optional,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { LoggerPort } from '@logging/out-ports';
-import { WideEvent } from '@logging/domain';
+import { LoggerPort, LogSpoolPort } from '@logging/out-ports';
+import {
+  WideEvent,
+  LoggingContext,
+  RetryPolicy,
+  EventPriority,
+  EventPriorityPolicy,
+} from '@logging/domain';
 import { MongoConnectionClient } from './mongo.client';
-import { LoggingContext } from '@logging/domain';
 import { Document } from 'mongodb';
 
+/**
+ * A Wide Event with its metadata and summary, as written to MongoDB.
+ */
+export interface MongoLogEntry {
+  event: WideEvent;
+  _metadata: LoggingContext['_metadata'] | undefined;
+  summary: string;
+}
+
+/**
+ * Outcome of MongoLogger.writeBatch().
+ */
+export interface MongoBatchWriteResult {
+  /** Newly inserted events */
+  inserted: number;
+  /** Events already stored (redelivered) or duplicated within the batch */
+  duplicates: number;
+  /** Documents the server rejected, by index in the input batch */
+  rejected: { index: number; code?: number; message: string }[];
+}
+
+/**
+ * Buffer statistics of MongoLogger.
+ */
+export interface MongoBufferStats {
+  bufferSize: number;
+  batchSize: number;
+  maxBufferSize: number;
+  /** Events put back into the buffer after a failed write */
+  retriedCount: number;
+  /** Events given up on, by reason */
+  lostCount: {
+    /** Rejected by the server with a non-transient error */
+    rejected: number;
+    /** Still failing after LOG_MONGO_MAX_RETRIES, with no spool to take them */
+    exhausted: number;
+    /**
+     * Evicted to keep the buffer within LOG_MONGO_MAX_BUFFER_SIZE (error
+     * events only when the disk spool could not take them)
+     */
+    evicted: number;
+  };
+}
+
+/** A buffered entry and how often writing it has failed */
+interface QueuedEntry {
+  entry: MongoLogEntry;
+  priority: EventPriority;
+  attempts: number;
+}
+
+/** Per-document write error of a bulk operation */
+type BulkWriteErrorItem = { index: number; code?: number; errmsg?: string };
+
+/** Fields of the driver's MongoBulkWriteError used here */
+interface MongoBulkWriteErrorLike {
+  name: string;
+  message: string;
+  writeErrors?: BulkWriteErrorItem | BulkWriteErrorItem[];
+}
+
+/** A requestId claimed in `wide_event_ids` before its event is inserted */
+interface RequestIdClaim {
+  _id: string;
+  /** `pending` until the event is stored in wide_events */
+  state: 'pending' | 'stored';
+  claimedAt: Date;
+}
+
+type RejectedWrite = MongoBatchWriteResult['rejected'][number];
+
+const DUPLICATE_KEY = 11000;
+
+/**
+ * A pending claim older than this is treated as abandoned (its writer died
+ * between claiming and storing the event) and may be taken over.
+ */
+const CLAIM_LEASE_MS = 60_000;
+
+/**
+ * Per-document write error codes worth retrying: transient server / replica
+ * set errors, and DuplicateKey, which writeBatch() reports for a requestId
+ * another writer has claimed but not stored yet (the retry finds it stored,
+ * or takes the claim over once its lease expired). wide_events itself has
+ * no unique index, so inserting into it never fails with DuplicateKey.
+ */
+const RETRYABLE_WRITE_ERROR_CODES: ReadonlySet<number> = new Set([
+  6, // HostUnreachable
+  7, // HostNotFound
+  50, // MaxTimeMSExpired
+  64, // WriteConcernFailed
+  89, // NetworkTimeout
+  91, // ShutdownInProgress
+  189, // PrimarySteppedDown
+  262, // ExceededTimeLimit
+  9001, // SocketException
+  10107, // NotWritablePrimary
+  DUPLICATE_KEY,
+  11600, // InterruptedAtShutdown
+  11602, // InterruptedDueToReplStateChange
+  13435, // NotPrimaryNoSecondaryOk
+]);
+
 /**
  * MongoLogger - Infrastructure layer implementation of LoggerPort.
  * Persists Wide Events to a MongoDB Time-series collection.
  *
+ * Idempotency:
+ * - wide_events is a time-series collection (MongoDB 5.0+). Time-series
+ *   collections support no unique indexes, and upserts on them need
+ *   MongoDB 8.0+, so a requestId cannot be deduplicated there
+ * - Instead each requestId is first claimed in the regular collection
+ *   `wide_event_ids` (`_id` = requestId, unique by definition) and the event
+ *   is inserted only if the claim succeeded. A redelivered or replayed event
+ *   finds its claim and is counted as a duplicate
+ * - Claims are released when the insert fails; a claim left pending by a
+ *   crashed writer is taken over after CLAIM_LEASE_MS (unless the event
+ *   turns out to be stored already)
+ * - Claims expire through a TTL index on `claimedAt` (7 days, see
+ *   docker/mongo/mongodb-init.js), which must cover the redelivery/replay
+ *   window: MQ topic retention and time spent in the disk spool. An event
+ *   redelivered after its claim expired is stored again
+ *
  * Performance Optimization:
  * - Batches multiple log entries before writing to reduce I/O overhead
  * - Configurable batch size and flush interval
- * - Automatic flush on module destroy to prevent data loss
+ * - Automatic flush on application shutdown to prevent data loss
+ *
+ * Failure handling:
+ * - A batch that fails to write (MongoDB unreachable) is put back into the
+ *   buffer and retried with exponential backoff (RetryPolicy); events still
+ *   failing after LOG_MONGO_MAX_RETRIES go to the disk spool if one is
+ *   configured, otherwise they are lost
+ * - For a partially failed bulk write only the rejected documents are
+ *   retried, and only for transient error codes; the next write backs off
+ *   by the most-retried of them
+ * - The buffer is bounded (LOG_MONGO_MAX_BUFFER_SIZE); when full, the
+ *   lowest-priority, newest events are evicted first. Events with an error
+ *   are not evicted: once only they remain, the overflow goes to the disk
+ *   spool (or is lost without one), so the bound always holds
  */
 @Injectable()
-export class MongoLogger extends LoggerPort implements OnModuleDestroy {
+export class MongoLogger extends LoggerPort implements OnApplicationShutdown {
   private readonly internalLogger = new Logger(MongoLogger.name);
   private readonly collectionName = 'wide_events';
+  private readonly claimsCollectionName = 'wide_event_ids';
 
   // Batch write configuration
-  private readonly buffer: Document[] = [];
+  private readonly buffer: QueuedEntry[] = [];
   private readonly batchSize: number;
   private readonly flushIntervalMs: number;
+  private readonly maxBufferSize: number;
+  private readonly retryPolicy: RetryPolicy;
   private flushTimer: NodeJS.Timeout | null = null;
-  private isFlushing = false;
+  private flushing: Promise<void> | null = null;
+  private overflowSpooling: Promise<void> = Promise.resolve();
+
+  // Backoff after failed writes
+  private consecutiveFailures = 0;
+  private retryAt = 0;
+
+  private retriedCount = 0;
+  private readonly lostCount = { rejected: 0, exhausted: 0, evicted: 0 };
 
   constructor(
     private readonly mongoConnectionClient: MongoConnectionClient,
     private readonly configService: ConfigService,
+    @Optional() private readonly spool?: LogSpoolPort,
   ) {
     super();
 
@@ -39,6 +193,26 @@ export class MongoLogger extends LoggerPort implements OnModuleDestroy {
       'LOG_FLUSH_INTERVAL_MS',
       1000,
     );
+    this.maxBufferSize =
+      parseInt(
+        this.configService.get<string>('LOG_MONGO_MAX_BUFFER_SIZE') || '',
+        10,
+      ) || 10000;
+    this.retryPolicy = new RetryPolicy({
+      maxRetries: parseInt(
+        this.configService.get<string>('LOG_MONGO_MAX_RETRIES') || '5',
+        10,
+      ),
+      baseDelayMs: parseInt(
+        this.configService.get<string>('LOG_MONGO_RETRY_BACKOFF_MS') || '500',
+        10,
+      ),
+      maxDelayMs: parseInt(
+        this.configService.get<string>('LOG_MONGO_RETRY_MAX_BACKOFF_MS') ||
+          '30000',
+        10,
+      ),
+    });
 
     // Start periodic flush timer
     this.startFlushTimer();
@@ -53,90 +227,549 @@ export class MongoLogger extends LoggerPort implements OnModuleDestroy {
     _metadata: LoggingContext['_metadata'] | undefined,
     _summary: string,
   ): Promise<void> {
-    const document = {
+    this.buffer.push({
+      entry: { event, _metadata, summary: _summary },
+      priority: EventPriorityPolicy.forEvent(event, _metadata),
+      attempts: 0,
+    });
+    this.enforceBufferBound();
+
+    // Flush immediately if buffer reaches batch size
+    if (this.buffer.length >= this.batchSize) {
+      await this.writeBuffer();
+    }
+  }
+
+  /**
+   * Write a single Wide Event immediately, bypassing the buffer.
+   * Unlike log(), failures are thrown so the caller can retry or dead-letter.
+   */
+  async persist(
+    event: WideEvent,
+    _metadata: LoggingContext['_metadata'] | undefined,
+    _summary: string,
+  ): Promise<void> {
+    const result = await this.writeBatch([
+      { event, _metadata, summary: _summary },
+    ]);
+    if (result.rejected.length > 0) {
+      throw new Error(result.rejected[0].message);
+    }
+  }
+
+  /**
+   * Write events in one unordered bulk operation, bypassing the buffer.
+   *
+   * - Each requestId is claimed in `wide_event_ids` first; events whose
+   *   requestId is already stored are left untouched (see class doc)
+   * - Repeated requestIds within the batch are collapsed (first one wins)
+   * - Per-document rejections are returned; anything else (connection,
+   *   timeout) is thrown so the caller can retry without losing events
+   */
+  async writeBatch(entries: MongoLogEntry[]): Promise<MongoBatchWriteResult> {
+    const seen = new Set<string>();
+    const indexes: number[] = [];
+    entries.forEach((entry, index) => {
+      const requestId = entry.event.requestId;
+      if (seen.has(requestId)) return;
+      seen.add(requestId);
+      indexes.push(index);
+    });
+
+    if (indexes.length === 0) {
+      return { inserted: 0, duplicates: 0, rejected: [] };
+    }
+
+    const { claimed, rejected } = await this.claimRequestIds(entries, indexes);
+    if (claimed.length === 0) {
+      return {
+        inserted: 0,
+        duplicates: entries.length - rejected.length,
+        rejected,
+      };
+    }
+
+    const requestIdOf = (index: number) => entries[index].event.requestId;
+    const failed: RejectedWrite[] = [];
+    try {
+      await this.mongoConnectionClient
+        .getCollection(this.collectionName)
+        .insertMany(
+          claimed.map((index) =>
+            this.toDocument(
+              entries[index].event,
+              entries[index]._metadata,
+              entries[index].summary,
+            ),
+          ),
+          { ordered: false },
+        );
+    } catch (error) {
+      const writeErrors = this.bulkWriteErrors(error);
+      if (!writeErrors) {
+        await this.releaseClaims(claimed.map(requestIdOf));
+        throw error;
+      }
+      failed.push(
+        ...writeErrors.map((writeError) => ({
+          index: claimed[writeError.index],
+          code: writeError.code,
+          message: writeError.errmsg ?? (error as Error).message,
+        })),
+      );
+      await this.releaseClaims(failed.map(({ index }) => requestIdOf(index)));
+    }
+
+    const failedIndexes = new Set(failed.map(({ index }) => index));
+    const stored = claimed.filter((index) => !failedIndexes.has(index));
+    await this.markStored(stored.map(requestIdOf));
+
+    rejected.push(...failed);
+    return {
+      inserted: stored.length,
+      duplicates: entries.length - stored.length - rejected.length,
+      rejected,
+    };
+  }
+
+  /**
+   * Claim the requestIds of `indexes` (distinct). Returns the indexes this
+   * writer may insert; stored requestIds are neither claimed nor rejected.
+   */
+  private async claimRequestIds(
+    entries: MongoLogEntry[],
+    indexes: number[],
+  ): Promise<{ claimed: number[]; rejected: RejectedWrite[] }> {
+    const claimedAt = new Date();
+    const conflicts: number[] = [];
+    const rejected: RejectedWrite[] = [];
+
+    try {
+      await this.claims().insertMany(
+        indexes.map((index) => ({
+          _id: entries[index].event.requestId,
+          state: 'pending' as const,
+          claimedAt,
+        })),
+        { ordered: false },
+      );
+    } catch (error) {
+      const writeErrors = this.bulkWriteErrors(error);
+      if (!writeErrors) {
+        throw error;
+      }
+      for (const writeError of writeErrors) {
+        const index = indexes[writeError.index];
+        if (writeError.code === DUPLICATE_KEY) {
+          conflicts.push(index);
+        } else {
+          rejected.push({
+            index,
+            code: writeError.code,
+            message: writeError.errmsg ?? (error as Error).message,
+          });
+        }
+      }
+    }
+
+    const unclaimed = new Set([
+      ...conflicts,
+      ...rejected.map(({ index }) => index),
+    ]);
+    const claimed = indexes.filter((index) => !unclaimed.has(index));
+    if (conflicts.length > 0) {
+      const resolved = await this.resolveConflicts(
+        entries,
+        conflicts,
+        claimedAt,
+      );
+      claimed.push(...resolved.claimed);
+      rejected.push(...resolved.rejected);
+    }
+    return { claimed, rejected };
+  }
+
+  /**
+   * Sort requestIds that were claimed already: stored ones are duplicates,
+   * abandoned ones are taken over, the rest are still being written by
+   * another writer and are rejected as retryable.
+   */
+  private async resolveConflicts(
+    entries: MongoLogEntry[],
+    indexes: number[],
+    now: Date,
+  ): Promise<{ claimed: number[]; rejected: RejectedWrite[] }> {
+    const existing: RequestIdClaim[] = await this.claims()
+      .find({ _id: { $in: indexes.map((i) => entries[i].event.requestId) } })
+      .toArray();
+    const claimsById = new Map<string, RequestIdClaim>(
+      existing.map((claim) => [claim._id, claim]),
+    );
+
+    const claimed: number[] = [];
+    const rejected: RejectedWrite[] = [];
+    for (const index of indexes) {
+      const requestId = entries[index].event.requestId;
+      const claim = claimsById.get(requestId);
+      if (claim?.state === 'stored') {
+        continue;
+      }
+
+      if (
+        claim &&
+        now.getTime() - claim.claimedAt.getTime() >= CLAIM_LEASE_MS &&
+        (await this.takeOverClaim(claim, now))
+      ) {
+        // The abandoned writer may have stored the event before it died
+        const stored = await this.mongoConnectionClient
+          .getCollection(this.collectionName)
+          .countDocuments({ requestId }, { limit: 1 });
+        if (stored > 0) {
+          await this.markStored([requestId]);
+        } else {
+          claimed.push(index);
+        }
+        continue;
+      }
+
+      rejected.push({
+        index,
+        code: DUPLICATE_KEY,
+        message: `requestId ${requestId} is being written by another writer`,
+      });
+    }
+    return { claimed, rejected };
+  }
+
+  private async takeOverClaim(
+    claim: RequestIdClaim,
+    now: Date,
+  ): Promise<boolean> {
+    // Matching the old claimedAt lets only one writer win the takeover
+    const result = await this.claims().updateOne(
+      { _id: claim._id, state: 'pending', claimedAt: claim.claimedAt },
+      { $set: { claimedAt: now } },
+    );
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * Drop pending claims of events that were not inserted so a retry can
+   * claim them again. If this fails too, the claims expire after
+   * CLAIM_LEASE_MS.
+   */
+  private async releaseClaims(requestIds: string[]): Promise<void> {
+    if (requestIds.length === 0) return;
+    try {
+      await this.claims().deleteMany({
+        _id: { $in: requestIds },
+        state: 'pending',
+      });
+    } catch (error) {
+      this.internalLogger.warn(
+        `Failed to release ${requestIds.length} requestId claims: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Mark claims of inserted events as stored. If this fails, a later
+   * takeover finds the events in wide_events and marks them then.
+   */
+  private async markStored(requestIds: string[]): Promise<void> {
+    if (requestIds.length === 0) return;
+    try {
+      await this.claims().updateMany(
+        { _id: { $in: requestIds } },
+        { $set: { state: 'stored' } },
+      );
+    } catch (error) {
+      this.internalLogger.warn(
+        `Failed to mark ${requestIds.length} requestId claims as stored: ${error.message}`,
+      );
+    }
+  }
+
+  private claims() {
+    return this.mongoConnectionClient.getCollection<RequestIdClaim>(
+      this.claimsCollectionName,
+    );
+  }
+
+  /**
+   * Per-document errors of a MongoBulkWriteError, or null for any other
+   * error (connection, timeout).
+   */
+  private bulkWriteErrors(error: unknown): BulkWriteErrorItem[] | null {
+    const bulkError = error as MongoBulkWriteErrorLike;
+    if (bulkError?.name !== 'MongoBulkWriteError') {
+      return null;
+    }
+    if (Array.isArray(bulkError.writeErrors)) {
+      return bulkError.writeErrors;
+    }
+    return bulkError.writeErrors ? [bulkError.writeErrors] : [];
+  }
+
+  private toDocument(
+    event: WideEvent,
+    _metadata: LoggingContext['_metadata'] | undefined,
+    _summary: string,
+  ): Document {
+    return {
       ...event,
       timestamp: new Date(event.timestamp),
       _metadata: _metadata,
       _summary: _summary,
     };
+  }
 
-    this.buffer.push(document);
-
-    // Flush immediately if buffer reaches batch size
-    if (this.buffer.length >= this.batchSize) {
-      await this.flush();
-    }
+  /**
+   * Write everything buffered now, ignoring any backoff.
+   * Waits for a write already in progress; entries a failed write puts
+   * back stay buffered.
+   */
+  async flush(): Promise<void> {
+    await this.flushing;
+    await this.writeBuffer(true);
   }
 
   /**
-   * Flush buffered events to MongoDB.
-   * Uses insertMany with ordered: false for better performance.
+   * Flush buffered events to MongoDB, one write at a time.
+   * While backing off after a failure, only a forced flush writes.
    */
-  private async flush(): Promise<void> {
-    if (this.buffer.length === 0 || this.isFlushing) {
+  private async writeBuffer(force = false): Promise<void> {
+    if (
+      this.buffer.length === 0 ||
+      this.flushing ||
+      (!force && Date.now() < this.retryAt)
+    ) {
       return;
     }
 
-    this.isFlushing = true;
+    this.flushing = this.writeBuffered();
+    try {
+      await this.flushing;
+    } finally {
+      this.flushing = null;
+    }
+  }
 
+  /**
+   * Whether a per-document write error (MongoBatchWriteResult.rejected) is
+   * transient and the document worth writing again.
+   */
+  static isRetryableWriteError(code: number | undefined): boolean {
+    return code !== undefined && RETRYABLE_WRITE_ERROR_CODES.has(code);
+  }
+
+  /**
+   * Write all buffered documents with an unordered bulk write.
+   */
+  private async writeBuffered(): Promise<void> {
     // Take all buffered documents
     const toWrite = this.buffer.splice(0, this.buffer.length);
 
     try {
-      await this.mongoConnectionClient
-        .getCollection(this.collectionName)
-        .insertMany(toWrite, {
-          ordered: false, // Continue on error, don't stop at first failure
-        });
+      const result = await this.writeBatch(toWrite.map((item) => item.entry));
+      this.consecutiveFailures = 0;
+      this.retryAt = 0;
+
+      if (result.rejected.length > 0) {
+        const isRetryable = (rejection: { code?: number }) =>
+          MongoLogger.isRetryableWriteError(rejection.code);
+        const retryable = result.rejected.filter(isRetryable);
+        const permanent = result.rejected.filter(
+          (rejection) => !isRetryable(rejection),
+        );
+
+        if (permanent.length > 0) {
+          // Rejected by the server: retrying or spooling would not help
+          this.lostCount.rejected += permanent.length;
+          this.internalLogger.error(
+            `MongoDB rejected ${permanent.length}/${toWrite.length} logs: ${permanent[0].message}`,
+          );
+        }
+        // MongoDB is reachable, but the rejected documents back off by
+        // their own retry count rather than being retried right away
+        const attempts = await this.requeue(
+          retryable.map((rejection) => toWrite[rejection.index]),
+        );
+        if (attempts > 0) {
+          const delayMs = this.retryPolicy.delayFor(attempts);
+          this.retryAt = Date.now() + delayMs;
+          this.internalLogger.warn(
+            `Retrying ${retryable.length} rejected logs in ${delayMs}ms`,
+          );
+        }
+      }
     } catch (error: any) {
       // Log error but don't throw - logging should not break the application
+      this.consecutiveFailures++;
+      const delayMs = this.retryPolicy.delayFor(this.consecutiveFailures);
+      this.retryAt = Date.now() + delayMs;
       this.internalLogger.error(
-        `Failed to persist ${toWrite.length} logs to MongoDB: ${error.message}`,
+        `Failed to persist ${toWrite.length} logs to MongoDB: ${error.message} (retrying in ${delayMs}ms)`,
       );
 
-      // Optionally: Could implement retry logic or dead-letter queue here
-    } finally {
-      this.isFlushing = false;
+      await this.requeue(toWrite);
+    }
+  }
+
+  /**
+   * Put failed entries back at the front of the buffer. Entries out of
+   * retries are spooled (connection-level failures are worth replaying) or
+   * counted as lost. Returns the highest attempt count among the entries
+   * put back (0 if none).
+   */
+  private async requeue(failed: QueuedEntry[]): Promise<number> {
+    const retry: QueuedEntry[] = [];
+    const exhausted: QueuedEntry[] = [];
+    for (const item of failed) {
+      item.attempts++;
+      (this.retryPolicy.canRetry(item.attempts) ? retry : exhausted).push(item);
+    }
+
+    if (retry.length > 0) {
+      this.retriedCount += retry.length;
+      this.buffer.unshift(...retry);
+      this.enforceBufferBound();
+    }
+    if (exhausted.length > 0) {
+      await this.giveUp(exhausted);
+    }
+    return Math.max(0, ...retry.map((item) => item.attempts));
+  }
+
+  private async giveUp(items: QueuedEntry[]): Promise<void> {
+    const spooled = this.spool
+      ? await this.spoolAll(items.map((item) => item.entry))
+      : 0;
+    const lost = items.length - spooled;
+    if (lost > 0) {
+      this.lostCount.exhausted += lost;
+      this.internalLogger.error(
+        `Lost ${lost} logs that could not be written to MongoDB`,
+      );
     }
   }
 
+  /**
+   * Evict entries beyond LOG_MONGO_MAX_BUFFER_SIZE: lowest priority first,
+   * newest first within a priority. Events with an error are not evicted;
+   * if nothing else is left, the newest ones beyond the bound are spooled.
+   */
+  private enforceBufferBound(): void {
+    while (this.buffer.length > this.maxBufferSize) {
+      let victim = -1;
+      for (let i = this.buffer.length - 1; i >= 0; i--) {
+        const item = this.buffer[i];
+        if (item.entry.event.error) continue;
+        if (victim === -1 || item.priority < this.buffer[victim].priority) {
+          victim = i;
+          if (item.priority === EventPriority.LOW) break;
+        }
+      }
+      if (victim === -1) {
+        const overflow = this.buffer.splice(this.maxBufferSize);
+        this.overflowSpooling = this.overflowSpooling.then(() =>
+          this.spoolOverflow(overflow),
+        );
+        return;
+      }
+
+      this.buffer.splice(victim, 1);
+      this.lostCount.evicted++;
+      if (this.lostCount.evicted % 100 === 1) {
+        this.internalLogger.warn(
+          `MongoDB log buffer full (${this.maxBufferSize}): evicted ${this.lostCount.evicted} events`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Spool error events that did not fit into the buffer; those the spool
+   * cannot take count as evicted.
+   */
+  private async spoolOverflow(items: QueuedEntry[]): Promise<void> {
+    const spooled = this.spool
+      ? await this.spoolAll(items.map((item) => item.entry))
+      : 0;
+    const lost = items.length - spooled;
+    if (lost > 0) {
+      this.lostCount.evicted += lost;
+      this.internalLogger.error(
+        `MongoDB log buffer full of error events (${this.maxBufferSize}): lost ${lost} events`,
+      );
+    }
+  }
+
+  /**
+   * Append entries to the disk spool. Returns how many were accepted.
+   */
+  private async spoolAll(items: MongoLogEntry[]): Promise<number> {
+    let spooled = 0;
+    for (const item of items) {
+      try {
+        if (await this.spool!.append(item)) spooled++;
+      } catch (error) {
+        this.internalLogger.error(`Failed to spool log: ${error.message}`);
+      }
+    }
+    this.internalLogger.warn(
+      `Spooled ${spooled}/${items.length} logs to disk for later replay`,
+    );
+    return spooled;
+  }
+
   /**
    * Start periodic flush timer.
    */
   private startFlushTimer(): void {
     this.flushTimer = setInterval(() => {
-      this.flush().catch((err) => {
+      this.writeBuffer().catch((err) => {
         this.internalLogger.error(`Periodic flush failed: ${err.message}`);
       });
     }, this.flushIntervalMs);
   }
 
   /**
-   * Cleanup on module destroy - flush remaining buffer.
+   * Cleanup on application shutdown (after ShutdownCoordinator drained the
+   * pipeline) - flush remaining buffer.
    */
-  async onModuleDestroy(): Promise<void> {
+  async onApplicationShutdown(): Promise<void> {
     // Stop the timer
     if (this.flushTimer) {
       clearInterval(this.flushTimer);
       this.flushTimer = null;
     }
 
-    // Flush remaining buffer
+    // Flush remaining buffer, once, ignoring any backoff
     if (this.buffer.length > 0) {
       this.internalLogger.log(
         `Flushing ${this.buffer.length} remaining log entries...`,
       );
       await this.flush();
     }
+
+    // No time left to retry: spool or lose what is still buffered
+    if (this.buffer.length > 0) {
+      await this.giveUp(this.buffer.splice(0, this.buffer.length));
+    }
+    await this.overflowSpooling;
   }
 
   /**
    * Get current buffer stats for monitoring.
    */
-  getBufferStats(): { bufferSize: number; batchSize: number } {
+  getBufferStats(): MongoBufferStats {
     return {
       bufferSize: this.buffer.length,
       batchSize: this.batchSize,
+      maxBufferSize: this.maxBufferSize,
+      retriedCount: this.retriedCount,
+      lostCount: { ...this.lostCount },
     };
   }
 }
@@ -0,0 +1,85 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DeadLetterPort, REDRIVE_COUNT_HEADER } from '@logging/out-ports';
+import {
+  DeadLetterMessage,
+  DeadLetterEntry,
+  DeadLetterListResult,
+} from '@logging/dtos';
+import { InMemoryQueue } from './in-memory.queue';
+
+/**
+ * InMemoryDeadLetterQueue - DeadLetterPort backed by InMemoryQueue
+ * (MQ_TYPE=memory). Dead-lettered messages sit unconsumed on the
+ * MQ_DLQ_TOPIC topic; re-drive publishes them back and removes them.
+ */
+@Injectable()
+export class InMemoryDeadLetterQueue extends DeadLetterPort {
+  private readonly topic: string;
+
+  constructor(
+    private readonly queue: InMemoryQueue,
+    private readonly configService: ConfigService,
+  ) {
+    super();
+    const logTopic =
+      this.configService.get<string>('MQ_LOG_TOPIC') || 'log-events';
+    this.topic =
+      this.configService.get<string>('MQ_DLQ_TOPIC') || `${logTopic}.dlq`;
+  }
+
+  getTopic(): string {
+    return this.topic;
+  }
+
+  async send(message: DeadLetterMessage): Promise<void> {
+    await this.queue.publish(this.topic, {
+      key: message.originalKey,
+      value: JSON.stringify(message),
+      headers: { 'x-dlq-reason': message.reason },
+    });
+  }
+
+  list(limit: number): Promise<DeadLetterListResult> {
+    return Promise.resolve({
+      topic: this.topic,
+      pending: this.queue.peek(this.topic).length,
+      entries: this.read(limit),
+    });
+  }
+
+  async redrive(limit: number): Promise<DeadLetterEntry[]> {
+    const entries = this.read(limit);
+
+    for (const entry of entries) {
+      if (entry.message) {
+        await this.queue.publish(entry.message.sourceTopic, {
+          key: entry.message.originalKey,
+          value: entry.message.originalPayload,
+          headers: {
+            [REDRIVE_COUNT_HEADER]: String(entry.message.redriveCount + 1),
+          },
+        });
+      }
+      this.queue.remove(this.topic, [entry.offset]);
+    }
+
+    return entries;
+  }
+
+  private read(limit: number): DeadLetterEntry[] {
+    return this.queue.peek(this.topic, limit).map((message) => ({
+      partition: 0,
+      offset: message.id,
+      message: this.parse(message.value ?? ''),
+    }));
+  }
+
+  private parse(value: string): DeadLetterMessage | null {
+    try {
+      return JSON.parse(value) as DeadLetterMessage;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MqConsumerPort, MqBatchHandler } from '@logging/out-ports';
+import { InMemoryQueue } from './in-memory.queue';
+
+/**
+ * InMemoryConsumer - MqConsumerPort backed by InMemoryQueue (MQ_TYPE=memory).
+ *
+ * - Polls the queue in batches of MQ_BATCH_SIZE
+ * - A queue disconnect or a handler error crashes the consumer (onCrash),
+ *   as with Kafka; unacknowledged messages are redelivered on restart
+ */
+@Injectable()
+export class InMemoryConsumer extends MqConsumerPort {
+  private readonly logger = new Logger(InMemoryConsumer.name);
+  private readonly groupId: string;
+  private readonly batchSize: number;
+  private readonly waitMs: number;
+  private running = false;
+  private loop: Promise<void> | null = null;
+
+  constructor(
+    private readonly queue: InMemoryQueue,
+    private readonly configService: ConfigService,
+  ) {
+    super();
+    this.groupId =
+      this.configService.get<string>('MQ_CONSUMER_GROUP') ||
+      'log-consumer-group';
+    this.batchSize =
+      parseInt(this.configService.get<string>('MQ_BATCH_SIZE') || '', 10) ||
+      100;
+    this.waitMs =
+      parseInt(
+        this.configService.get<string>('MQ_BATCH_TIMEOUT_MS') || '',
+        10,
+      ) || 1000;
+  }
+
+  start(
+    topic: string,
+    handler: MqBatchHandler,
+    onCrash: (error: Error) => void,
+  ): Promise<void> {
+    if (this.running) {
+      return Promise.reject(new Error('Consumer is already running'));
+    }
+    if (!this.queue.isConnected()) {
+      return Promise.reject(new Error('In-memory queue is not connected'));
+    }
+
+    this.queue.rewind(topic);
+    this.running = true;
+    this.loop = this.poll(topic, handler).catch((error) => {
+      this.running = false;
+      onCrash(error instanceof Error ? error : new Error(String(error)));
+    });
+
+    return Promise.resolve();
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    await this.loop;
+    this.loop = null;
+  }
+
+  checkAvailability(): Promise<boolean> {
+    return Promise.resolve(this.queue.isConnected());
+  }
+
+  getGroupId(): string {
+    return this.groupId;
+  }
+
+  private async poll(topic: string, handler: MqBatchHandler): Promise<void> {
+    while (this.running) {
+      const messages = await this.queue.take(
+        topic,
+        this.batchSize,
+        this.waitMs,
+      );
+      if (!this.queue.isConnected()) {
+        throw new Error('In-memory queue disconnected');
+      }
+      if (messages.length === 0 || !this.running) {
+        continue;
+      }
+
+      this.logger.debug(`Delivering ${messages.length} messages from ${topic}`);
+      await handler(
+        { topic, partition: 0, messages },
+        {
+          isActive: () => this.running && this.queue.isConnected(),
+          ack: (acked) => this.queue.ack(topic, acked),
+          heartbeat: () => Promise.resolve(),
+        },
+      );
+    }
+  }
+}
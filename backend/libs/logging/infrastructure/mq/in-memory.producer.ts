@@ -0,0 +1,50 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MqProducerPort } from '@logging/out-ports';
+import { WideEvent, LoggingContext, LogEnvelopeCodec } from '@logging/domain';
+import { InMemoryQueue } from './in-memory.queue';
+
+/**
+ * InMemoryProducer - MqProducerPort backed by InMemoryQueue (MQ_TYPE=memory).
+ * Sends the same versioned envelope as KafkaProducer, so MqConsumerService
+ * processes it unchanged.
+ */
+@Injectable()
+export class InMemoryProducer extends MqProducerPort {
+  private readonly topic: string;
+  private readonly codec = new LogEnvelopeCodec();
+
+  constructor(
+    private readonly queue: InMemoryQueue,
+    private readonly configService: ConfigService,
+  ) {
+    super();
+    this.topic = this.configService.get<string>('MQ_LOG_TOPIC') || 'log-events';
+  }
+
+  connect(): Promise<void> {
+    // Connection state is controlled by the queue (see reconnect())
+    return this.queue.isConnected()
+      ? Promise.resolve()
+      : Promise.reject(new Error('In-memory queue is not connected'));
+  }
+
+  isConnected(): boolean {
+    return this.queue.isConnected();
+  }
+
+  disconnect(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  async publish(
+    event: WideEvent,
+    metadata: LoggingContext['_metadata'],
+    summary: string,
+  ): Promise<void> {
+    await this.queue.publish(this.topic, {
+      key: event.requestId,
+      ...this.codec.encode(event, metadata, summary),
+    });
+  }
+}
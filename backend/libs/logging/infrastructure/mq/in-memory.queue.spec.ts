@@ -0,0 +1,213 @@
+import 'reflect-metadata';
+import { ConfigService } from '@nestjs/config';
+import { CircuitState, LogEnvelopeCodec, WideEvent } from '@logging/domain';
+import { LoggerPort } from '@logging/out-ports';
+import {
+  DeadLetterService,
+  LoggingModeService,
+  MqConsumerService,
+} from '@logging/service';
+import { MongoLogEntry, MongoLogger } from '../mongodb/mongo.logger';
+import { InMemoryQueue } from './in-memory.queue';
+import { InMemoryProducer } from './in-memory.producer';
+import { InMemoryConsumer } from './in-memory.consumer';
+import { InMemoryDeadLetterQueue } from './in-memory-dead-letter.queue';
+import { KafkaLogger } from './kafka.logger';
+
+const CIRCUIT_ENV = {
+  MQ_CIRCUIT_FAILURE_THRESHOLD: '2',
+  MQ_CIRCUIT_SUCCESS_THRESHOLD: '2',
+  MQ_CIRCUIT_HALF_OPEN_MAX_CALLS: '1',
+  MQ_CIRCUIT_OPEN_BACKOFF_MS: '100',
+};
+
+class RecordingLogger extends LoggerPort {
+  readonly requestIds: string[] = [];
+
+  log(event: WideEvent): Promise<void> {
+    this.requestIds.push(event.requestId);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Drives the MQ pipeline (KafkaLogger → InMemoryQueue → MqConsumerService)
+ * through the circuit breaker states with the queue's fault injection.
+ */
+describe('InMemoryQueue fault injection', () => {
+  let queue: InMemoryQueue;
+  let modeService: LoggingModeService;
+  let kafkaLogger: KafkaLogger;
+  let consumerService: MqConsumerService;
+  let fallback: RecordingLogger;
+  let stored: string[];
+  let transitions: CircuitState[];
+  const savedEnv: Record<string, string | undefined> = {};
+
+  const config = {
+    get: (key: string) =>
+      ({
+        MQ_ENABLED: 'true',
+        MQ_BATCH_SIZE: '1',
+        MQ_BATCH_TIMEOUT_MS: '10',
+        MQ_RETRY_BACKOFF_MS: '1',
+      })[key],
+  } as unknown as ConfigService;
+
+  const event = (requestId: string) =>
+    new WideEvent(
+      requestId,
+      new Date().toISOString(),
+      'payments',
+      'POST /payments',
+    );
+
+  const log = (requestId: string) => {
+    const wideEvent = event(requestId);
+    return kafkaLogger.log(wideEvent, {}, wideEvent.toSummary());
+  };
+
+  const waitFor = async (predicate: () => boolean, timeoutMs = 3000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!predicate()) {
+      if (Date.now() >= deadline) {
+        throw new Error('Timed out waiting for condition');
+      }
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  };
+
+  const waitForState = (state: CircuitState) =>
+    waitFor(() => modeService.getState() === state);
+
+  beforeEach(async () => {
+    for (const [key, value] of Object.entries(CIRCUIT_ENV)) {
+      savedEnv[key] = process.env[key];
+      process.env[key] = value;
+    }
+
+    queue = new InMemoryQueue(config);
+    modeService = new LoggingModeService();
+    fallback = new RecordingLogger();
+    stored = [];
+    transitions = [];
+    modeService.onStateChange((state) => transitions.push(state));
+
+    const mongoLogger = {
+      writeBatch: (entries: MongoLogEntry[]) => {
+        stored.push(...entries.map((entry) => entry.event.requestId));
+        return Promise.resolve({
+          inserted: entries.length,
+          duplicates: 0,
+          rejected: [],
+        });
+      },
+    } as unknown as MongoLogger;
+
+    kafkaLogger = new KafkaLogger(
+      new InMemoryProducer(queue, config),
+      fallback,
+      modeService,
+      config,
+    );
+    consumerService = new MqConsumerService(
+      new InMemoryConsumer(queue, config),
+      mongoLogger,
+      modeService,
+      new DeadLetterService(new InMemoryDeadLetterQueue(queue, config)),
+      config,
+    );
+    await consumerService.onModuleInit();
+  });
+
+  afterEach(async () => {
+    await consumerService.stop();
+    modeService.onModuleDestroy();
+    for (const [key, value] of Object.entries(savedEnv)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  });
+
+  it('should open on failed publishes and close after successful probes', async () => {
+    queue.failNextPublishes(2, 'broker out of space');
+
+    await log('req-1');
+    await log('req-2');
+
+    expect(modeService.getState()).toBe(CircuitState.OPEN);
+    expect(fallback.requestIds).toEqual(['req-1', 'req-2']);
+
+    // Open: events go direct without touching the queue
+    await log('req-3');
+    expect(fallback.requestIds).toEqual(['req-1', 'req-2', 'req-3']);
+    expect(queue.getStats().injectedFailureCount).toBe(2);
+
+    await waitForState(CircuitState.HALF_OPEN);
+    await log('req-4');
+    await log('req-5');
+
+    await waitForState(CircuitState.CLOSED);
+    expect(transitions).toEqual([
+      CircuitState.OPEN,
+      CircuitState.HALF_OPEN,
+      CircuitState.CLOSED,
+    ]);
+    await waitFor(() => stored.length === 2);
+    expect(stored).toEqual(['req-4', 'req-5']);
+  });
+
+  it('should recover from a broker outage and redeliver unacknowledged messages', async () => {
+    queue.setAckDelay(50);
+    await log('req-1');
+    await waitFor(() => stored.length === 1);
+
+    // The outage hits while req-1 is being acknowledged
+    queue.disconnect();
+    await waitForState(CircuitState.OPEN);
+    expect(queue.getStats().depth['log-events']).toBe(1);
+
+    await log('req-2');
+    expect(fallback.requestIds).toEqual(['req-2']);
+
+    queue.reconnect();
+    queue.setAckDelay(0);
+    await waitForState(CircuitState.HALF_OPEN);
+
+    // The restarted consumer redelivers req-1; its ack is the first probe
+    await log('req-3');
+    await waitForState(CircuitState.CLOSED);
+    expect(await queue.waitUntilDrained('log-events')).toBe(true);
+    expect(stored).toEqual(['req-1', 'req-1', 'req-3']);
+  });
+
+  it('should not count a restarted consumer as healthy until a batch is acknowledged', async () => {
+    modeService.trip('test');
+    await waitForState(CircuitState.OPEN);
+
+    // Pending messages while open (the producer side is bypassed)
+    const codec = new LogEnvelopeCodec();
+    for (const requestId of ['req-1', 'req-2']) {
+      await queue.publish('log-events', {
+        key: requestId,
+        ...codec.encode(event(requestId), {}, 'summary'),
+      });
+    }
+    queue.setAckDelay(200);
+
+    await waitForState(CircuitState.HALF_OPEN);
+    await waitFor(() => stored.length === 1);
+    // Consumer started and stored req-1, but nothing is acknowledged yet
+    expect(modeService.getState()).toBe(CircuitState.HALF_OPEN);
+    expect(modeService.getStats().halfOpenSuccesses).toBe(0);
+
+    await waitFor(() => modeService.getStats().halfOpenSuccesses === 1);
+    expect(modeService.getState()).toBe(CircuitState.HALF_OPEN);
+
+    await waitForState(CircuitState.CLOSED);
+    expect(queue.getStats().ackedCount).toBe(2);
+  });
+});
@@ -0,0 +1,276 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MqMessage } from '@logging/out-ports';
+
+/**
+ * Messages of one topic. `entries` holds everything not yet acknowledged,
+ * in publish order; the first `delivered` of them are with the consumer.
+ */
+interface TopicState {
+  entries: MqMessage[];
+  delivered: number;
+  waiters: Set<() => void>;
+}
+
+/**
+ * Statistics for the in-memory broker.
+ */
+export interface InMemoryQueueStats {
+  connected: boolean;
+  capacity: number;
+  /** Unacknowledged messages per topic (delivered or not) */
+  depth: Record<string, number>;
+  publishedCount: number;
+  ackedCount: number;
+  /** Publishes rejected because the queue was full */
+  rejectedCount: number;
+  /** Publishes failed by injected faults */
+  injectedFailureCount: number;
+}
+
+/**
+ * InMemoryQueue - In-process message broker for development and tests
+ * (MQ_TYPE=memory), used by InMemoryProducer, InMemoryConsumer and
+ * InMemoryDeadLetterQueue.
+ *
+ * - At most MQ_MEMORY_CAPACITY unacknowledged messages per topic; publishing
+ *   beyond that fails like a broker that is out of space
+ * - Single consumer group: messages delivered but not acknowledged are
+ *   redelivered once the consumer restarts (rewind())
+ * - Fault injection, so the MQ circuit breaker and its half-open
+ *   recovery can be driven deterministically:
+ *   - disconnect()/reconnect() - broker outage (running consumers crash)
+ *   - failNextPublishes(n) - the next n publishes reject
+ *   - setAckDelay(ms) - slow acknowledgements
+ */
+@Injectable()
+export class InMemoryQueue {
+  private readonly logger = new Logger(InMemoryQueue.name);
+  private readonly capacity: number;
+  private readonly topics = new Map<string, TopicState>();
+  private connected = true;
+  private nextId = 0;
+
+  private failPublishCount = 0;
+  private failPublishError = 'Injected publish failure';
+  private ackDelayMs = 0;
+
+  private publishedCount = 0;
+  private ackedCount = 0;
+  private rejectedCount = 0;
+  private injectedFailureCount = 0;
+
+  constructor(private readonly configService: ConfigService) {
+    this.capacity =
+      parseInt(
+        this.configService.get<string>('MQ_MEMORY_CAPACITY') || '',
+        10,
+      ) || 10000;
+  }
+
+  /**
+   * Append a message to a topic. Rejects when disconnected, full or when
+   * a publish failure was injected.
+   */
+  publish(topic: string, message: Omit<MqMessage, 'id'>): Promise<MqMessage> {
+    if (!this.connected) {
+      return Promise.reject(new Error('In-memory queue is not connected'));
+    }
+    if (this.failPublishCount > 0) {
+      this.failPublishCount--;
+      this.injectedFailureCount++;
+      return Promise.reject(new Error(this.failPublishError));
+    }
+
+    const state = this.getTopic(topic);
+    if (state.entries.length >= this.capacity) {
+      this.rejectedCount++;
+      return Promise.reject(
+        new Error(
+          `In-memory queue is full (topic: ${topic}, capacity: ${this.capacity})`,
+        ),
+      );
+    }
+
+    const stored: MqMessage = { ...message, id: String(this.nextId++) };
+    state.entries.push(stored);
+    this.publishedCount++;
+    this.wake(state);
+
+    return Promise.resolve(stored);
+  }
+
+  /**
+   * Deliver up to `limit` messages not yet handed out, waiting up to
+   * `waitMs` for at least one. Returns [] on timeout or disconnect.
+   */
+  async take(
+    topic: string,
+    limit: number,
+    waitMs: number,
+  ): Promise<MqMessage[]> {
+    const state = this.getTopic(topic);
+
+    if (this.connected && state.delivered >= state.entries.length) {
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          clearTimeout(timer);
+          state.waiters.delete(done);
+          resolve();
+        };
+        const timer = setTimeout(done, waitMs);
+        state.waiters.add(done);
+      });
+    }
+
+    if (!this.connected) {
+      return [];
+    }
+
+    const messages = state.entries.slice(
+      state.delivered,
+      state.delivered + limit,
+    );
+    state.delivered += messages.length;
+    return messages;
+  }
+
+  /**
+   * Acknowledge delivered messages (after the injected ack delay).
+   */
+  async ack(topic: string, messages: MqMessage[]): Promise<void> {
+    if (this.ackDelayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.ackDelayMs));
+    }
+    if (!this.connected) {
+      throw new Error('In-memory queue is not connected');
+    }
+
+    const state = this.getTopic(topic);
+    const ids = new Set(messages.map((message) => message.id));
+    const before = state.entries.length;
+    const deliveredAcked = state.entries
+      .slice(0, state.delivered)
+      .filter((entry) => ids.has(entry.id)).length;
+
+    state.entries = state.entries.filter((entry) => !ids.has(entry.id));
+    state.delivered -= deliveredAcked;
+    this.ackedCount += before - state.entries.length;
+  }
+
+  /**
+   * Hand delivered-but-unacknowledged messages out again (consumer restart).
+   */
+  rewind(topic: string): void {
+    this.getTopic(topic).delivered = 0;
+  }
+
+  /**
+   * Unacknowledged messages of a topic, oldest first (without delivering).
+   */
+  peek(topic: string, limit?: number): MqMessage[] {
+    const { entries } = this.getTopic(topic);
+    return limit === undefined ? [...entries] : entries.slice(0, limit);
+  }
+
+  /**
+   * Remove unacknowledged messages without delivering them.
+   */
+  remove(topic: string, ids: string[]): void {
+    const state = this.getTopic(topic);
+    const removed = new Set(ids);
+    state.delivered -= state.entries
+      .slice(0, state.delivered)
+      .filter((entry) => removed.has(entry.id)).length;
+    state.entries = state.entries.filter((entry) => !removed.has(entry.id));
+  }
+
+  /**
+   * Resolves once every message of the topic has been acknowledged
+   * (or after `timeoutMs`, returning false).
+   */
+  async waitUntilDrained(topic: string, timeoutMs = 5000): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    while (this.getTopic(topic).entries.length > 0) {
+      if (Date.now() >= deadline) {
+        return false;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    return true;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Simulate a broker outage.
+   */
+  disconnect(): void {
+    if (!this.connected) return;
+    this.connected = false;
+    this.logger.warn('In-memory queue disconnected');
+    this.topics.forEach((state) => this.wake(state));
+  }
+
+  reconnect(): void {
+    if (this.connected) return;
+    this.connected = true;
+    this.logger.log('In-memory queue reconnected');
+  }
+
+  /**
+   * Make the next `count` publishes reject with `message`.
+   */
+  failNextPublishes(count = 1, message = 'Injected publish failure'): void {
+    this.failPublishCount = count;
+    this.failPublishError = message;
+  }
+
+  /**
+   * Delay every acknowledgement by `ms` (0 disables).
+   */
+  setAckDelay(ms: number): void {
+    this.ackDelayMs = Math.max(0, ms);
+  }
+
+  /**
+   * Clear injected faults and reconnect.
+   */
+  resetFaults(): void {
+    this.failPublishCount = 0;
+    this.ackDelayMs = 0;
+    this.reconnect();
+  }
+
+  getStats(): InMemoryQueueStats {
+    const depth: Record<string, number> = {};
+    this.topics.forEach((state, topic) => {
+      depth[topic] = state.entries.length;
+    });
+
+    return {
+      connected: this.connected,
+      capacity: this.capacity,
+      depth,
+      publishedCount: this.publishedCount,
+      ackedCount: this.ackedCount,
+      rejectedCount: this.rejectedCount,
+      injectedFailureCount: this.injectedFailureCount,
+    };
+  }
+
+  private getTopic(topic: string): TopicState {
+    let state = this.topics.get(topic);
+    if (!state) {
+      state = { entries: [], delivered: 0, waiters: new Set() };
+      this.topics.set(topic, state);
+    }
+    return state;
+  }
+
+  private wake(state: TopicState): void {
+    Array.from(state.waiters).forEach((waiter) => waiter());
+  }
+}
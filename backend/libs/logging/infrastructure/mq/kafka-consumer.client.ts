@@ -2,10 +2,10 @@ import {
   Injectable,
   Logger,
   OnModuleInit,
-  OnModuleDestroy,
+  OnApplicationShutdown,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Kafka, Consumer, logLevel } from 'kafkajs';
+import { Kafka, Consumer, Admin, logLevel } from 'kafkajs';
 import * as net from 'net';
 
 /**
@@ -19,15 +19,18 @@ import * as net from 'net';
  * Pattern: Lazy Lifecycle Management
  * - Consumer is created only when needed (createAndConnect).
  * - Completely destroyed when Kafka fails (destroy).
- * - Watchdog operates completely independently of the Consumer, checking only broker availability.
+ * - Recovery is decided by the MQ circuit breaker (LoggingModeService), which recreates the Consumer when half-open.
  */
 @Injectable()
-export class KafkaConsumerClient implements OnModuleInit, OnModuleDestroy {
+export class KafkaConsumerClient
+  implements OnModuleInit, OnApplicationShutdown
+{
   private readonly logger = new Logger(KafkaConsumerClient.name);
   private kafka: Kafka;
   private consumer: Consumer | null = null;
   private readonly broker: string;
   private readonly groupId: string;
+  private readonly maxWaitTimeInMs: number;
 
   constructor(private readonly configService: ConfigService) {
     this.broker =
@@ -35,6 +38,11 @@ export class KafkaConsumerClient implements OnModuleInit, OnModuleDestroy {
     this.groupId =
       this.configService.get<string>('MQ_CONSUMER_GROUP') ||
       'log-consumer-group';
+    // Upper bound on how long a fetch waits to fill a batch
+    this.maxWaitTimeInMs = parseInt(
+      this.configService.get<string>('MQ_BATCH_TIMEOUT_MS') || '1000',
+      10,
+    );
 
     this.kafka = new Kafka({
       clientId: 'log-consumer-service',
@@ -52,7 +60,7 @@ export class KafkaConsumerClient implements OnModuleInit, OnModuleDestroy {
     this.logger.log('Kafka Consumer client ready (lazy initialization)');
   }
 
-  async onModuleDestroy(): Promise<void> {
+  async onApplicationShutdown(): Promise<void> {
     await this.destroy();
   }
 
@@ -75,6 +83,7 @@ export class KafkaConsumerClient implements OnModuleInit, OnModuleDestroy {
       groupId: this.groupId,
       sessionTimeout: 30000,
       heartbeatInterval: 3000,
+      maxWaitTimeInMs: this.maxWaitTimeInMs,
     });
 
     const { CONNECT, DISCONNECT } = this.consumer.events;
@@ -144,7 +153,7 @@ export class KafkaConsumerClient implements OnModuleInit, OnModuleDestroy {
    *  Check Kafka broker availability via TCP.
    *
    * This method operates completely independently of the Consumer.
-   * The Watchdog uses this method to check broker availability only.
+   * Reachability only; it does not prove that consuming works.
    */
   async checkBrokerAvailability(): Promise<boolean> {
     return new Promise((resolve) => {
@@ -170,6 +179,28 @@ export class KafkaConsumerClient implements OnModuleInit, OnModuleDestroy {
     });
   }
 
+  /**
+   * Creates a connected, standalone Consumer for the given group.
+   * Not tracked by this client: the caller must disconnect it.
+   * Used for short-lived reads (e.g. dead-letter inspection).
+   */
+  async createStandaloneConsumer(groupId: string): Promise<Consumer> {
+    const consumer = this.kafka.consumer({
+      groupId,
+      sessionTimeout: 30000,
+      heartbeatInterval: 3000,
+    });
+    await consumer.connect();
+    return consumer;
+  }
+
+  /**
+   * Creates an Admin client. The caller must connect and disconnect it.
+   */
+  createAdmin(): Admin {
+    return this.kafka.admin();
+  }
+
   /**
    * Returns the configured consumer group ID.
    */
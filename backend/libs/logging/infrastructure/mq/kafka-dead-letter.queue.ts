@@ -0,0 +1,287 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { Admin } from 'kafkajs';
+import { DeadLetterPort, REDRIVE_COUNT_HEADER } from '@logging/out-ports';
+import {
+  DeadLetterMessage,
+  DeadLetterEntry,
+  DeadLetterListResult,
+} from '@logging/dtos';
+import { KafkaProducerClient } from './kafka-producer.client';
+import { KafkaConsumerClient } from './kafka-consumer.client';
+
+interface PendingRange {
+  partition: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * KafkaDeadLetterQueue - Kafka implementation of DeadLetterPort.
+ *
+ * - Failed messages are published to MQ_DLQ_TOPIC (default `<MQ_LOG_TOPIC>.dlq`)
+ * - Re-drive progress is tracked as committed offsets of a dedicated
+ *   consumer group (`<MQ_CONSUMER_GROUP>-dlq-redrive`) that never runs;
+ *   everything after its committed offset is "pending"
+ * - Reads use a short-lived consumer that seeks to the pending range and
+ *   never commits, so listing has no side effects
+ */
+@Injectable()
+export class KafkaDeadLetterQueue extends DeadLetterPort {
+  private readonly logger = new Logger(KafkaDeadLetterQueue.name);
+  private readonly topic: string;
+  private readonly redriveGroupId: string;
+  private readonly readTimeoutMs: number;
+
+  constructor(
+    private readonly kafkaProducerClient: KafkaProducerClient,
+    private readonly kafkaConsumerClient: KafkaConsumerClient,
+    private readonly configService: ConfigService,
+  ) {
+    super();
+    const logTopic =
+      this.configService.get<string>('MQ_LOG_TOPIC') || 'log-events';
+    this.topic =
+      this.configService.get<string>('MQ_DLQ_TOPIC') || `${logTopic}.dlq`;
+    this.redriveGroupId = `${this.kafkaConsumerClient.getGroupId()}-dlq-redrive`;
+    this.readTimeoutMs =
+      parseInt(
+        this.configService.get<string>('MQ_DLQ_READ_TIMEOUT_MS') || '',
+        10,
+      ) || 5000;
+  }
+
+  getTopic(): string {
+    return this.topic;
+  }
+
+  async send(message: DeadLetterMessage): Promise<void> {
+    const producer = this.kafkaProducerClient.getProducer();
+    await producer.send({
+      topic: this.topic,
+      messages: [
+        {
+          key: message.originalKey,
+          value: JSON.stringify(message),
+          headers: {
+            'x-dlq-reason': message.reason,
+            'x-dlq-attempts': String(message.attempts),
+          },
+        },
+      ],
+    });
+  }
+
+  async list(limit: number): Promise<DeadLetterListResult> {
+    const admin = this.kafkaConsumerClient.createAdmin();
+    await admin.connect();
+
+    try {
+      const ranges = await this.getPendingRanges(admin);
+      const pending = ranges.reduce(
+        (sum, range) => sum + (range.end - range.start),
+        0,
+      );
+      const entries =
+        pending > 0 ? await this.readRanges(admin, ranges, limit) : [];
+
+      return { topic: this.topic, pending, entries };
+    } finally {
+      await admin.disconnect();
+    }
+  }
+
+  async redrive(limit: number): Promise<DeadLetterEntry[]> {
+    const producer = this.kafkaProducerClient.getProducer();
+    const admin = this.kafkaConsumerClient.createAdmin();
+    await admin.connect();
+
+    try {
+      const ranges = await this.getPendingRanges(admin);
+      if (ranges.length === 0) {
+        return [];
+      }
+      const entries = await this.readRanges(admin, ranges, limit);
+      if (entries.length === 0) {
+        return [];
+      }
+
+      const byTopic = new Map<
+        string,
+        { key: string | null; value: string; headers: Record<string, string> }[]
+      >();
+      for (const entry of entries) {
+        if (!entry.message) continue;
+        const messages = byTopic.get(entry.message.sourceTopic) ?? [];
+        messages.push({
+          key: entry.message.originalKey,
+          value: entry.message.originalPayload,
+          headers: {
+            [REDRIVE_COUNT_HEADER]: String(entry.message.redriveCount + 1),
+          },
+        });
+        byTopic.set(entry.message.sourceTopic, messages);
+      }
+
+      if (byTopic.size > 0) {
+        await producer.sendBatch({
+          topicMessages: Array.from(byTopic.entries()).map(
+            ([topic, messages]) => ({ topic, messages }),
+          ),
+        });
+      }
+
+      // Advance the re-drive group past everything processed (entries are
+      // contiguous per partition, so the last offset is the new position)
+      const lastOffsets = new Map<number, number>();
+      for (const entry of entries) {
+        lastOffsets.set(entry.partition, Number(entry.offset));
+      }
+      await admin.setOffsets({
+        groupId: this.redriveGroupId,
+        topic: this.topic,
+        partitions: Array.from(lastOffsets.entries()).map(
+          ([partition, offset]) => ({
+            partition,
+            offset: String(offset + 1),
+          }),
+        ),
+      });
+
+      return entries;
+    } finally {
+      await admin.disconnect();
+    }
+  }
+
+  /**
+   * Offsets between the re-drive group's position and the end of each partition.
+   */
+  private async getPendingRanges(admin: Admin): Promise<PendingRange[]> {
+    const topics = await admin.listTopics();
+    if (!topics.includes(this.topic)) {
+      return [];
+    }
+
+    const [topicOffsets, groupOffsets] = await Promise.all([
+      admin.fetchTopicOffsets(this.topic),
+      admin.fetchOffsets({
+        groupId: this.redriveGroupId,
+        topics: [this.topic],
+      }),
+    ]);
+
+    const committed = new Map<number, number>();
+    for (const partition of groupOffsets[0]?.partitions ?? []) {
+      committed.set(partition.partition, Number(partition.offset));
+    }
+
+    return topicOffsets
+      .map((partition) => {
+        const low = Number(partition.low);
+        const position = committed.get(partition.partition) ?? -1;
+        return {
+          partition: partition.partition,
+          start: Math.max(low, position),
+          end: Number(partition.high),
+        };
+      })
+      .filter((range) => range.start < range.end);
+  }
+
+  /**
+   * Read up to `limit` messages from the given ranges, in offset order per
+   * partition, using a throwaway consumer group that never commits.
+   */
+  private async readRanges(
+    admin: Admin,
+    ranges: PendingRange[],
+    limit: number,
+  ): Promise<DeadLetterEntry[]> {
+    const groupId = `${this.redriveGroupId}-reader-${randomUUID()}`;
+    const consumer =
+      await this.kafkaConsumerClient.createStandaloneConsumer(groupId);
+
+    const next = new Map(ranges.map((range) => [range.partition, range.start]));
+    const end = new Map(ranges.map((range) => [range.partition, range.end]));
+    const entries: DeadLetterEntry[] = [];
+
+    const isDone = () =>
+      entries.length >= limit ||
+      ranges.every((range) => (next.get(range.partition) ?? 0) >= range.end);
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, this.readTimeoutMs);
+        const finish = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+
+        consumer
+          .subscribe({ topic: this.topic, fromBeginning: true })
+          .then(() =>
+            consumer.run({
+              autoCommit: false,
+              eachMessage: async ({ partition, message }) => {
+                const offset = Number(message.offset);
+                const expected = next.get(partition);
+                if (
+                  expected === undefined ||
+                  offset < expected ||
+                  offset >= (end.get(partition) ?? 0) ||
+                  entries.length >= limit
+                ) {
+                  return;
+                }
+
+                entries.push({
+                  partition,
+                  offset: message.offset,
+                  message: this.parse(message.value?.toString() ?? ''),
+                });
+                next.set(partition, offset + 1);
+
+                if (isDone()) finish();
+              },
+            }),
+          )
+          .then(() => {
+            for (const range of ranges) {
+              consumer.seek({
+                topic: this.topic,
+                partition: range.partition,
+                offset: String(range.start),
+              });
+            }
+          })
+          .catch((error) => {
+            clearTimeout(timer);
+            reject(error instanceof Error ? error : new Error(String(error)));
+          });
+      });
+    } finally {
+      await consumer.disconnect();
+      await admin.deleteGroups([groupId]).catch((error) => {
+        this.logger.debug(
+          `Failed to delete reader group ${groupId}: ${error.message}`,
+        );
+      });
+    }
+
+    // Keep entries contiguous per partition and in offset order
+    return entries.sort(
+      (a, b) =>
+        a.partition - b.partition || Number(a.offset) - Number(b.offset),
+    );
+  }
+
+  private parse(value: string): DeadLetterMessage | null {
+    try {
+      return JSON.parse(value) as DeadLetterMessage;
+    } catch {
+      return null;
+    }
+  }
+}
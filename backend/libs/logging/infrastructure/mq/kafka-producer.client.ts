@@ -2,7 +2,7 @@ import {
   Injectable,
   Logger,
   OnModuleInit,
-  OnModuleDestroy,
+  OnApplicationShutdown,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Kafka, Producer, logLevel } from 'kafkajs';
@@ -14,17 +14,19 @@ import * as net from 'net';
  * Actual publish operations are delegated to adapters that use this client instance.
  *
  * Pattern: Follows the same pattern as VoyageClient and GeminiClient.
+ * Reconnecting after an outage is driven by the MQ circuit breaker
+ * (LoggingModeService): half-open probes call connect() through KafkaLogger.
  */
 @Injectable()
-export class KafkaProducerClient implements OnModuleInit, OnModuleDestroy {
+export class KafkaProducerClient
+  implements OnModuleInit, OnApplicationShutdown
+{
   private readonly logger = new Logger(KafkaProducerClient.name);
   private kafka: Kafka;
   private producer: Producer;
   private readonly broker: string;
   private isConnected = false;
-  private watchdogTimer: NodeJS.Timeout | null = null;
-  private consecutiveSuccessCount = 0;
-  private readonly STABILITY_THRESHOLD = 3;
+  private readonly beforeDisconnectHooks: (() => Promise<void>)[] = [];
 
   constructor(private readonly configService: ConfigService) {
     this.broker =
@@ -54,7 +56,6 @@ export class KafkaProducerClient implements OnModuleInit, OnModuleDestroy {
     this.producer.on(DISCONNECT, () => {
       this.isConnected = false;
       this.logger.warn('Kafka Producer disconnected');
-      this.startWatchdog();
     });
 
     this.logger.log(
@@ -75,56 +76,16 @@ export class KafkaProducerClient implements OnModuleInit, OnModuleDestroy {
       await this.connect();
     } catch (error) {
       this.logger.warn(
-        `Kafka Broker(${this.broker}) unavailable at startup. Operating in fallback mode. Error: ${error.message}`,
+        `Kafka Broker(${this.broker}) unavailable at startup. Operating in fallback mode until the MQ circuit reconnects. Error: ${error.message}`,
       );
       this.isConnected = false;
-      this.startWatchdog();
     }
   }
 
-  async onModuleDestroy(): Promise<void> {
-    this.stopWatchdog();
+  async onApplicationShutdown(): Promise<void> {
     await this.disconnect();
   }
 
-  private startWatchdog(): void {
-    if (this.watchdogTimer) return;
-    this.consecutiveSuccessCount = 0;
-
-    this.watchdogTimer = setInterval(async () => {
-      try {
-        const isAvailable = await this.checkBrokerAvailability();
-        if (isAvailable) {
-          this.consecutiveSuccessCount++;
-          this.logger.debug(
-            `Watchdog: Kafka available (${this.consecutiveSuccessCount}/${this.STABILITY_THRESHOLD})`,
-          );
-
-          if (this.consecutiveSuccessCount >= this.STABILITY_THRESHOLD) {
-            this.logger.log(
-              'Watchdog: Kafka Broker is stable. Reconnecting...',
-            );
-            this.consecutiveSuccessCount = 0;
-            await this.connect();
-            this.stopWatchdog();
-          }
-        } else {
-          this.consecutiveSuccessCount = 0;
-          this.logger.debug('Watchdog: Kafka Broker is still offline.');
-        }
-      } catch (error) {
-        this.consecutiveSuccessCount = 0;
-      }
-    }, 30000);
-  }
-
-  private stopWatchdog(): void {
-    if (this.watchdogTimer) {
-      clearInterval(this.watchdogTimer);
-      this.watchdogTimer = null;
-    }
-  }
-
   /**
    * Connect to Kafka broker.
    */
@@ -146,10 +107,28 @@ export class KafkaProducerClient implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Register work to run before the producer disconnects
+   * (e.g. flushing buffered messages).
+   */
+  onBeforeDisconnect(hook: () => Promise<void>): void {
+    this.beforeDisconnectHooks.push(hook);
+  }
+
   /**
    * Disconnect from Kafka broker.
    */
   async disconnect(): Promise<void> {
+    for (const hook of this.beforeDisconnectHooks) {
+      try {
+        await hook();
+      } catch (error) {
+        this.logger.error(
+          `Error before disconnecting from Kafka: ${error.message}`,
+        );
+      }
+    }
+
     if (!this.isConnected) {
       return;
     }
@@ -228,7 +207,6 @@ export class KafkaProducerClient implements OnModuleInit, OnModuleDestroy {
       this.logger.warn(
         'Kafka Producer status updated to disconnected after health check',
       );
-      this.startWatchdog();
     }
     return isAvailable;
   }
@@ -0,0 +1,133 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Consumer, EachBatchPayload, IHeaders, KafkaMessage } from 'kafkajs';
+import { MqConsumerPort, MqBatchHandler, MqMessage } from '@logging/out-ports';
+import { KafkaConsumerClient } from './kafka-consumer.client';
+
+/**
+ * KafkaConsumer - Kafka implementation of MqConsumerPort.
+ *
+ * - Runs eachBatch with autoCommit off; ack() commits the offset after the
+ *   last acknowledged message, so unacknowledged messages are redelivered
+ * - KafkaJS auto-restart is disabled: a failed batch crashes the consumer
+ *   and recovery is left to the caller (MqConsumerService's state machine)
+ *
+ * This adapter uses KafkaConsumerClient for the consumer lifecycle.
+ */
+@Injectable()
+export class KafkaConsumer extends MqConsumerPort {
+  private readonly logger = new Logger(KafkaConsumer.name);
+  private consumer: Consumer | null = null;
+
+  constructor(private readonly kafkaConsumerClient: KafkaConsumerClient) {
+    super();
+  }
+
+  async start(
+    topic: string,
+    handler: MqBatchHandler,
+    onCrash: (error: Error) => void,
+  ): Promise<void> {
+    if (this.consumer) {
+      throw new Error('Consumer is already running');
+    }
+
+    const consumer = await this.kafkaConsumerClient.createAndConnect();
+    this.consumer = consumer;
+
+    await consumer.subscribe({ topic, fromBeginning: false });
+
+    // eachBatch threw: the uncommitted batch is redelivered once the
+    // consumer is recreated
+    consumer.on(consumer.events.CRASH, ({ payload }) => {
+      onCrash(payload.error);
+    });
+
+    consumer
+      .run({
+        // Offsets are committed manually, only when the handler acks
+        autoCommit: false,
+        eachBatchAutoResolve: false,
+        eachBatch: async (payload: EachBatchPayload) => {
+          const { batch } = payload;
+          await handler(
+            {
+              topic: batch.topic,
+              partition: batch.partition,
+              messages: batch.messages.map((message) =>
+                this.toMqMessage(message),
+              ),
+            },
+            {
+              isActive: () => payload.isRunning() && !payload.isStale(),
+              ack: async (messages) => {
+                if (messages.length === 0) return;
+                const lastOffset = messages[messages.length - 1].id;
+                await consumer.commitOffsets([
+                  {
+                    topic: batch.topic,
+                    partition: batch.partition,
+                    offset: (BigInt(lastOffset) + 1n).toString(),
+                  },
+                ]);
+                payload.resolveOffset(lastOffset);
+              },
+              heartbeat: () => payload.heartbeat(),
+            },
+          );
+        },
+        // Disable KafkaJS auto-restart - the caller handles recovery
+        restartOnFailure: async (error: Error) => {
+          this.logger.warn(
+            `Consumer error: ${error.message}. Disabling KafkaJS auto-restart.`,
+          );
+          return false;
+        },
+      } as any) // Type assertion: restartOnFailure is supported in KafkaJS but may not be in TypeScript types yet
+      .catch((error) => {
+        onCrash(error instanceof Error ? error : new Error(String(error)));
+      });
+  }
+
+  async stop(): Promise<void> {
+    if (this.consumer) {
+      try {
+        // Waits for the in-flight eachBatch; unacked messages are redelivered
+        await this.consumer.stop();
+      } catch (error) {
+        this.logger.warn(`Error stopping consumer: ${error.message}`);
+      }
+    }
+
+    // Also cleans up a consumer whose start() failed part-way
+    await this.kafkaConsumerClient.destroy();
+    this.consumer = null;
+  }
+
+  checkAvailability(): Promise<boolean> {
+    return this.kafkaConsumerClient.checkBrokerAvailability();
+  }
+
+  getGroupId(): string {
+    return this.kafkaConsumerClient.getGroupId();
+  }
+
+  private toMqMessage(message: KafkaMessage): MqMessage {
+    return {
+      id: message.offset,
+      key: message.key?.toString() ?? null,
+      value: message.value?.toString() ?? null,
+      headers: this.toHeaders(message.headers),
+    };
+  }
+
+  private toHeaders(headers: IHeaders | undefined): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers ?? {})) {
+      const raw = Array.isArray(value) ? value[0] : value;
+      if (raw !== undefined) {
+        result[name] = raw.toString();
+      }
+    }
+    return result;
+  }
+}
@@ -1,36 +1,56 @@
 import { Injectable, Logger, Optional, Inject } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { LoggerPort } from '@logging/out-ports';
-import { WideEvent, LoggingContext } from '@logging/domain';
-import { LoggingMode } from '../../core/domain/logging-mode.enum';
-import { MqProducerPort } from '@logging/out-ports';
+import { WideEvent, LoggingContext, CircuitState } from '@logging/domain';
+import { MqProducerPort, LogSpoolPort } from '@logging/out-ports';
 import { LoggingModeService } from '@logging/service';
 
+/**
+ * Statistics for KafkaLogger.
+ */
+export interface KafkaLoggerStats {
+  /** Events neither Kafka, the fallback logger nor the spool accepted, by reason */
+  lostCount: {
+    /** No spool configured */
+    noSpool: number;
+    /** The spool was full */
+    spoolFull: number;
+    /** Appending to the spool failed */
+    spoolFailed: number;
+  };
+}
+
 /**
  * KafkaLogger - LoggerPort wrapper that publishes to Kafka instead of directly logging.
  *
  * Core Philosophy:
- * - The status machine (LoggingModeService) determines the logging mode.
+ * - The circuit breaker (LoggingModeService) determines the logging mode.
  * - KAFKA MODE: Asynchronous logging via Kafka Producer
  * - DIRECT MODE: Direct logging to MongoDB (Fallback if Kafka fails)
+ * - Every publish outcome is reported to the breaker; while half-open,
+ *   the few publishes it lets through are the recovery probes
  *
  * This adapter decouples logging from application performance by:
  * 1. Publishing events to Kafka (non-blocking)
  * 2. Falling back to direct logging if Kafka is unavailable
  *
  * The actual persistence is handled by MqConsumerService in the background.
+ * Events that neither Kafka nor the fallback accepts go to the disk spool
+ * (if configured) and are replayed by SpoolReplayService.
  */
 @Injectable()
 export class KafkaLogger extends LoggerPort {
   private readonly logger = new Logger(KafkaLogger.name);
   private readonly mqEnabled: boolean;
   private readonly fallbackLogger: LoggerPort | undefined;
+  private readonly lostCount = { noSpool: 0, spoolFull: 0, spoolFailed: 0 };
 
   constructor(
     private readonly mqProducer: MqProducerPort,
     @Optional() @Inject(LoggerPort) fallbackLogger: LoggerPort | undefined,
     private readonly loggingModeService: LoggingModeService,
     private readonly configService: ConfigService,
+    @Optional() private readonly spool?: LogSpoolPort,
   ) {
     super();
     this.mqEnabled = this.configService.get<string>('MQ_ENABLED') === 'true';
@@ -51,7 +71,7 @@ export class KafkaLogger extends LoggerPort {
     // If MQ is disabled, use the fallback logger
     if (!this.mqEnabled) {
       if (this.fallbackLogger) {
-        return this.fallbackLogger.log(event, _metadata, _summary);
+        return this.logToFallback(event, _metadata, _summary);
       }
       this.logger.warn(
         'MQ disabled and no fallback logger available. Log dropped.',
@@ -59,57 +79,113 @@ export class KafkaLogger extends LoggerPort {
       return;
     }
 
-    // Check the status machine
-    const mode = this.loggingModeService.getMode();
-
-    if (mode === LoggingMode.DIRECT) {
+    // Ask the circuit breaker; while half-open only probe publishes pass
+    if (!this.loggingModeService.allowPublish()) {
       // DIRECT MODE: Use the fallback logger immediately
       if (this.fallbackLogger) {
-        return this.fallbackLogger.log(event, _metadata, _summary);
+        return this.logToFallback(event, _metadata, _summary);
       }
-      this.logger.warn('DIRECT mode but no fallback logger. Log lost.');
-      return;
+      this.logger.warn('DIRECT mode but no fallback logger. Spooling log.');
+      return this.spoolOrDrop(event, _metadata, _summary);
     }
 
-    // KAFKA MODE: Try to use the producer
-    if (!this.mqProducer.isConnected()) {
-      // If the producer is not connected, change the mode
-      this.logger.warn('Producer not connected. Switching to DIRECT mode...');
-      this.loggingModeService.setMode(LoggingMode.DIRECT);
-
-      if (this.fallbackLogger) {
-        return this.fallbackLogger.log(event, _metadata, _summary);
+    try {
+      if (!this.mqProducer.isConnected()) {
+        // A half-open probe reconnects; a closed circuit counts the failure
+        if (this.loggingModeService.getState() !== CircuitState.HALF_OPEN) {
+          throw new Error('Producer not connected');
+        }
+        await this.mqProducer.connect();
       }
+      await this.mqProducer.publish(event, _metadata, _summary);
+      this.loggingModeService.recordSuccess();
+    } catch (error) {
+      const reason = (error as Error).message;
       this.logger.warn(
-        'MQ producer not connected and no fallback logger available. Log lost.',
+        `MQ publish failed: ${reason}. Falling back to DIRECT logging...`,
       );
-      return;
+      this.loggingModeService.recordFailure(reason);
+
+      if (this.fallbackLogger) {
+        await this.logToFallback(event, _metadata, _summary);
+      } else {
+        this.logger.error(
+          `MQ failed and no fallback logger available. Spooling requestId: ${event.requestId}`,
+        );
+        await this.spoolOrDrop(event, _metadata, _summary);
+      }
     }
+  }
 
+  /**
+   * Flush the producer's buffer first (failed publishes fall back),
+   * then the fallback logger.
+   */
+  async flush(): Promise<void> {
+    await this.mqProducer.flush();
+    await this.fallbackLogger?.flush();
+  }
+
+  /**
+   * DIRECT logging; events the fallback logger rejects are spooled.
+   */
+  private async logToFallback(
+    event: WideEvent,
+    _metadata: LoggingContext['_metadata'],
+    _summary: string,
+  ): Promise<void> {
     try {
-      await this.mqProducer.publish(event, _metadata, _summary);
-    } catch (error) {
-      this.logger.warn(
-        `MQ publish failed: ${error.message}. Switching to DIRECT mode...`,
+      await this.fallbackLogger?.log(event, _metadata, _summary);
+    } catch (fallbackError) {
+      this.logger.error(
+        `Fallback logging failed: ${fallbackError.message}`,
+        fallbackError.stack,
       );
+      await this.spoolOrDrop(event, _metadata, _summary);
+    }
+  }
 
-      // If failed, change the mode
-      this.loggingModeService.setMode(LoggingMode.DIRECT);
+  /**
+   * Last resort: keep the event on disk until a sink recovers.
+   * Events the spool cannot take are logged and counted as lost.
+   */
+  private async spoolOrDrop(
+    event: WideEvent,
+    _metadata: LoggingContext['_metadata'],
+    _summary: string,
+  ): Promise<void> {
+    if (!this.spool) {
+      this.lostCount.noSpool++;
+      this.logger.error(
+        `No spool configured. Log lost for requestId: ${event.requestId}`,
+      );
+      return;
+    }
 
-      if (this.fallbackLogger) {
-        try {
-          await this.fallbackLogger.log(event, _metadata, _summary);
-        } catch (fallbackError) {
-          this.logger.error(
-            `Fallback logging also failed: ${fallbackError.message}`,
-            fallbackError.stack,
-          );
-        }
-      } else {
+    try {
+      const spooled = await this.spool.append({
+        event,
+        _metadata,
+        summary: _summary,
+      });
+      if (!spooled) {
+        this.lostCount.spoolFull++;
         this.logger.error(
-          `MQ failed and no fallback logger available. Log lost for requestId: ${event.requestId}`,
+          `Spool full. Log lost for requestId: ${event.requestId}`,
         );
       }
+    } catch (error) {
+      this.lostCount.spoolFailed++;
+      this.logger.error(
+        `Spooling failed. Log lost for requestId: ${event.requestId}: ${error.message}`,
+      );
     }
   }
+
+  /**
+   * Get loss stats for monitoring.
+   */
+  getStats(): KafkaLoggerStats {
+    return { lostCount: { ...this.lostCount } };
+  }
 }
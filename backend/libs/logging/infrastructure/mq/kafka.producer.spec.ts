@@ -0,0 +1,56 @@
+import 'reflect-metadata';
+import { ConfigService } from '@nestjs/config';
+import { CompressionCodecs, CompressionTypes } from 'kafkajs';
+import { KafkaProducer } from './kafka.producer';
+import { KafkaProducerClient } from './kafka-producer.client';
+
+describe('KafkaProducer', () => {
+  const createProducer = (compression?: string) =>
+    new KafkaProducer(
+      {
+        onBeforeDisconnect: jest.fn(),
+      } as unknown as KafkaProducerClient,
+      {
+        get: (key: string) => ({ MQ_PRODUCER_COMPRESSION: compression })[key],
+      } as unknown as ConfigService,
+    );
+
+  describe('MQ_PRODUCER_COMPRESSION', () => {
+    it('should default to gzip', () => {
+      expect(createProducer().getStats().compression).toBe('gzip');
+    });
+
+    it('should accept none and gzip in any case', () => {
+      expect(createProducer('NONE').getStats().compression).toBe('none');
+      expect(createProducer('Gzip').getStats().compression).toBe('gzip');
+    });
+
+    it('should reject codecs that are not registered in kafkajs', () => {
+      for (const codec of ['snappy', 'lz4', 'zstd']) {
+        expect(() => createProducer(codec)).toThrow(
+          `Invalid MQ_PRODUCER_COMPRESSION "${codec}": no ${codec} codec is registered`,
+        );
+      }
+    });
+
+    it('should reject unknown values', () => {
+      expect(() => createProducer('brotli')).toThrow(
+        'Invalid MQ_PRODUCER_COMPRESSION "brotli": expected one of none, gzip, snappy, lz4, zstd',
+      );
+    });
+
+    it('should accept a codec registered before startup', () => {
+      const unregistered = CompressionCodecs[CompressionTypes.LZ4];
+      CompressionCodecs[CompressionTypes.LZ4] = () => ({
+        compress: () => Promise.resolve(Buffer.alloc(0)),
+        decompress: (buffer) => Promise.resolve(buffer),
+      });
+
+      try {
+        expect(createProducer('lz4').getStats().compression).toBe('lz4');
+      } finally {
+        CompressionCodecs[CompressionTypes.LZ4] = unregistered;
+      }
+    });
+  });
+});
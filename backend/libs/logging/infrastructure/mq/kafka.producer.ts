@@ -1,13 +1,57 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { CompressionCodecs, CompressionTypes } from 'kafkajs';
 import { MqProducerPort } from '@logging/out-ports';
-import { WideEvent } from '@logging/domain';
+import { WideEvent, LogEnvelopeCodec } from '@logging/domain';
 import { LoggingContext } from '@logging/domain';
 import { KafkaProducerClient } from './kafka-producer.client';
 
+const COMPRESSION_TYPES: Record<string, CompressionTypes> = {
+  none: CompressionTypes.None,
+  gzip: CompressionTypes.GZIP,
+  snappy: CompressionTypes.Snappy,
+  lz4: CompressionTypes.LZ4,
+  zstd: CompressionTypes.ZSTD,
+};
+
+/**
+ * A serialized event waiting in the linger buffer, with the caller's
+ * promise callbacks.
+ */
+interface PendingMessage {
+  key: string;
+  value: string;
+  headers: Record<string, string>;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Statistics for the batching producer.
+ */
+export interface KafkaProducerStats {
+  compression: string;
+  /** Messages waiting in the linger buffer */
+  pending: number;
+  /** Batches currently being sent */
+  inFlightBatches: number;
+  sentBatches: number;
+  sentMessages: number;
+  failedBatches: number;
+  failedMessages: number;
+}
+
 /**
  * KafkaProducer - Kafka implementation of MqProducerPort.
- * Publishes log events to Kafka topic for asynchronous processing.
+ * Publishes log events to Kafka topic for asynchronous processing, as
+ * versioned envelopes (LogEnvelopeCodec) with a schema id header.
+ *
+ * Events are held in a linger buffer and sent as one compressed batch
+ * when MQ_PRODUCER_BATCH_SIZE messages or MQ_PRODUCER_BATCH_BYTES bytes
+ * are buffered, or MQ_PRODUCER_LINGER_MS after the first one arrives.
+ * publish() resolves once its batch is acked and rejects if the batch
+ * fails, so KafkaLogger's DIRECT-mode fallback still applies per event.
+ * The buffer is flushed before the producer disconnects.
  *
  * This adapter uses KafkaProducerClient for Kafka connection management.
  * Pattern: Follows the same pattern as VoyageAdapter using VoyageClient.
@@ -16,6 +60,23 @@ import { KafkaProducerClient } from './kafka-producer.client';
 export class KafkaProducer extends MqProducerPort {
   private readonly logger = new Logger(KafkaProducer.name);
   private readonly topic: string;
+  private readonly batchSize: number;
+  private readonly batchBytes: number;
+  private readonly lingerMs: number;
+  private readonly compression: CompressionTypes;
+  /** Configured codec name (kafkajs' CompressionTypes has no reverse mapping) */
+  private readonly compressionName: string;
+  private readonly codec = new LogEnvelopeCodec();
+
+  private pending: PendingMessage[] = [];
+  private pendingBytes = 0;
+  private lingerTimer: NodeJS.Timeout | null = null;
+  private readonly inFlight = new Set<Promise<void>>();
+
+  private sentBatches = 0;
+  private sentMessages = 0;
+  private failedBatches = 0;
+  private failedMessages = 0;
 
   constructor(
     private readonly kafkaProducerClient: KafkaProducerClient,
@@ -24,6 +85,28 @@ export class KafkaProducer extends MqProducerPort {
     super();
     this.topic =
       this.configService.get<string>('KAFKA_LOG_TOPIC') || 'log-events';
+    this.batchSize =
+      parseInt(
+        this.configService.get<string>('MQ_PRODUCER_BATCH_SIZE') || '',
+        10,
+      ) || 100;
+    this.batchBytes =
+      parseInt(
+        this.configService.get<string>('MQ_PRODUCER_BATCH_BYTES') || '',
+        10,
+      ) || 1024 * 1024;
+    this.lingerMs =
+      parseInt(
+        this.configService.get<string>('MQ_PRODUCER_LINGER_MS') || '',
+        10,
+      ) || 5;
+    this.compressionName = (
+      this.configService.get<string>('MQ_PRODUCER_COMPRESSION') || 'gzip'
+    ).toLowerCase();
+    this.compression = this.resolveCompression(this.compressionName);
+
+    // Flush buffered events before the client disconnects on shutdown
+    this.kafkaProducerClient.onBeforeDisconnect(() => this.flush());
   }
 
   async connect(): Promise<void> {
@@ -49,37 +132,123 @@ export class KafkaProducer extends MqProducerPort {
       throw new Error('Kafka producer is not connected');
     }
 
-    try {
-      const message = {
-        event,
-        _metadata: metadata || {},
-        summary,
-        timestamp: new Date().toISOString(),
-      };
+    const { value, headers } = this.codec.encode(event, metadata, summary);
 
+    await new Promise<void>((resolve, reject) => {
+      this.pending.push({
+        key: event.requestId,
+        value,
+        headers,
+        resolve,
+        reject,
+      });
+      this.pendingBytes += Buffer.byteLength(value);
+
+      if (
+        this.pending.length >= this.batchSize ||
+        this.pendingBytes >= this.batchBytes
+      ) {
+        void this.flush();
+      } else if (!this.lingerTimer) {
+        this.lingerTimer = setTimeout(() => void this.flush(), this.lingerMs);
+        this.lingerTimer.unref();
+      }
+    });
+  }
+
+  /**
+   * Send everything in the linger buffer now and wait for all in-flight
+   * batches. Never throws; failed batches reject their callers instead.
+   */
+  async flush(): Promise<void> {
+    if (this.lingerTimer) {
+      clearTimeout(this.lingerTimer);
+      this.lingerTimer = null;
+    }
+
+    if (this.pending.length > 0) {
+      const batch = this.pending;
+      this.pending = [];
+      this.pendingBytes = 0;
+
+      const send = this.sendBatch(batch);
+      this.inFlight.add(send);
+      void send.finally(() => this.inFlight.delete(send));
+    }
+
+    await Promise.all(this.inFlight);
+  }
+
+  getStats(): KafkaProducerStats {
+    return {
+      compression: this.compressionName,
+      pending: this.pending.length,
+      inFlightBatches: this.inFlight.size,
+      sentBatches: this.sentBatches,
+      sentMessages: this.sentMessages,
+      failedBatches: this.failedBatches,
+      failedMessages: this.failedMessages,
+    };
+  }
+
+  private async sendBatch(batch: PendingMessage[]): Promise<void> {
+    try {
       const producer = this.kafkaProducerClient.getProducer();
       await producer.send({
         topic: this.topic,
-        messages: [
-          {
-            key: event.requestId,
-            value: JSON.stringify(message),
-          },
-        ],
+        compression: this.compression,
+        messages: batch.map(({ key, value, headers }) => ({
+          key,
+          value,
+          headers,
+        })),
       });
 
+      this.sentBatches++;
+      this.sentMessages += batch.length;
       this.logger.debug(
-        `Published log event to Kafka topic: ${this.topic}, requestId: ${event.requestId}`,
+        `Published batch of ${batch.length} log events to Kafka topic: ${this.topic}`,
       );
+      batch.forEach((message) => message.resolve());
     } catch (error) {
+      this.failedBatches++;
+      this.failedMessages += batch.length;
       this.logger.error(
-        `Failed to publish log event to Kafka: ${error.message}`,
+        `Failed to publish batch of ${batch.length} log events to Kafka: ${error.message}`,
         error.stack,
       );
 
-      this.kafkaProducerClient.triggerHealthCheck();
+      void this.kafkaProducerClient.triggerHealthCheck();
 
-      throw error;
+      batch.forEach((message) => message.reject(error as Error));
+    }
+  }
+
+  /**
+   * Map MQ_PRODUCER_COMPRESSION to a kafkajs codec. kafkajs ships only
+   * gzip; snappy/lz4/zstd need a codec package registered in
+   * CompressionCodecs before the producer is created. Unknown or
+   * unregistered codecs fail startup rather than silently using another
+   * codec than the one configured.
+   */
+  private resolveCompression(value: string): CompressionTypes {
+    const type = COMPRESSION_TYPES[value];
+    if (type === undefined) {
+      throw new Error(
+        `Invalid MQ_PRODUCER_COMPRESSION "${value}": expected one of ${Object.keys(COMPRESSION_TYPES).join(', ')}`,
+      );
+    }
+    if (type === CompressionTypes.None || type === CompressionTypes.GZIP) {
+      return type;
+    }
+
+    try {
+      CompressionCodecs[type]();
+      return type;
+    } catch {
+      throw new Error(
+        `Invalid MQ_PRODUCER_COMPRESSION "${value}": no ${value} codec is registered in kafkajs CompressionCodecs (use none or gzip, or register a codec package at startup)`,
+      );
     }
   }
 }
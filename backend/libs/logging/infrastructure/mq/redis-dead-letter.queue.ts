@@ -0,0 +1,101 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DeadLetterPort, REDRIVE_COUNT_HEADER } from '@logging/out-ports';
+import {
+  DeadLetterMessage,
+  DeadLetterEntry,
+  DeadLetterListResult,
+} from '@logging/dtos';
+import { RedisStreamClient } from './redis-stream.client';
+
+/**
+ * RedisDeadLetterQueue - Redis Streams implementation of DeadLetterPort.
+ *
+ * - Failed messages are added to the MQ_DLQ_TOPIC stream
+ *   (default `<MQ_LOG_TOPIC>.dlq`)
+ * - Everything still in the stream is pending; re-drive adds the original
+ *   payloads back to their source stream and deletes the dead-letter
+ *   entries in one MULTI
+ */
+@Injectable()
+export class RedisDeadLetterQueue extends DeadLetterPort {
+  private readonly topic: string;
+
+  constructor(
+    private readonly redisStreamClient: RedisStreamClient,
+    private readonly configService: ConfigService,
+  ) {
+    super();
+    const logTopic =
+      this.configService.get<string>('MQ_LOG_TOPIC') || 'log-events';
+    this.topic =
+      this.configService.get<string>('MQ_DLQ_TOPIC') || `${logTopic}.dlq`;
+  }
+
+  getTopic(): string {
+    return this.topic;
+  }
+
+  async send(message: DeadLetterMessage): Promise<void> {
+    await this.redisStreamClient.getClient().xAdd(this.topic, '*', {
+      key: message.originalKey ?? '',
+      value: JSON.stringify(message),
+      'x-dlq-reason': message.reason,
+      'x-dlq-attempts': String(message.attempts),
+    });
+  }
+
+  async list(limit: number): Promise<DeadLetterListResult> {
+    const client = this.redisStreamClient.getClient();
+    const [pending, entries] = await Promise.all([
+      client.xLen(this.topic),
+      this.read(limit),
+    ]);
+    return { topic: this.topic, pending, entries };
+  }
+
+  async redrive(limit: number): Promise<DeadLetterEntry[]> {
+    const entries = await this.read(limit);
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const multi = this.redisStreamClient.getClient().multi();
+    for (const entry of entries) {
+      if (!entry.message) continue;
+      multi.xAdd(entry.message.sourceTopic, '*', {
+        key: entry.message.originalKey ?? '',
+        value: entry.message.originalPayload,
+        [REDRIVE_COUNT_HEADER]: String(entry.message.redriveCount + 1),
+      });
+    }
+    // Unreadable entries are removed too (reported as skipped)
+    multi.xDel(
+      this.topic,
+      entries.map((entry) => entry.offset),
+    );
+    await multi.exec();
+
+    return entries;
+  }
+
+  private async read(limit: number): Promise<DeadLetterEntry[]> {
+    const entries = await this.redisStreamClient
+      .getClient()
+      .xRange(this.topic, '-', '+', { COUNT: limit });
+
+    return entries.map((entry) => ({
+      partition: 0,
+      offset: entry.id.toString(),
+      message: this.parse(entry.message.value?.toString() ?? ''),
+    }));
+  }
+
+  private parse(value: string): DeadLetterMessage | null {
+    try {
+      return JSON.parse(value) as DeadLetterMessage;
+    } catch {
+      return null;
+    }
+  }
+}
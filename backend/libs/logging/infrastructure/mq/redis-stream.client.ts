@@ -0,0 +1,133 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createClient, RedisClientType } from 'redis';
+import * as net from 'net';
+
+/**
+ * RedisStreamClient - Infrastructure client for the Redis connection used
+ * by the Redis Streams MQ adapters.
+ * This class is responsible solely for client initialization and connection
+ * management; stream operations are delegated to the adapters.
+ *
+ * - Uses REDIS_HOST/REDIS_PORT (the same Redis as the session cache) with
+ *   its own connection
+ * - Startup does not block on Redis: node-redis keeps reconnecting in the
+ *   background and isReady() reports the current state
+ * - Blocking reads (XREADGROUP BLOCK) need a dedicated connection, see
+ *   createBlockingClient()
+ *
+ * Pattern: Follows the same pattern as KafkaProducerClient and RedisClient.
+ */
+@Injectable()
+export class RedisStreamClient implements OnModuleInit, OnApplicationShutdown {
+  private readonly logger = new Logger(RedisStreamClient.name);
+  private readonly client: RedisClientType;
+  private readonly host: string;
+  private readonly port: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.host = this.configService.get<string>('REDIS_HOST') || 'localhost';
+    this.port =
+      parseInt(this.configService.get<string>('REDIS_PORT') || '', 10) || 6379;
+
+    this.client = createClient({ url: `redis://${this.host}:${this.port}` });
+
+    this.client.on('error', (err: Error) => {
+      this.logger.error(`Redis stream client error: ${err.message}`);
+    });
+    this.client.on('ready', () => {
+      this.logger.log(`Redis stream client connected to ${this.getAddress()}`);
+    });
+    this.client.on('reconnecting', () => {
+      this.logger.warn('Redis stream client reconnecting...');
+    });
+  }
+
+  onModuleInit(): void {
+    this.client.connect().catch((error) => {
+      this.logger.warn(
+        `Redis(${this.getAddress()}) unavailable at startup. Operating in fallback mode. Error: ${error.message}`,
+      );
+    });
+  }
+
+  async onApplicationShutdown(): Promise<void> {
+    if (!this.client.isOpen) {
+      return;
+    }
+
+    try {
+      await this.client.quit();
+      this.logger.log('Redis stream connection closed');
+    } catch (error) {
+      this.logger.warn(
+        `Error closing Redis stream connection: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Returns the shared client for non-blocking commands.
+   *
+   * @throws Error if the client is not ready
+   */
+  getClient(): RedisClientType {
+    if (!this.client.isReady) {
+      throw new Error('Redis stream client is not connected');
+    }
+    return this.client;
+  }
+
+  /**
+   * Creates a new, unconnected client with the same options.
+   * The caller must connect and close it.
+   */
+  createBlockingClient(): RedisClientType {
+    const client = this.client.duplicate();
+    client.on('error', (err: Error) => {
+      this.logger.error(`Redis stream reader error: ${err.message}`);
+    });
+    return client;
+  }
+
+  isReady(): boolean {
+    return this.client.isReady;
+  }
+
+  /**
+   * Performs a silent TCP check to see if Redis is reachable.
+   */
+  async checkAvailability(): Promise<boolean> {
+    return new Promise((resolve) => {
+      const socket = net.createConnection({
+        host: this.host,
+        port: this.port,
+        timeout: 1000,
+      });
+
+      socket.on('connect', () => {
+        socket.destroy();
+        resolve(true);
+      });
+
+      socket.on('error', () => {
+        socket.destroy();
+        resolve(false);
+      });
+
+      socket.on('timeout', () => {
+        socket.destroy();
+        resolve(false);
+      });
+    });
+  }
+
+  getAddress(): string {
+    return `${this.host}:${this.port}`;
+  }
+}
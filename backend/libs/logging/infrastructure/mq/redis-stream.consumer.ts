@@ -0,0 +1,228 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisClientType } from 'redis';
+import * as os from 'os';
+import { MqConsumerPort, MqBatchHandler, MqMessage } from '@logging/out-ports';
+import { RedisStreamClient } from './redis-stream.client';
+
+/**
+ * Stream entry as returned by XREADGROUP/XAUTOCLAIM.
+ */
+interface StreamEntry {
+  id: string;
+  message: Record<string, string>;
+}
+
+/**
+ * RedisStreamConsumer - Redis Streams implementation of MqConsumerPort.
+ *
+ * - Reads with XREADGROUP in the MQ_CONSUMER_GROUP consumer group
+ *   (created at the end of the stream on first start)
+ * - ack() is XACK; unacknowledged entries stay in the group's pending
+ *   entries list
+ * - Pending entries idle for MQ_REDIS_CLAIM_IDLE_MS (e.g. from a crashed
+ *   consumer or an earlier failed batch) are reclaimed with XAUTOCLAIM and
+ *   processed before new entries
+ * - Runs on its own connection, since XREADGROUP BLOCK holds it
+ */
+@Injectable()
+export class RedisStreamConsumer extends MqConsumerPort {
+  private readonly logger = new Logger(RedisStreamConsumer.name);
+  private readonly groupId: string;
+  private readonly consumerName: string;
+  private readonly batchSize: number;
+  private readonly blockMs: number;
+  private readonly claimIdleMs: number;
+
+  private running = false;
+  private loop: Promise<void> | null = null;
+  private claimCursor = '0-0';
+  private nextClaimAt = 0;
+
+  constructor(
+    private readonly redisStreamClient: RedisStreamClient,
+    private readonly configService: ConfigService,
+  ) {
+    super();
+    this.groupId =
+      this.configService.get<string>('MQ_CONSUMER_GROUP') ||
+      'log-consumer-group';
+    this.consumerName =
+      this.configService.get<string>('MQ_REDIS_CONSUMER_NAME') ||
+      `${os.hostname()}-${process.pid}`;
+    this.batchSize =
+      parseInt(this.configService.get<string>('MQ_BATCH_SIZE') || '', 10) ||
+      100;
+    this.blockMs =
+      parseInt(
+        this.configService.get<string>('MQ_BATCH_TIMEOUT_MS') || '',
+        10,
+      ) || 1000;
+    this.claimIdleMs =
+      parseInt(
+        this.configService.get<string>('MQ_REDIS_CLAIM_IDLE_MS') || '',
+        10,
+      ) || 60000;
+  }
+
+  async start(
+    topic: string,
+    handler: MqBatchHandler,
+    onCrash: (error: Error) => void,
+  ): Promise<void> {
+    if (this.running) {
+      throw new Error('Consumer is already running');
+    }
+
+    const client = this.redisStreamClient.createBlockingClient();
+    await client.connect();
+
+    try {
+      await this.ensureGroup(client, topic);
+    } catch (error) {
+      await client.quit().catch(() => undefined);
+      throw error;
+    }
+
+    this.running = true;
+    this.claimCursor = '0-0';
+    this.nextClaimAt = 0;
+    this.logger.log(
+      `Redis stream consumer ${this.consumerName} joined group ${this.groupId} on ${topic}`,
+    );
+
+    this.loop = this.poll(client, topic, handler)
+      .catch((error) => {
+        this.running = false;
+        onCrash(error instanceof Error ? error : new Error(String(error)));
+      })
+      .finally(() => client.quit().catch(() => undefined));
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    // Waits for the current batch (and at most one BLOCK timeout)
+    await this.loop;
+    this.loop = null;
+  }
+
+  checkAvailability(): Promise<boolean> {
+    return this.redisStreamClient.checkAvailability();
+  }
+
+  getGroupId(): string {
+    return this.groupId;
+  }
+
+  private async poll(
+    client: RedisClientType,
+    topic: string,
+    handler: MqBatchHandler,
+  ): Promise<void> {
+    while (this.running) {
+      let entries = await this.reclaim(client, topic);
+      if (entries.length === 0) {
+        entries = await this.readNew(client, topic);
+      }
+      if (entries.length === 0 || !this.running) {
+        continue;
+      }
+
+      await handler(
+        {
+          topic,
+          partition: 0,
+          messages: entries.map((entry) => this.toMqMessage(entry)),
+        },
+        {
+          isActive: () => this.running,
+          ack: async (messages) => {
+            if (messages.length === 0) return;
+            await client.xAck(
+              topic,
+              this.groupId,
+              messages.map((message) => message.id),
+            );
+          },
+          // Redis consumer groups have no session to keep alive
+          heartbeat: () => Promise.resolve(),
+        },
+      );
+    }
+  }
+
+  /**
+   * Claim idle pending entries, one page per call. After a full pass over
+   * the pending entries list, the next pass waits for MQ_REDIS_CLAIM_IDLE_MS.
+   */
+  private async reclaim(
+    client: RedisClientType,
+    topic: string,
+  ): Promise<StreamEntry[]> {
+    if (Date.now() < this.nextClaimAt) {
+      return [];
+    }
+
+    const reply = await client.xAutoClaim(
+      topic,
+      this.groupId,
+      this.consumerName,
+      this.claimIdleMs,
+      this.claimCursor,
+      { COUNT: this.batchSize },
+    );
+
+    this.claimCursor = reply.nextId.toString();
+    if (this.claimCursor === '0-0') {
+      this.nextClaimAt = Date.now() + this.claimIdleMs;
+    }
+
+    const entries = (
+      reply.messages as unknown as (StreamEntry | null)[]
+    ).filter((entry): entry is StreamEntry => entry !== null);
+    if (entries.length > 0) {
+      this.logger.warn(
+        `Reclaimed ${entries.length} pending entries idle for over ${this.claimIdleMs}ms`,
+      );
+    }
+    return entries;
+  }
+
+  private async readNew(
+    client: RedisClientType,
+    topic: string,
+  ): Promise<StreamEntry[]> {
+    const reply = (await client.xReadGroup(
+      this.groupId,
+      this.consumerName,
+      { key: topic, id: '>' },
+      { COUNT: this.batchSize, BLOCK: this.blockMs },
+    )) as unknown as { name: string; messages: StreamEntry[] }[] | null;
+
+    return reply?.[0]?.messages ?? [];
+  }
+
+  private async ensureGroup(
+    client: RedisClientType,
+    topic: string,
+  ): Promise<void> {
+    try {
+      await client.xGroupCreate(topic, this.groupId, '$', { MKSTREAM: true });
+      this.logger.log(`Created consumer group ${this.groupId} on ${topic}`);
+    } catch (error) {
+      if (!String(error.message).startsWith('BUSYGROUP')) {
+        throw error;
+      }
+    }
+  }
+
+  private toMqMessage(entry: StreamEntry): MqMessage {
+    const { key, value, ...headers } = entry.message;
+    return {
+      id: entry.id,
+      key: key || null,
+      value: value ?? null,
+      headers,
+    };
+  }
+}
@@ -0,0 +1,83 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MqProducerPort } from '@logging/out-ports';
+import { WideEvent, LoggingContext, LogEnvelopeCodec } from '@logging/domain';
+import { RedisStreamClient } from './redis-stream.client';
+
+/**
+ * RedisStreamProducer - Redis Streams implementation of MqProducerPort.
+ *
+ * - Each event is one XADD to the MQ_LOG_TOPIC stream, with `key`
+ *   (requestId), `value` (the same versioned envelope KafkaProducer sends)
+ *   and the schema id header as a field
+ * - The stream is trimmed approximately to MQ_REDIS_STREAM_MAXLEN entries
+ */
+@Injectable()
+export class RedisStreamProducer extends MqProducerPort {
+  private readonly logger = new Logger(RedisStreamProducer.name);
+  private readonly stream: string;
+  private readonly maxLen: number;
+  private readonly codec = new LogEnvelopeCodec();
+
+  constructor(
+    private readonly redisStreamClient: RedisStreamClient,
+    private readonly configService: ConfigService,
+  ) {
+    super();
+    this.stream =
+      this.configService.get<string>('MQ_LOG_TOPIC') || 'log-events';
+    this.maxLen =
+      parseInt(
+        this.configService.get<string>('MQ_REDIS_STREAM_MAXLEN') || '',
+        10,
+      ) || 1000000;
+  }
+
+  connect(): Promise<void> {
+    // node-redis reconnects on its own
+    return Promise.resolve();
+  }
+
+  isConnected(): boolean {
+    return this.redisStreamClient.isReady();
+  }
+
+  disconnect(): Promise<void> {
+    // The connection is closed by RedisStreamClient on module destroy
+    return Promise.resolve();
+  }
+
+  async publish(
+    event: WideEvent,
+    metadata: LoggingContext['_metadata'],
+    summary: string,
+  ): Promise<void> {
+    const client = this.redisStreamClient.getClient();
+    const { value, headers } = this.codec.encode(event, metadata, summary);
+
+    try {
+      await client.xAdd(
+        this.stream,
+        '*',
+        { key: event.requestId, value, ...headers },
+        {
+          TRIM: {
+            strategy: 'MAXLEN',
+            strategyModifier: '~',
+            threshold: this.maxLen,
+          },
+        },
+      );
+
+      this.logger.debug(
+        `Published log event to Redis stream: ${this.stream}, requestId: ${event.requestId}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish log event to Redis stream: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,320 @@
+import 'reflect-metadata';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { ConfigService } from '@nestjs/config';
+import { WideEvent } from '@logging/domain';
+import { OtlpLogger } from './otlp.logger';
+import { OtlpLogRecord, OtlpSpan } from './otlp.mapper';
+
+interface ReceivedRequest {
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+interface LogsPayload {
+  resourceLogs: {
+    resource: { attributes: { key: string; value: { stringValue: string } }[] };
+    scopeLogs: { logRecords: OtlpLogRecord[] }[];
+  }[];
+}
+
+interface TracesPayload {
+  resourceSpans: { scopeSpans: { spans: OtlpSpan[] }[] }[];
+}
+
+/**
+ * Minimal OTLP/HTTP collector: records every request and answers with the
+ * next scripted status for its path (200 once the script is exhausted).
+ */
+class StubCollector {
+  readonly requests: ReceivedRequest[] = [];
+  private readonly statuses = new Map<string, number[]>();
+  private held: (() => void)[] = [];
+  private holding = false;
+  private server: Server;
+
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve) => this.server.listen(0, resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  stop(): Promise<void> {
+    this.release();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  respondWith(path: string, ...statuses: number[]): void {
+    this.statuses.set(path, statuses);
+  }
+
+  /** Keep responses pending until release() */
+  hold(): void {
+    this.holding = true;
+  }
+
+  release(): void {
+    this.holding = false;
+    this.held.forEach((respond) => respond());
+    this.held = [];
+  }
+
+  requestsTo(path: string): ReceivedRequest[] {
+    return this.requests.filter((request) => request.path === path);
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const path = req.url ?? '';
+      this.requests.push({
+        path,
+        headers: req.headers,
+        body: Buffer.concat(chunks).toString('utf8'),
+      });
+      const status = this.statuses.get(path)?.shift() ?? 200;
+      const respond = () => {
+        res.statusCode = status;
+        res.end('{}');
+      };
+      if (this.holding) {
+        this.held.push(respond);
+      } else {
+        respond();
+      }
+    });
+  }
+}
+
+describe('OtlpLogger', () => {
+  let collector: StubCollector;
+  let endpoint: string;
+  let logger: OtlpLogger | undefined;
+
+  const createLogger = (env: Record<string, string> = {}) => {
+    const values: Record<string, string> = {
+      OTLP_ENDPOINT: endpoint,
+      OTLP_HEADERS: 'x-api-key=secret',
+      OTLP_BATCH_SIZE: '2',
+      OTLP_FLUSH_INTERVAL_MS: '60000',
+      OTLP_RETRY_BACKOFF_MS: '1',
+      ...env,
+    };
+    const configService = {
+      get: (key: string) => values[key],
+    } as unknown as ConfigService;
+    logger = new OtlpLogger(configService);
+    return logger;
+  };
+
+  const event = (requestId: string, withSpans = false) =>
+    WideEvent.fromDocument({
+      requestId,
+      timestamp: '2026-01-01T00:00:00.000Z',
+      service: 'payments',
+      route: 'POST /payments',
+      performance: { durationMs: 42 },
+      ...(withSpans && {
+        traceId: '0af7651916cd43dd8448eb211c80319c',
+        spanId: 'b7ad6b7169203331',
+        spans: [
+          {
+            spanId: '00f067aa0ba902b7',
+            parentSpanId: 'b7ad6b7169203331',
+            name: 'callGateway',
+            service: 'payments',
+            startTime: '2026-01-01T00:00:00.010Z',
+            durationMs: 20,
+            status: 'OK',
+          },
+        ],
+      }),
+    });
+
+  const log = (target: OtlpLogger, wideEvent: WideEvent) =>
+    target.log(wideEvent, undefined, wideEvent.toSummary());
+
+  beforeEach(async () => {
+    collector = new StubCollector();
+    endpoint = await collector.start();
+  });
+
+  afterEach(async () => {
+    await logger?.onApplicationShutdown();
+    logger = undefined;
+    await collector.stop();
+  });
+
+  describe('payloads', () => {
+    it('should post log records to /v1/logs', async () => {
+      const otlp = createLogger();
+
+      await log(otlp, event('req-1'));
+      await log(otlp, event('req-2'));
+      await otlp.flush();
+
+      const [request] = collector.requestsTo('/v1/logs');
+      expect(collector.requests).toHaveLength(1);
+      expect(request.headers['content-type']).toBe('application/json');
+      expect(request.headers['x-api-key']).toBe('secret');
+
+      const payload = JSON.parse(request.body) as LogsPayload;
+      expect(payload.resourceLogs).toHaveLength(1);
+      expect(payload.resourceLogs[0].resource.attributes).toEqual([
+        { key: 'service.name', value: { stringValue: 'payments' } },
+      ]);
+      const records = payload.resourceLogs[0].scopeLogs[0].logRecords;
+      expect(records.map((record) => record.severityText)).toEqual([
+        'INFO',
+        'INFO',
+      ]);
+      expect(records[0].body).toEqual({
+        stringValue: event('req-1').toSummary(),
+      });
+      expect(records[0].attributes).toContainEqual({
+        key: 'request.id',
+        value: { stringValue: 'req-1' },
+      });
+      expect(otlp.getStats().exportedCount).toBe(2);
+    });
+
+    it('should URL-decode header values, keeping malformed ones as is', async () => {
+      const otlp = createLogger({
+        OTLP_HEADERS: 'authorization=Basic%20dXNlcjpwdw%3D%3D,x-api-key=50%off',
+        OTLP_BATCH_SIZE: '1',
+      });
+
+      await log(otlp, event('req-1'));
+      await otlp.flush();
+
+      const [request] = collector.requestsTo('/v1/logs');
+      expect(request.headers.authorization).toBe('Basic dXNlcjpwdw==');
+      expect(request.headers['x-api-key']).toBe('50%off');
+    });
+
+    it('should post spans to /v1/traces only for events with span data', async () => {
+      const otlp = createLogger();
+
+      await log(otlp, event('req-1', true));
+      await log(otlp, event('req-2'));
+      await otlp.flush();
+
+      expect(collector.requestsTo('/v1/logs')).toHaveLength(1);
+      const traces = collector.requestsTo('/v1/traces');
+      expect(traces).toHaveLength(1);
+
+      const payload = JSON.parse(traces[0].body) as TracesPayload;
+      const spans = payload.resourceSpans[0].scopeSpans[0].spans;
+      expect(spans.map((span) => [span.name, span.parentSpanId])).toEqual([
+        ['POST /payments', undefined],
+        ['callGateway', 'b7ad6b7169203331'],
+      ]);
+      expect(spans[0].traceId).toBe('0af7651916cd43dd8448eb211c80319c');
+    });
+  });
+
+  describe('delivery', () => {
+    it('should not wait for the export when a batch fills up', async () => {
+      const otlp = createLogger();
+      collector.hold();
+
+      await log(otlp, event('req-1'));
+      await log(otlp, event('req-2'));
+      expect(otlp.getStats().exportedCount).toBe(0);
+
+      collector.release();
+      await otlp.flush();
+      expect(otlp.getStats().exportedCount).toBe(2);
+    });
+
+    it('should retry 5xx and 429 responses with backoff', async () => {
+      const otlp = createLogger();
+      collector.respondWith('/v1/logs', 503, 429);
+
+      await log(otlp, event('req-1'));
+      await otlp.flush();
+
+      expect(collector.requestsTo('/v1/logs')).toHaveLength(3);
+      expect(otlp.getStats()).toEqual(
+        expect.objectContaining({ exportedCount: 1, failedCount: 0 }),
+      );
+    });
+
+    it('should not retry other 4xx responses', async () => {
+      const otlp = createLogger();
+      collector.respondWith('/v1/logs', 400);
+
+      await log(otlp, event('req-1'));
+      await otlp.flush();
+
+      expect(collector.requestsTo('/v1/logs')).toHaveLength(1);
+      expect(otlp.getStats().failedCount).toBe(1);
+    });
+
+    it('should give up after OTLP_MAX_RETRIES retries', async () => {
+      const otlp = createLogger({ OTLP_MAX_RETRIES: '2' });
+      collector.respondWith('/v1/logs', 500, 500, 500, 500);
+
+      await log(otlp, event('req-1'));
+      await otlp.flush();
+
+      expect(collector.requestsTo('/v1/logs')).toHaveLength(3);
+      expect(otlp.getStats().failedCount).toBe(1);
+    });
+
+    it('should make a single attempt when OTLP_MAX_RETRIES is 0', async () => {
+      const otlp = createLogger({ OTLP_MAX_RETRIES: '0' });
+      collector.respondWith('/v1/logs', 500, 500);
+
+      await log(otlp, event('req-1'));
+      await otlp.flush();
+
+      expect(collector.requestsTo('/v1/logs')).toHaveLength(1);
+      expect(otlp.getStats().failedCount).toBe(1);
+    });
+
+    it('should count events whose spans could not be exported', async () => {
+      const otlp = createLogger({ OTLP_MAX_RETRIES: '0' });
+      collector.respondWith('/v1/traces', 500);
+
+      await log(otlp, event('req-1', true));
+      await log(otlp, event('req-2'));
+      await otlp.flush();
+
+      expect(otlp.getStats()).toEqual(
+        expect.objectContaining({
+          exportedCount: 2,
+          failedCount: 0,
+          traceFailedCount: 1,
+        }),
+      );
+    });
+
+    it('should drop new events when the queue is full', async () => {
+      const otlp = createLogger({
+        OTLP_BATCH_SIZE: '10',
+        OTLP_MAX_QUEUE_SIZE: '1',
+      });
+
+      await log(otlp, event('req-1'));
+      await log(otlp, event('req-2'));
+
+      expect(otlp.getStats()).toEqual(
+        expect.objectContaining({ queued: 1, droppedCount: 1 }),
+      );
+    });
+
+    it('should export the remaining queue on shutdown', async () => {
+      const otlp = createLogger({ OTLP_BATCH_SIZE: '10' });
+
+      await log(otlp, event('req-1'));
+      await otlp.onApplicationShutdown();
+
+      expect(collector.requestsTo('/v1/logs')).toHaveLength(1);
+      expect(otlp.getStats().exportedCount).toBe(1);
+    });
+  });
+});
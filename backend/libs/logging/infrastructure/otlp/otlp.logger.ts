@@ -0,0 +1,295 @@
+import { Injectable, Logger, OnApplicationShutdown } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LoggerPort } from '@logging/out-ports';
+import { WideEvent, LoggingContext } from '@logging/domain';
+import { OtlpMapper, OtlpRecord } from './otlp.mapper';
+
+/**
+ * Statistics for the OTLP exporter.
+ */
+export interface OtlpExporterStats {
+  queued: number;
+  maxQueueSize: number;
+  exportedCount: number;
+  /** Rejected because the queue was full */
+  droppedCount: number;
+  /** Given up on after all retries (or a non-retryable response) */
+  failedCount: number;
+  /** Events whose spans could not be exported to /v1/traces */
+  traceFailedCount: number;
+}
+
+/**
+ * OtlpLogger - Infrastructure layer implementation of LoggerPort.
+ * Exports Wide Events to an OpenTelemetry collector via OTLP/HTTP JSON.
+ *
+ * - Log records go to `${OTLP_ENDPOINT}/v1/logs`
+ * - Events with span data also go to `${OTLP_ENDPOINT}/v1/traces`
+ *
+ * Delivery:
+ * - Events are queued and posted in batches (size or interval, whichever first)
+ * - The queue is bounded; new events are dropped (and counted) when it is full
+ * - Network errors, 429 and 5xx are retried with exponential backoff;
+ *   other 4xx responses are not retried
+ * - log() never waits for the export; full batches are flushed in the background
+ * - Remaining events are flushed on application shutdown
+ */
+@Injectable()
+export class OtlpLogger extends LoggerPort implements OnApplicationShutdown {
+  private readonly internalLogger = new Logger(OtlpLogger.name);
+
+  private readonly queue: OtlpRecord[] = [];
+  private readonly endpoint: string;
+  private readonly headers: Record<string, string>;
+  private readonly batchSize: number;
+  private readonly flushIntervalMs: number;
+  private readonly maxQueueSize: number;
+  private readonly maxRetries: number;
+  private readonly retryBackoffMs: number;
+  private readonly timeoutMs: number;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+
+  private exportedCount = 0;
+  private droppedCount = 0;
+  private failedCount = 0;
+  private traceFailedCount = 0;
+
+  constructor(private readonly configService: ConfigService) {
+    super();
+
+    this.endpoint = (
+      this.configService.get<string>('OTLP_ENDPOINT') || 'http://localhost:4318'
+    ).replace(/\/+$/, '');
+    this.headers = this.parseHeaders(
+      this.configService.get<string>('OTLP_HEADERS') || '',
+    );
+    this.batchSize =
+      parseInt(this.configService.get<string>('OTLP_BATCH_SIZE') || '', 10) ||
+      100;
+    this.flushIntervalMs =
+      parseInt(
+        this.configService.get<string>('OTLP_FLUSH_INTERVAL_MS') || '',
+        10,
+      ) || 1000;
+    this.maxQueueSize =
+      parseInt(
+        this.configService.get<string>('OTLP_MAX_QUEUE_SIZE') || '',
+        10,
+      ) || 10000;
+    // 0 is a valid value (no retries), so only fall back on missing/invalid input
+    const maxRetries = parseInt(
+      this.configService.get<string>('OTLP_MAX_RETRIES') || '',
+      10,
+    );
+    this.maxRetries =
+      Number.isNaN(maxRetries) || maxRetries < 0 ? 3 : maxRetries;
+    this.retryBackoffMs =
+      parseInt(
+        this.configService.get<string>('OTLP_RETRY_BACKOFF_MS') || '',
+        10,
+      ) || 500;
+    this.timeoutMs =
+      parseInt(this.configService.get<string>('OTLP_TIMEOUT_MS') || '', 10) ||
+      5000;
+
+    this.startFlushTimer();
+  }
+
+  /**
+   * Queue a Wide Event for export.
+   */
+  log(
+    event: WideEvent,
+    _metadata: LoggingContext['_metadata'] | undefined,
+    _summary: string,
+  ): Promise<void> {
+    if (this.queue.length >= this.maxQueueSize) {
+      this.droppedCount++;
+      if (this.droppedCount % 100 === 1) {
+        this.internalLogger.warn(
+          `OTLP queue full (${this.maxQueueSize}): dropped ${this.droppedCount} events`,
+        );
+      }
+      return Promise.resolve();
+    }
+
+    this.queue.push(OtlpMapper.toRecord(event, _metadata, _summary));
+
+    // Export in the background: the caller never waits on the collector
+    if (this.queue.length >= this.batchSize) {
+      this.flush().catch((err) => {
+        this.internalLogger.error(`OTLP batch flush failed: ${err.message}`);
+      });
+    }
+
+    return Promise.resolve();
+  }
+
+  /**
+   * Export queued records batch by batch until the queue is empty.
+   * A call during an export joins it (the running loop drains the queue).
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.exportQueue().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async exportQueue(): Promise<void> {
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.batchSize);
+      await this.exportBatch(batch);
+    }
+  }
+
+  private async exportBatch(batch: OtlpRecord[]): Promise<void> {
+    const logsSent = await this.post(
+      '/v1/logs',
+      OtlpMapper.toLogsPayload(batch),
+    );
+
+    const withSpans = batch.filter((record) => record.spans.length > 0);
+    if (withSpans.length > 0) {
+      const tracesSent = await this.post(
+        '/v1/traces',
+        OtlpMapper.toTracesPayload(withSpans),
+      );
+      if (!tracesSent) {
+        this.traceFailedCount += withSpans.length;
+        this.internalLogger.error(
+          `Failed to export spans of ${withSpans.length} events to ${this.endpoint}`,
+        );
+      }
+    }
+
+    if (logsSent) {
+      this.exportedCount += batch.length;
+    } else {
+      this.failedCount += batch.length;
+      this.internalLogger.error(
+        `Failed to export ${batch.length} events to ${this.endpoint}`,
+      );
+    }
+  }
+
+  /**
+   * POST a payload with retries. Returns whether the collector accepted it.
+   */
+  private async post(
+    path: string,
+    payload: Record<string, unknown>,
+  ): Promise<boolean> {
+    const body = JSON.stringify(payload);
+
+    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      if (attempt > 0) {
+        await this.sleep(this.retryBackoffMs * 2 ** (attempt - 1));
+      }
+
+      try {
+        const response = await fetch(`${this.endpoint}${path}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...this.headers },
+          body,
+          signal: AbortSignal.timeout(this.timeoutMs),
+        });
+
+        if (response.ok) {
+          return true;
+        }
+        if (response.status !== 429 && response.status < 500) {
+          this.internalLogger.warn(
+            `OTLP export to ${path} rejected with ${response.status}, not retrying`,
+          );
+          return false;
+        }
+        this.internalLogger.warn(
+          `OTLP export to ${path} failed with ${response.status} (attempt ${attempt + 1})`,
+        );
+      } catch (error) {
+        this.internalLogger.warn(
+          `OTLP export to ${path} failed: ${error.message} (attempt ${attempt + 1})`,
+        );
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Parse `key=value,key2=value2` (same format as OTEL_EXPORTER_OTLP_HEADERS).
+   * Values are URL-decoded; one that is not valid percent-encoding (e.g. a
+   * raw token containing `%`) is used as is.
+   */
+  private parseHeaders(value: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const pair of value.split(',')) {
+      const index = pair.indexOf('=');
+      if (index > 0) {
+        const key = pair.slice(0, index).trim();
+        const raw = pair.slice(index + 1).trim();
+        try {
+          headers[key] = decodeURIComponent(raw);
+        } catch {
+          // The value itself is not logged: headers usually carry credentials
+          this.internalLogger.warn(
+            `OTLP_HEADERS value for "${key}" is not valid URL encoding, using it undecoded`,
+          );
+          headers[key] = raw;
+        }
+      }
+    }
+    return headers;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Start periodic flush timer.
+   */
+  private startFlushTimer(): void {
+    this.flushTimer = setInterval(() => {
+      this.flush().catch((err) => {
+        this.internalLogger.error(`Periodic OTLP flush failed: ${err.message}`);
+      });
+    }, this.flushIntervalMs);
+  }
+
+  /**
+   * Cleanup on application shutdown - export remaining queue.
+   */
+  async onApplicationShutdown(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    if (this.queue.length > 0) {
+      this.internalLogger.log(
+        `Exporting ${this.queue.length} remaining events...`,
+      );
+    }
+    // Also waits for a background export started by log()
+    await this.flush();
+  }
+
+  /**
+   * Get exporter stats for monitoring.
+   */
+  getStats(): OtlpExporterStats {
+    return {
+      queued: this.queue.length,
+      maxQueueSize: this.maxQueueSize,
+      exportedCount: this.exportedCount,
+      droppedCount: this.droppedCount,
+      failedCount: this.failedCount,
+      traceFailedCount: this.traceFailedCount,
+    };
+  }
+}
@@ -0,0 +1,279 @@
+import {
+  WideEvent,
+  WideEventSpan,
+  LoggingContext,
+  SamplingReason,
+} from '@logging/domain';
+
+/**
+ * OTLP/JSON AnyValue (https://opentelemetry.io/docs/specs/otlp/#json-protobuf-encoding).
+ */
+export type OtlpAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: number }
+  | { doubleValue: number }
+  | { arrayValue: { values: OtlpAnyValue[] } }
+  | { kvlistValue: { values: OtlpKeyValue[] } };
+
+export interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+export interface OtlpLogRecord {
+  timeUnixNano: string;
+  observedTimeUnixNano: string;
+  severityNumber: number;
+  severityText: string;
+  body: OtlpAnyValue;
+  attributes: OtlpKeyValue[];
+  traceId?: string;
+  spanId?: string;
+}
+
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpKeyValue[];
+  status: { code: number; message?: string };
+}
+
+/**
+ * One wide event converted to OTLP signals.
+ */
+export interface OtlpRecord {
+  service: string;
+  logRecord: OtlpLogRecord;
+  /** Request span plus child spans; empty when the event has no span data */
+  spans: OtlpSpan[];
+}
+
+const SEVERITY = {
+  INFO: 9,
+  WARN: 13,
+  ERROR: 17,
+} as const;
+
+const SPAN_KIND_INTERNAL = 1;
+const SPAN_KIND_SERVER = 2;
+
+const STATUS_UNSET = 0;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+const SCOPE = { name: 'context-aware-logging' };
+
+/**
+ * OtlpMapper - Converts wide events into OTLP/HTTP JSON payloads.
+ *
+ * - Every wide event becomes one log record (body = summary,
+ *   attributes = event fields + `_metadata` as a kvlist)
+ * - Events carrying trace ids and child spans additionally become spans:
+ *   the request as a SERVER span, each child span as an INTERNAL span
+ * - Records are grouped into one resource per `service.name`
+ */
+export class OtlpMapper {
+  static toRecord(
+    event: WideEvent,
+    _metadata: LoggingContext['_metadata'] | undefined,
+    _summary: string,
+  ): OtlpRecord {
+    const startMs = Date.parse(event.timestamp);
+    const sampling = _metadata?._sampling as { reason?: string } | undefined;
+
+    let severity: keyof typeof SEVERITY = 'INFO';
+    if (event.error) {
+      severity = 'ERROR';
+    } else if (sampling?.reason === SamplingReason.SLOW_REQUEST) {
+      severity = 'WARN';
+    }
+
+    const logRecord: OtlpLogRecord = {
+      timeUnixNano: this.toUnixNano(startMs),
+      observedTimeUnixNano: this.toUnixNano(Date.now()),
+      severityNumber: SEVERITY[severity],
+      severityText: severity,
+      body: { stringValue: _summary },
+      attributes: this.eventAttributes(event, _metadata),
+    };
+    if (event.traceId && event.spanId) {
+      logRecord.traceId = event.traceId;
+      logRecord.spanId = event.spanId;
+    }
+
+    return {
+      service: event.service,
+      logRecord,
+      spans: this.toSpans(event, startMs),
+    };
+  }
+
+  /**
+   * Build an ExportLogsServiceRequest body.
+   */
+  static toLogsPayload(records: OtlpRecord[]): Record<string, unknown> {
+    return {
+      resourceLogs: this.groupByService(records).map(([service, group]) => ({
+        resource: { attributes: this.resourceAttributes(service) },
+        scopeLogs: [
+          { scope: SCOPE, logRecords: group.map((r) => r.logRecord) },
+        ],
+      })),
+    };
+  }
+
+  /**
+   * Build an ExportTraceServiceRequest body (records without spans are skipped).
+   */
+  static toTracesPayload(records: OtlpRecord[]): Record<string, unknown> {
+    const withSpans = records.filter((record) => record.spans.length > 0);
+    return {
+      resourceSpans: this.groupByService(withSpans).map(([service, group]) => ({
+        resource: { attributes: this.resourceAttributes(service) },
+        scopeSpans: [{ scope: SCOPE, spans: group.flatMap((r) => r.spans) }],
+      })),
+    };
+  }
+
+  /**
+   * Convert a JS value to an OTLP AnyValue. Returns null for values with no
+   * OTLP representation (null/undefined/functions/symbols).
+   */
+  static toAnyValue(value: unknown): OtlpAnyValue | null {
+    if (value === null || value === undefined) return null;
+
+    if (typeof value === 'string') return { stringValue: value };
+    if (typeof value === 'boolean') return { boolValue: value };
+    if (typeof value === 'number') {
+      return Number.isInteger(value)
+        ? { intValue: value }
+        : { doubleValue: value };
+    }
+    if (value instanceof Date) return { stringValue: value.toISOString() };
+    if (Array.isArray(value)) {
+      return {
+        arrayValue: {
+          values: value
+            .map((item) => this.toAnyValue(item))
+            .filter((item): item is OtlpAnyValue => item !== null),
+        },
+      };
+    }
+    if (typeof value === 'object') {
+      return { kvlistValue: { values: this.toKeyValues(value) } };
+    }
+    if (typeof value === 'bigint') return { stringValue: value.toString() };
+    // functions and symbols are not exported
+    return null;
+  }
+
+  private static toKeyValues(value: object): OtlpKeyValue[] {
+    const result: OtlpKeyValue[] = [];
+    for (const [key, item] of Object.entries(value)) {
+      const anyValue = this.toAnyValue(item);
+      if (anyValue) result.push({ key, value: anyValue });
+    }
+    return result;
+  }
+
+  private static eventAttributes(
+    event: WideEvent,
+    _metadata: LoggingContext['_metadata'] | undefined,
+  ): OtlpKeyValue[] {
+    return this.toKeyValues({
+      'request.id': event.requestId,
+      'http.route': event.route,
+      'enduser.id': event.user?.id,
+      'enduser.role': event.user?.role,
+      'error.type': event.error?.code,
+      'exception.message': event.error?.message,
+      'duration.ms': event.performance?.durationMs,
+      'wide_event.metadata': _metadata,
+    });
+  }
+
+  private static toSpans(event: WideEvent, startMs: number): OtlpSpan[] {
+    if (!event.traceId || !event.spanId || !event.spans?.length) {
+      return [];
+    }
+    const traceId = event.traceId;
+
+    const requestSpan: OtlpSpan = {
+      traceId,
+      spanId: event.spanId,
+      name: event.route,
+      kind: SPAN_KIND_SERVER,
+      startTimeUnixNano: this.toUnixNano(startMs),
+      endTimeUnixNano: this.toUnixNano(
+        startMs + (event.performance?.durationMs ?? 0),
+      ),
+      attributes: this.toKeyValues({
+        'service.name': event.service,
+        'request.id': event.requestId,
+      }),
+      status: event.error
+        ? { code: STATUS_ERROR, message: event.error.message }
+        : { code: STATUS_OK },
+    };
+    if (event.parentSpanId) requestSpan.parentSpanId = event.parentSpanId;
+
+    return [
+      requestSpan,
+      ...event.spans.map((span) => this.toChildSpan(traceId, span)),
+    ];
+  }
+
+  private static toChildSpan(traceId: string, span: WideEventSpan): OtlpSpan {
+    const startMs = Date.parse(span.startTime);
+    const result: OtlpSpan = {
+      traceId,
+      spanId: span.spanId,
+      name: span.name,
+      kind: SPAN_KIND_INTERNAL,
+      startTimeUnixNano: this.toUnixNano(startMs),
+      endTimeUnixNano: this.toUnixNano(startMs + (span.durationMs ?? 0)),
+      attributes: this.toKeyValues({
+        'service.name': span.service,
+        'error.type': span.error?.code,
+        ...span.attributes,
+      }),
+      status:
+        span.status === 'ERROR'
+          ? { code: STATUS_ERROR, message: span.error?.message }
+          : span.status === 'OK'
+            ? { code: STATUS_OK }
+            : { code: STATUS_UNSET },
+    };
+    if (span.parentSpanId) result.parentSpanId = span.parentSpanId;
+    return result;
+  }
+
+  private static resourceAttributes(service: string): OtlpKeyValue[] {
+    return [{ key: 'service.name', value: { stringValue: service } }];
+  }
+
+  private static groupByService(
+    records: OtlpRecord[],
+  ): [string, OtlpRecord[]][] {
+    const groups = new Map<string, OtlpRecord[]>();
+    for (const record of records) {
+      const group = groups.get(record.service) ?? [];
+      group.push(record);
+      groups.set(record.service, group);
+    }
+    return Array.from(groups.entries());
+  }
+
+  /**
+   * Milliseconds to a nanosecond string (int64 fields are strings in OTLP/JSON).
+   */
+  private static toUnixNano(ms: number): string {
+    return `${Math.round(ms)}000000`;
+  }
+}
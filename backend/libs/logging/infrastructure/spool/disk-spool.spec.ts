@@ -0,0 +1,205 @@
+import 'reflect-metadata';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigService } from '@nestjs/config';
+import { WideEvent } from '@logging/domain';
+import { SpoolBatch } from '@logging/out-ports';
+import { DiskSpool } from './disk-spool';
+
+describe('DiskSpool', () => {
+  let dir: string;
+  const spools: DiskSpool[] = [];
+
+  /** Start a spool on the temp dir, as a fresh process would */
+  const start = async (settings: Record<string, string> = {}) => {
+    const spool = new DiskSpool({
+      get: (key: string) =>
+        ({
+          'paths.projectRoot': dir,
+          LOG_SPOOL_DIR: dir,
+          ...settings,
+        })[key],
+    } as unknown as ConfigService);
+    await spool.onModuleInit();
+    spools.push(spool);
+    return spool;
+  };
+
+  const append = (spool: DiskSpool, requestId: string) =>
+    spool.append({
+      event: new WideEvent(
+        requestId,
+        new Date().toISOString(),
+        'payments',
+        'POST /payments',
+      ),
+      _metadata: undefined,
+      summary: `summary ${requestId}`,
+    });
+
+  const requestIdsOf = (batch: SpoolBatch | null) =>
+    batch?.entries.map((entry) => entry.event.requestId);
+
+  const segmentPath = (seq: number) =>
+    join(dir, `segment-${String(seq).padStart(6, '0')}.log`);
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'disk-spool-'));
+  });
+
+  afterEach(async () => {
+    for (const spool of spools.splice(0)) {
+      await spool.onApplicationShutdown();
+    }
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should replay appended entries in order and delete drained segments', async () => {
+    const spool = await start();
+    await append(spool, 'req-1');
+    await append(spool, 'req-2');
+
+    const batch = await spool.read(10);
+    expect(requestIdsOf(batch)).toEqual(['req-1', 'req-2']);
+    expect(batch?.entries[0].summary).toBe('summary req-1');
+
+    await spool.commit(batch!);
+
+    expect(await spool.read(10)).toBeNull();
+    expect(spool.getStats()).toMatchObject({ depth: 0, segments: 0 });
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  describe('checksums', () => {
+    it('should skip and count lines whose checksum does not match', async () => {
+      const spool = await start();
+      for (const requestId of ['req-1', 'req-2', 'req-3']) {
+        await append(spool, requestId);
+      }
+
+      // Flip one byte of the second entry's JSON, keeping the length
+      const content = await fs.readFile(segmentPath(1), 'utf8');
+      await fs.writeFile(
+        segmentPath(1),
+        content.replace('"req-2"', '"req-X"'),
+        'utf8',
+      );
+
+      const batch = await spool.read(10);
+      expect(requestIdsOf(batch)).toEqual(['req-1', 'req-3']);
+      expect(batch?.skipped).toBe(1);
+
+      await spool.commit(batch!);
+      expect(spool.getStats()).toMatchObject({ depth: 0, corruptCount: 1 });
+    });
+
+    it('should skip a partial line left by a previous run', async () => {
+      const previous = await start();
+      await append(previous, 'req-1');
+      await append(previous, 'req-2');
+      await previous.onApplicationShutdown();
+
+      // A torn write: the first half of a line, without its newline
+      const [line] = (await fs.readFile(segmentPath(1), 'utf8')).split('\n');
+      await fs.appendFile(segmentPath(1), line.slice(0, line.length / 2));
+
+      const spool = await start();
+      expect(spool.getStats().depth).toBe(3);
+
+      const batch = await spool.read(10);
+      expect(requestIdsOf(batch)).toEqual(['req-1', 'req-2']);
+      expect(batch?.skipped).toBe(1);
+
+      await spool.commit(batch!);
+      expect(spool.getStats()).toMatchObject({
+        depth: 0,
+        segments: 0,
+        corruptCount: 1,
+      });
+    });
+  });
+
+  describe('size cap', () => {
+    it('should reject appends beyond LOG_SPOOL_MAX_BYTES until space is freed', async () => {
+      const spool = await start({ LOG_SPOOL_MAX_BYTES: '1000' });
+
+      const accepted: boolean[] = [];
+      for (let i = 0; accepted.length < 20; i++) {
+        accepted.push(await append(spool, `req-${i}`));
+      }
+      const stored = accepted.indexOf(false);
+
+      expect(stored).toBeGreaterThan(0);
+      expect(accepted.slice(stored)).not.toContain(true);
+      expect(spool.getStats()).toMatchObject({
+        depth: stored,
+        droppedCount: 20 - stored,
+      });
+      expect(spool.getStats().depthBytes).toBeLessThanOrEqual(1000);
+
+      await spool.commit((await spool.read(10))!);
+      expect(await append(spool, 'req-after')).toBe(true);
+    });
+  });
+
+  describe('replay cursor', () => {
+    it('should advance the cursor on commit and persist it for the next run', async () => {
+      const previous = await start();
+      for (let i = 1; i <= 5; i++) {
+        await append(previous, `req-${i}`);
+      }
+
+      const first = await previous.read(2);
+      expect(requestIdsOf(first)).toEqual(['req-1', 'req-2']);
+      await previous.commit(first!);
+
+      const cursorPath = join(dir, 'segment-000001.cursor');
+      const cursor = await fs.readFile(cursorPath, 'utf8');
+      expect(Number(cursor)).toBe(first!.endOffset);
+      expect(previous.getStats().depth).toBe(3);
+
+      // Only the first entry of the batch was delivered
+      const second = await previous.read(2);
+      expect(requestIdsOf(second)).toEqual(['req-3', 'req-4']);
+      await previous.commit(second!, 1);
+      expect(previous.getStats().depth).toBe(2);
+
+      await previous.onApplicationShutdown();
+      const spool = await start();
+
+      expect(spool.getStats().depth).toBe(2);
+      expect(requestIdsOf(await spool.read(10))).toEqual(['req-4', 'req-5']);
+    });
+
+    it('should ignore a commit behind the cursor', async () => {
+      const spool = await start();
+      await append(spool, 'req-1');
+      await append(spool, 'req-2');
+
+      const batch = await spool.read(1);
+      await spool.commit(batch!);
+      await spool.commit(batch!);
+
+      expect(spool.getStats().depth).toBe(1);
+      expect(requestIdsOf(await spool.read(10))).toEqual(['req-2']);
+    });
+
+    it('should start a new segment on every startup', async () => {
+      const previous = await start();
+      await append(previous, 'req-1');
+      await previous.onApplicationShutdown();
+
+      const spool = await start();
+      await append(spool, 'req-2');
+
+      expect(spool.getStats().segments).toBe(2);
+      const first = await spool.read(10);
+      expect(requestIdsOf(first)).toEqual(['req-1']);
+      await spool.commit(first!);
+      expect(requestIdsOf(await spool.read(10))).toEqual(['req-2']);
+      await expect(fs.stat(segmentPath(1))).rejects.toThrow();
+      await expect(fs.stat(segmentPath(2))).resolves.toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,450 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { crc32 } from 'zlib';
+import {
+  LogSpoolPort,
+  SpoolEntry,
+  SpoolBatch,
+  SpoolStats,
+} from '@logging/out-ports';
+
+const SEGMENT_PATTERN = /^segment-(\d+)\.log$/;
+const READ_CHUNK_BYTES = 64 * 1024;
+
+interface Segment {
+  seq: number;
+  path: string;
+  cursorPath: string;
+  /** Bytes on disk */
+  size: number;
+  /** Bytes already replayed */
+  cursor: number;
+  /** Entries not yet replayed */
+  pending: number;
+}
+
+/**
+ * DiskSpool - Append-only, size-bounded on-disk implementation of LogSpoolPort.
+ *
+ * Layout (LOG_SPOOL_DIR, default `<projectRoot>/logs/spool`):
+ * - `segment-000001.log` ... one entry per line: `<crc32 hex>\t<json>\n`
+ * - `segment-000001.cursor` replay position (bytes) of a partly drained segment
+ *
+ * - Writes go to the newest segment and are fsync'd; a new segment starts
+ *   once LOG_SPOOL_SEGMENT_BYTES is reached and on every startup
+ * - Appends are rejected (and counted) once LOG_SPOOL_MAX_BYTES is used
+ * - Lines whose checksum does not match (torn writes, disk corruption)
+ *   are skipped on read and counted
+ * - Fully drained segments are deleted
+ * - All operations are serialized, so append/read/commit never interleave
+ */
+@Injectable()
+export class DiskSpool
+  extends LogSpoolPort
+  implements OnModuleInit, OnApplicationShutdown
+{
+  private readonly logger = new Logger(DiskSpool.name);
+  private readonly dir: string;
+  private readonly segmentMaxBytes: number;
+  private readonly maxBytes: number;
+
+  private segments: Segment[] = [];
+  private activeHandle: fs.FileHandle | null = null;
+  private activeSegment: Segment | null = null;
+  private nextSeq = 1;
+  private oldestSpooledAt: number | null = null;
+  private droppedCount = 0;
+  private corruptCount = 0;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly configService: ConfigService) {
+    super();
+    const projectRoot = this.configService.get<string>('paths.projectRoot');
+
+    if (!projectRoot) {
+      throw new Error('Project root path not configured');
+    }
+
+    this.dir =
+      this.configService.get<string>('LOG_SPOOL_DIR') ||
+      join(projectRoot, 'logs', 'spool');
+    this.segmentMaxBytes =
+      parseInt(
+        this.configService.get<string>('LOG_SPOOL_SEGMENT_BYTES') || '',
+        10,
+      ) || 8 * 1024 * 1024;
+    this.maxBytes =
+      parseInt(
+        this.configService.get<string>('LOG_SPOOL_MAX_BYTES') || '',
+        10,
+      ) || 256 * 1024 * 1024;
+  }
+
+  async onModuleInit(): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    await this.loadSegments();
+
+    const depth = this.getStats().depth;
+    if (depth > 0) {
+      this.logger.warn(
+        `Found ${depth} spooled events in ${this.segments.length} segments; they will be replayed`,
+      );
+    }
+  }
+
+  async onApplicationShutdown(): Promise<void> {
+    await this.withLock(() => this.closeActive());
+  }
+
+  async append(entry: Omit<SpoolEntry, 'spooledAt'>): Promise<boolean> {
+    const spooledAt = Date.now();
+    const json = JSON.stringify({
+      ...entry,
+      spooledAt: new Date(spooledAt).toISOString(),
+    });
+    const line = Buffer.from(
+      `${crc32(json).toString(16).padStart(8, '0')}\t${json}\n`,
+      'utf8',
+    );
+
+    return this.withLock(async () => {
+      if (this.diskBytes() + line.length > this.maxBytes) {
+        this.droppedCount++;
+        if (this.droppedCount % 100 === 1) {
+          this.logger.error(
+            `Spool full (${this.maxBytes} bytes): dropped ${this.droppedCount} events`,
+          );
+        }
+        return false;
+      }
+
+      const segment = await this.getActiveSegment(line.length);
+      await this.activeHandle!.write(line);
+      await this.activeHandle!.datasync();
+
+      segment.size += line.length;
+      segment.pending++;
+      if (this.oldestSpooledAt === null) {
+        this.oldestSpooledAt = spooledAt;
+      }
+      return true;
+    });
+  }
+
+  async read(limit: number): Promise<SpoolBatch | null> {
+    return this.withLock(async () => {
+      const segment = this.segments[0];
+      if (!segment || segment.cursor >= segment.size) {
+        return null;
+      }
+
+      const buffer = await this.readRange(
+        segment.path,
+        segment.cursor,
+        segment.size - segment.cursor,
+      );
+
+      const entries: SpoolEntry[] = [];
+      const endOffsets: number[] = [];
+      let skipped = 0;
+      let position = 0;
+
+      while (position < buffer.length && entries.length < limit) {
+        const newline = buffer.indexOf(0x0a, position);
+        // A torn tail can only exist in segments from a previous run
+        const lineEnd = newline === -1 ? buffer.length : newline;
+        const entry = this.parseLine(buffer.subarray(position, lineEnd));
+        position = newline === -1 ? buffer.length : newline + 1;
+
+        if (entry) {
+          entries.push(entry);
+          endOffsets.push(segment.cursor + position);
+        } else {
+          skipped++;
+          this.logger.warn(
+            `Skipping corrupt spool entry in ${segment.path} at byte ${segment.cursor + position}`,
+          );
+        }
+      }
+
+      return {
+        segment: segment.path,
+        entries,
+        endOffsets,
+        endOffset: segment.cursor + position,
+        skipped,
+      };
+    });
+  }
+
+  async commit(batch: SpoolBatch, delivered?: number): Promise<void> {
+    const count = delivered ?? batch.entries.length;
+    const complete = count >= batch.entries.length;
+    const offset = complete
+      ? batch.endOffset
+      : count > 0
+        ? batch.endOffsets[count - 1]
+        : null;
+    if (offset === null) {
+      return;
+    }
+    // Corrupt lines are only known to be passed when the whole batch is
+    const lines = complete ? count + batch.skipped : count;
+
+    await this.withLock(async () => {
+      const segment = this.segments.find((s) => s.path === batch.segment);
+      if (!segment || offset <= segment.cursor) {
+        return;
+      }
+
+      segment.cursor = offset;
+      segment.pending = Math.max(0, segment.pending - lines);
+      if (complete) {
+        this.corruptCount += batch.skipped;
+      }
+
+      if (segment.cursor >= segment.size) {
+        await this.removeSegment(segment);
+      } else {
+        const tmpPath = `${segment.cursorPath}.tmp`;
+        await fs.writeFile(tmpPath, String(segment.cursor), 'utf8');
+        await fs.rename(tmpPath, segment.cursorPath);
+      }
+
+      await this.refreshOldest();
+    });
+  }
+
+  getStats(): SpoolStats {
+    return {
+      depth: this.segments.reduce((sum, s) => sum + s.pending, 0),
+      depthBytes: this.segments.reduce((sum, s) => sum + s.size - s.cursor, 0),
+      maxBytes: this.maxBytes,
+      segments: this.segments.length,
+      oldestEntryAgeMs:
+        this.oldestSpooledAt === null
+          ? null
+          : Math.max(0, Date.now() - this.oldestSpooledAt),
+      droppedCount: this.droppedCount,
+      corruptCount: this.corruptCount,
+    };
+  }
+
+  /**
+   * Run an operation after all previously queued ones.
+   */
+  private withLock<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(operation);
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+
+  private diskBytes(): number {
+    return this.segments.reduce((sum, s) => sum + s.size, 0);
+  }
+
+  /**
+   * Return the segment to append to, rolling over when it is full.
+   */
+  private async getActiveSegment(lineBytes: number): Promise<Segment> {
+    if (
+      this.activeSegment &&
+      this.activeSegment.size > 0 &&
+      this.activeSegment.size + lineBytes > this.segmentMaxBytes
+    ) {
+      await this.closeActive();
+    }
+
+    if (!this.activeSegment) {
+      const seq = this.nextSeq++;
+      const name = `segment-${String(seq).padStart(6, '0')}`;
+      const segment: Segment = {
+        seq,
+        path: join(this.dir, `${name}.log`),
+        cursorPath: join(this.dir, `${name}.cursor`),
+        size: 0,
+        cursor: 0,
+        pending: 0,
+      };
+      this.activeHandle = await fs.open(segment.path, 'a');
+      this.activeSegment = segment;
+      this.segments.push(segment);
+    }
+
+    return this.activeSegment;
+  }
+
+  private async closeActive(): Promise<void> {
+    if (this.activeHandle) {
+      await this.activeHandle.close();
+    }
+    this.activeHandle = null;
+    this.activeSegment = null;
+  }
+
+  private async removeSegment(segment: Segment): Promise<void> {
+    if (segment === this.activeSegment) {
+      await this.closeActive();
+    }
+    await fs.rm(segment.path, { force: true });
+    await fs.rm(segment.cursorPath, { force: true });
+    this.segments = this.segments.filter((s) => s !== segment);
+  }
+
+  /**
+   * Rebuild state from the segments left by a previous run.
+   */
+  private async loadSegments(): Promise<void> {
+    const files = await fs.readdir(this.dir);
+    const seqs = files
+      .map((file) => SEGMENT_PATTERN.exec(file))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map((match) => parseInt(match[1], 10))
+      .sort((a, b) => a - b);
+
+    for (const seq of seqs) {
+      const name = `segment-${String(seq).padStart(6, '0')}`;
+      const segment: Segment = {
+        seq,
+        path: join(this.dir, `${name}.log`),
+        cursorPath: join(this.dir, `${name}.cursor`),
+        size: (await fs.stat(join(this.dir, `${name}.log`))).size,
+        cursor: 0,
+        pending: 0,
+      };
+
+      try {
+        segment.cursor =
+          parseInt(await fs.readFile(segment.cursorPath, 'utf8'), 10) || 0;
+      } catch {
+        segment.cursor = 0;
+      }
+
+      if (segment.cursor >= segment.size) {
+        await fs.rm(segment.path, { force: true });
+        await fs.rm(segment.cursorPath, { force: true });
+        continue;
+      }
+
+      segment.pending = await this.countLines(segment);
+      this.segments.push(segment);
+      this.nextSeq = seq + 1;
+    }
+
+    await this.refreshOldest();
+  }
+
+  private async countLines(segment: Segment): Promise<number> {
+    const buffer = await this.readRange(
+      segment.path,
+      segment.cursor,
+      segment.size - segment.cursor,
+    );
+    let count = 0;
+    let position = 0;
+    while (position < buffer.length) {
+      const newline = buffer.indexOf(0x0a, position);
+      count++;
+      if (newline === -1) break;
+      position = newline + 1;
+    }
+    return count;
+  }
+
+  /**
+   * Update the oldest pending entry's timestamp from the head of the spool.
+   */
+  private async refreshOldest(): Promise<void> {
+    this.oldestSpooledAt = null;
+
+    for (const segment of this.segments) {
+      let offset = segment.cursor;
+      while (offset < segment.size) {
+        const { line, next } = await this.readLineAt(segment, offset);
+        const entry = this.parseLine(line);
+        if (entry) {
+          this.oldestSpooledAt = Date.parse(entry.spooledAt);
+          return;
+        }
+        offset = next;
+      }
+    }
+  }
+
+  /**
+   * Read the line starting at `offset`, chunk by chunk.
+   */
+  private async readLineAt(
+    segment: Segment,
+    offset: number,
+  ): Promise<{ line: Buffer; next: number }> {
+    const chunks: Buffer[] = [];
+    let position = offset;
+
+    while (position < segment.size) {
+      const chunk = await this.readRange(
+        segment.path,
+        position,
+        Math.min(READ_CHUNK_BYTES, segment.size - position),
+      );
+      if (chunk.length === 0) break;
+
+      const newline = chunk.indexOf(0x0a);
+      if (newline !== -1) {
+        chunks.push(chunk.subarray(0, newline));
+        return {
+          line: Buffer.concat(chunks),
+          next: position + newline + 1,
+        };
+      }
+      chunks.push(chunk);
+      position += chunk.length;
+    }
+
+    return { line: Buffer.concat(chunks), next: segment.size };
+  }
+
+  private async readRange(
+    path: string,
+    offset: number,
+    length: number,
+  ): Promise<Buffer> {
+    const handle = await fs.open(path, 'r');
+    try {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, offset);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Verify and decode one line. Returns null if it is corrupt.
+   */
+  private parseLine(line: Buffer): SpoolEntry | null {
+    const tab = line.indexOf(0x09);
+    if (tab !== 8) {
+      return null;
+    }
+
+    const checksum = line.subarray(0, tab).toString('utf8');
+    const json = line.subarray(tab + 1).toString('utf8');
+    if (crc32(json).toString(16).padStart(8, '0') !== checksum) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(json) as SpoolEntry;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { Module, Provider, DynamicModule } from '@nestjs/common';
+import { Module, Provider, DynamicModule, Type } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as dotenv from 'dotenv';
 import {
@@ -6,7 +6,13 @@ import {
   ContextService,
   MqConsumerService,
   LoggingModeService,
+  SamplingConfigService,
+  DeadLetterService,
+  SpoolReplayService,
+  MetricsService,
+  ShutdownCoordinator,
   SAMPLING_POLICY,
+  TAIL_SAMPLING_BUFFER,
 } from 'libs/logging/service';
 import {
   MongoLogger,
@@ -15,17 +21,61 @@ import {
   KafkaConsumerClient,
   KafkaProducer,
   KafkaLogger,
+  KafkaDeadLetterQueue,
+  KafkaConsumer,
+  RedisStreamClient,
+  RedisStreamProducer,
+  RedisStreamConsumer,
+  RedisDeadLetterQueue,
+  InMemoryQueue,
+  InMemoryProducer,
+  InMemoryConsumer,
+  InMemoryDeadLetterQueue,
+  DiskSpool,
   FileLogger,
+  OtlpLogger,
+  CompositeLogger,
+  LogSink,
+  TracedHttpClient,
 } from '@logging/infrastructure';
 import { LoggerPort } from '@logging/out-ports';
-import { MqProducerPort } from '@logging/out-ports';
+import {
+  MqProducerPort,
+  MqConsumerPort,
+  DeadLetterPort,
+  LogSpoolPort,
+} from '@logging/out-ports';
 import { LoggingUseCase } from '@logging/in-ports';
-import { LoggingInterceptor } from '@logging/presentation';
-import { SamplingPolicy, FinalizeMetrics } from '@logging/domain';
+import {
+  LoggingInterceptor,
+  SamplingController,
+  DeadLetterController,
+  SpoolController,
+  MetricsController,
+} from '@logging/presentation';
+import {
+  SamplingPolicy,
+  TailSamplingBuffer,
+  FinalizeMetrics,
+  PipelineMetrics,
+} from '@logging/domain';
 
 // Load environment variables immediately to support dynamic module registration
 dotenv.config();
 
+/**
+ * Disk spool for events no sink accepts (MongoDB/Kafka only).
+ * Shared references so sinks that both need it register it once.
+ */
+const SPOOL_PROVIDERS: Provider[] = [
+  DiskSpool,
+  {
+    provide: LogSpoolPort,
+    useExisting: DiskSpool,
+  },
+  SpoolReplayService,
+];
+
 /**
  * LoggingModule - NestJS module for the logging library.
  *
@@ -48,73 +98,271 @@ export class LoggingModule {
         provide: SAMPLING_POLICY,
         useFactory: () => SamplingPolicy.fromEnv(process.env),
       },
+      // Owns the active policy; env policy above is the baseline
+      SamplingConfigService,
+      {
+        // Holds unsampled events for tail-based promotion
+        provide: TAIL_SAMPLING_BUFFER,
+        useFactory: () => TailSamplingBuffer.fromEnv(process.env),
+      },
       FinalizeMetrics,
+      PipelineMetrics,
+      MetricsService,
       {
+        // Same instance as LoggingService, so its stats reflect the interceptor's calls
         provide: LoggingUseCase,
-        useClass: LoggingService,
+        useExisting: LoggingService,
       },
       LoggingService,
       LoggingInterceptor,
+      TracedHttpClient,
+      // Drains the pipeline before sinks and clients tear down
+      ShutdownCoordinator,
     ];
 
+    const controllers: Type[] = [SamplingController, MetricsController];
+
     const exports: any[] = [
       LoggingUseCase,
       LoggingService,
       ContextService,
       LoggingInterceptor,
       FinalizeMetrics,
+      PipelineMetrics,
+      SamplingConfigService,
+      TracedHttpClient,
     ];
 
     if (storageType === 'file') {
       console.log('########## File storage type is enabled ##########');
       providers.push(FileLogger);
       providers.push({
+        // Single instance: the logger owns the file handle and timers
         provide: LoggerPort,
-        useClass: FileLogger,
+        useExisting: FileLogger,
       });
       exports.push(LoggerPort);
     } else if (storageType === 'mongodb') {
       console.log('########## MongoDB storage type is enabled ##########');
       providers.push(MongoConnectionClient, MongoLogger);
+      providers.push(...LoggingModule.spoolProviders());
       providers.push({
+        // Single instance: the buffer reported on /metrics is the one in use
         provide: LoggerPort,
-        useClass: MongoLogger,
+        useExisting: MongoLogger,
       });
       exports.push(LoggerPort);
-    } else if (storageType === 'kafka') {
-      console.log('########## Kafka storage type is enabled ##########');
-      providers.push(
-        MongoConnectionClient,
-        MongoLogger,
-        KafkaProducerClient,
-        KafkaConsumerClient,
-        KafkaProducer,
-        LoggingModeService,
-        {
-          provide: MqProducerPort,
-          useClass: KafkaProducer,
-        },
-        {
-          provide: LoggerPort,
-          useFactory: (producer, mongo, modeService, config) =>
-            new KafkaLogger(producer, mongo, modeService, config),
-          inject: [
-            MqProducerPort,
-            MongoLogger,
-            LoggingModeService,
-            ConfigService,
-          ],
-        },
-        MqConsumerService,
+    } else if (storageType === 'kafka' || storageType === 'redis') {
+      console.log(
+        `########## MQ storage type is enabled (${LoggingModule.mqType(storageType)}) ##########`,
       );
+      providers.push(...LoggingModule.sinkProviders(storageType));
+      providers.push({
+        provide: LoggerPort,
+        useExisting: KafkaLogger,
+      });
+      controllers.push(DeadLetterController);
       exports.push(LoggerPort, MqProducerPort);
+    } else if (storageType === 'otlp') {
+      console.log('########## OTLP storage type is enabled ##########');
+      providers.push(OtlpLogger);
+      providers.push({
+        // Single instance: the exporter owns a queue and flush timer
+        provide: LoggerPort,
+        useExisting: OtlpLogger,
+      });
+      exports.push(LoggerPort);
+    } else if (storageType === 'composite') {
+      console.log('########## Composite storage type is enabled ##########');
+      const sinkSpecs = CompositeLogger.parseSinks(process.env.LOG_SINKS || '');
+      if (sinkSpecs.length === 0) {
+        throw new Error('STORAGE_TYPE=composite requires LOG_SINKS');
+      }
+
+      const mqTypes = new Set(
+        sinkSpecs
+          .filter((spec) => spec.type === 'kafka' || spec.type === 'redis')
+          .map((spec) => LoggingModule.mqType(spec.type)),
+      );
+      if (mqTypes.size > 1) {
+        throw new Error('LOG_SINKS can use only one MQ type');
+      }
+
+      const sinkTokens = sinkSpecs.map((spec) => {
+        const token = LoggingModule.SINK_TOKENS[spec.type];
+        if (!token) {
+          throw new Error(
+            `Unknown sink "${spec.type}" in LOG_SINKS (expected one of: ${Object.keys(LoggingModule.SINK_TOKENS).join(', ')})`,
+          );
+        }
+        return token;
+      });
+
+      const sinkProviders = new Set<Provider>();
+      for (const spec of sinkSpecs) {
+        LoggingModule.sinkProviders(spec.type).forEach((provider) =>
+          sinkProviders.add(provider),
+        );
+      }
+      providers.push(...sinkProviders);
+      providers.push({
+        provide: LoggerPort,
+        useFactory: (metrics: FinalizeMetrics, ...loggers: LoggerPort[]) => {
+          const sinks: LogSink[] = sinkSpecs.map((spec, index) => ({
+            name: spec.type,
+            logger: loggers[index],
+            filter: spec.filter,
+          }));
+          return new CompositeLogger(
+            sinks,
+            metrics,
+            parseInt(process.env.LOG_SINK_TIMEOUT_MS || '', 10) || 5000,
+          );
+        },
+        inject: [FinalizeMetrics, ...sinkTokens],
+      });
+      exports.push(LoggerPort);
+      if (mqTypes.size > 0) {
+        controllers.push(DeadLetterController);
+        exports.push(MqProducerPort);
+      }
+    }
+
+    if (providers.includes(DiskSpool)) {
+      controllers.push(SpoolController);
     }
 
     return {
       global: true,
       module: LoggingModule,
+      controllers: controllers,
       providers: providers,
       exports: exports,
     };
   }
+
+  /**
+   * LoggerPort implementation used for each sink type in LOG_SINKS.
+   */
+  private static readonly SINK_TOKENS: Record<string, Type<LoggerPort>> = {
+    file: FileLogger,
+    mongodb: MongoLogger,
+    kafka: KafkaLogger,
+    redis: KafkaLogger,
+    otlp: OtlpLogger,
+  };
+
+  /**
+   * MQ broker for an MQ sink: STORAGE_TYPE=redis (or a `redis` sink) always
+   * means Redis Streams; otherwise MQ_TYPE decides (default kafka).
+   */
+  private static mqType(type: string): string {
+    if (type === 'redis') {
+      return 'redis';
+    }
+    return (process.env.MQ_TYPE || '').trim() || 'kafka';
+  }
+
+  /**
+   * Spool providers, unless disabled with LOG_SPOOL_ENABLED=false.
+   */
+  private static spoolProviders(): Provider[] {
+    return process.env.LOG_SPOOL_ENABLED === 'false' ? [] : SPOOL_PROVIDERS;
+  }
+
+  /**
+   * Providers required by one sink type.
+   * Shared providers (e.g. MongoLogger for kafka and mongodb) are the same
+   * object references, so they can be de-duplicated with a Set.
+   */
+  private static sinkProviders(type: string): Provider[] {
+    switch (type) {
+      case 'file':
+        return [FileLogger];
+      case 'mongodb':
+        return [
+          MongoConnectionClient,
+          MongoLogger,
+          ...LoggingModule.spoolProviders(),
+        ];
+      case 'otlp':
+        return [OtlpLogger];
+      case 'kafka':
+      case 'redis':
+        return LoggingModule.mqProviders(LoggingModule.mqType(type));
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Providers for an MQ sink: the broker adapters plus the broker-neutral
+   * pipeline around them (KafkaLogger works with any
+   * MqProducerPort; MqConsumerService with any MqConsumerPort).
+   */
+  private static mqProviders(mqType: string): Provider[] {
+    return [
+      MongoConnectionClient,
+      MongoLogger,
+      ...LoggingModule.spoolProviders(),
+      ...LoggingModule.brokerProviders(mqType),
+      LoggingModeService,
+      {
+        // MongoLogger is the explicit fallback (not LoggerPort, which may
+        // be the composite logger itself)
+        provide: KafkaLogger,
+        useFactory: (producer, mongo, modeService, config, spool) =>
+          new KafkaLogger(producer, mongo, modeService, config, spool),
+        inject: [
+          MqProducerPort,
+          MongoLogger,
+          LoggingModeService,
+          ConfigService,
+          { token: LogSpoolPort, optional: true },
+        ],
+      },
+      DeadLetterService,
+      MqConsumerService,
+    ];
+  }
+
+  /**
+   * Producer, consumer and dead-letter adapters for one MQ_TYPE.
+   * `memory` is an in-process queue for development and tests.
+   */
+  private static brokerProviders(mqType: string): Provider[] {
+    switch (mqType) {
+      case 'redis':
+        return [
+          RedisStreamClient,
+          RedisStreamProducer,
+          RedisStreamConsumer,
+          RedisDeadLetterQueue,
+          { provide: MqProducerPort, useExisting: RedisStreamProducer },
+          { provide: MqConsumerPort, useExisting: RedisStreamConsumer },
+          { provide: DeadLetterPort, useExisting: RedisDeadLetterQueue },
+        ];
+      case 'memory':
+        return [
+          InMemoryQueue,
+          InMemoryProducer,
+          InMemoryConsumer,
+          InMemoryDeadLetterQueue,
+          { provide: MqProducerPort, useExisting: InMemoryProducer },
+          { provide: MqConsumerPort, useExisting: InMemoryConsumer },
+          { provide: DeadLetterPort, useExisting: InMemoryDeadLetterQueue },
+        ];
+      default:
+        return [
+          KafkaProducerClient,
+          KafkaConsumerClient,
+          KafkaProducer,
+          KafkaConsumer,
+          KafkaDeadLetterQueue,
+          { provide: MqProducerPort, useExisting: KafkaProducer },
+          { provide: MqConsumerPort, useExisting: KafkaConsumer },
+          { provide: DeadLetterPort, useExisting: KafkaDeadLetterQueue },
+        ];
+    }
+  }
 }
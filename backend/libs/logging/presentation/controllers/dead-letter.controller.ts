@@ -0,0 +1,64 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Query,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { DeadLetterService, DeadLetterStats } from 'libs/logging/service';
+import { DeadLetterListResult, DeadLetterRedriveResult } from '@logging/dtos';
+import { Service } from '../service.decorator';
+
+/**
+ * DeadLetterController - Inspect and re-drive dead-lettered log events.
+ * Registered only when the Kafka pipeline is enabled.
+ *
+ * - GET  /logging/dlq          pending messages (`?limit`, default 50)
+ * - GET  /logging/dlq/stats    dead-letter counters
+ * - POST /logging/dlq/redrive  publish pending messages back to their source topic
+ */
+@Controller('logging/dlq')
+@Service('logging')
+export class DeadLetterController {
+  constructor(private readonly deadLetterService: DeadLetterService) {}
+
+  @Get()
+  async list(@Query('limit') limit?: string): Promise<DeadLetterListResult> {
+    try {
+      return await this.deadLetterService.list(this.parseLimit(limit));
+    } catch (error) {
+      throw new HttpException(
+        { errorCode: 'UNAVAILABLE', error: error.message },
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+  }
+
+  @Get('stats')
+  getStats(): DeadLetterStats {
+    return this.deadLetterService.getStats();
+  }
+
+  @Post('redrive')
+  async redrive(
+    @Query('limit') limit?: string,
+  ): Promise<DeadLetterRedriveResult> {
+    const result = await this.deadLetterService.redrive(this.parseLimit(limit));
+
+    if (!result.success) {
+      throw new HttpException(
+        result,
+        result.errorCode === 'UNAVAILABLE'
+          ? HttpStatus.SERVICE_UNAVAILABLE
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+
+    return result;
+  }
+
+  private parseLimit(limit?: string): number | undefined {
+    return limit ? parseInt(limit, 10) : undefined;
+  }
+}
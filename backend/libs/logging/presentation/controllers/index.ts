@@ -0,0 +1,4 @@
+export * from './sampling.controller';
+export * from './dead-letter.controller';
+export * from './spool.controller';
+export * from './metrics.controller';
@@ -0,0 +1,20 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { MetricsService } from 'libs/logging/service';
+import { NoLog } from '../decorators';
+
+/**
+ * MetricsController - Prometheus scrape endpoint.
+ *
+ * - GET /metrics  logging pipeline metrics in the Prometheus text format
+ */
+@Controller('metrics')
+@NoLog()
+export class MetricsController {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  @Get()
+  @Header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+  getMetrics(): string {
+    return this.metricsService.render();
+  }
+}
@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Query,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { SamplingConfigService } from 'libs/logging/service';
+import {
+  SamplingConfigState,
+  SamplingConfigUpdateRequest,
+} from '@logging/dtos';
+import { Service } from '../service.decorator';
+
+/**
+ * SamplingController - Runtime sampling configuration.
+ *
+ * - GET    /logging/sampling  current, baseline and version
+ * - PUT    /logging/sampling  partial update (optional ttlSeconds, expectedVersion)
+ * - DELETE /logging/sampling  revert to the baseline (env) configuration
+ */
+@Controller('logging/sampling')
+@Service('logging')
+export class SamplingController {
+  constructor(private readonly samplingConfigService: SamplingConfigService) {}
+
+  @Get()
+  getState(): SamplingConfigState {
+    return this.samplingConfigService.getState();
+  }
+
+  @Put()
+  async update(
+    @Body() request: SamplingConfigUpdateRequest,
+  ): Promise<SamplingConfigState> {
+    const result = await this.samplingConfigService.update(request);
+
+    if (!result.success || !result.state) {
+      const status =
+        result.errorCode === 'VERSION_CONFLICT'
+          ? HttpStatus.CONFLICT
+          : HttpStatus.BAD_REQUEST;
+
+      throw new HttpException(
+        {
+          errorCode: result.errorCode,
+          errors: result.errors,
+          state: result.state,
+        },
+        status,
+      );
+    }
+
+    return result.state;
+  }
+
+  @Delete()
+  async reset(
+    @Query('changedBy') changedBy?: string,
+  ): Promise<SamplingConfigState> {
+    return this.samplingConfigService.reset(changedBy);
+  }
+}
@@ -0,0 +1,27 @@
+import { Controller, Get, Post } from '@nestjs/common';
+import { SpoolReplayService, SpoolReplayStats } from 'libs/logging/service';
+import { Service } from '../service.decorator';
+
+/**
+ * SpoolController - Disk spool monitoring.
+ * Registered only when the spool is enabled.
+ *
+ * - GET  /logging/spool         depth, oldest entry age, replay progress
+ * - POST /logging/spool/replay  drain now instead of waiting for the timer
+ */
+@Controller('logging/spool')
+@Service('logging')
+export class SpoolController {
+  constructor(private readonly spoolReplayService: SpoolReplayService) {}
+
+  @Get()
+  getStats(): SpoolReplayStats {
+    return this.spoolReplayService.getStats();
+  }
+
+  @Post('replay')
+  async replay(): Promise<SpoolReplayStats & { delivered: number }> {
+    const delivered = await this.spoolReplayService.replay();
+    return { ...this.spoolReplayService.getStats(), delivered };
+  }
+}
@@ -1,4 +1,5 @@
 import { SetMetadata } from '@nestjs/common';
+import type { SamplingHintLevel } from '@logging/domain';
 
 /**
  * Metadata keys for logging control decorators
@@ -7,9 +8,9 @@ export const NO_LOG_KEY = 'no_log';
 export const LOG_SAMPLING_HINT_KEY = 'log_sampling_hint';
 
 /**
- * Sampling hint values
+ * Sampling hint values (defined by the domain SamplingPolicy)
  */
-export type SamplingHintLevel = 'critical' | 'important' | 'normal' | 'low';
+export type { SamplingHintLevel };
 
 /**
  * @NoLog - Excludes the endpoint from logging entirely.
@@ -38,14 +39,15 @@ export const NoLog = () => SetMetadata(NO_LOG_KEY, true);
 /**
  * @LogSamplingHint - Provides a hint to the sampling policy.
  *
- * This doesn't guarantee recording; the actual decision is made by SamplingPolicy.
- * However, 'critical' routes are typically always recorded.
+ * The actual decision is made by SamplingPolicy. Errors, slow requests and
+ * critical routes are always recorded regardless of the hint; otherwise the
+ * hint selects the rate, and the kept event's `_sampling.reason` says which.
  *
  * @param level - Importance level for sampling decisions
- *   - 'critical': Always record (payment, auth, critical business flows)
- *   - 'important': Higher sampling rate
- *   - 'normal': Default sampling rate (default behavior)
- *   - 'low': Lower sampling rate (listing, search, etc.)
+ *   - 'critical': Always record (CRITICAL_HINT)
+ *   - 'important': LOG_SAMPLING_IMPORTANT_RATE (SAMPLED_IMPORTANT)
+ *   - 'normal': LOG_SAMPLING_NORMAL_RATE (SAMPLED_NORMAL, default behavior)
+ *   - 'low': LOG_SAMPLING_LOW_RATE (SAMPLED_LOW; listing, search, etc.)
  *
  * @example
  * ```typescript
@@ -1,4 +1,9 @@
 import { SetMetadata } from '@nestjs/common';
+import {
+  DEFAULT_REDACT_PATHS,
+  RedactionDetector,
+  RedactionMode,
+} from '@logging/domain';
 
 /**
  * Metadata key for redaction decorator
@@ -9,46 +14,44 @@ export const LOG_REDACT_KEY = 'log_redact';
  * Redaction configuration
  */
 export interface LogRedactConfig {
-  /** Paths to redact (e.g., ['body.password', 'headers.authorization']) */
+  /**
+   * Path patterns to redact, added to the defaults and LOG_REDACT_PATHS.
+   * Request meta paths start with the request source ('body.password',
+   * 'headers.authorization'), @LogResponseMeta values with 'response.'
+   * and error metadata with 'error.' ('error.rawResponse.token').
+   * Wildcards: `*` one segment, `**` any depth, `[*]` any array index.
+   */
   paths: string[];
   /** Replacement string (default: '[REDACTED]') */
   replacement?: string;
+  /** Redaction mode (default: LOG_REDACT_MODE, else replace) */
+  mode?: RedactionMode;
+  /** Value detectors applied to strings (default: LOG_REDACT_DETECTORS, else all) */
+  detectors?: RedactionDetector[];
 }
 
 /**
  * Default paths that are always redacted for security
  */
-export const DEFAULT_REDACT_PATHS = [
-  'body.password',
-  'body.currentPassword',
-  'body.newPassword',
-  'body.confirmPassword',
-  'body.secret',
-  'body.apiKey',
-  'body.token',
-  'body.accessToken',
-  'body.refreshToken',
-  'body.cardNumber',
-  'body.cvv',
-  'body.ssn',
-  'headers.authorization',
-  'headers.cookie',
-  'headers.x-api-key',
-];
+export { DEFAULT_REDACT_PATHS };
 
 /**
  * @LogRedact - Specifies paths to redact (mask) in logs.
  *
  * IMPORTANT: Always use this for sensitive data. Default sensitive paths
- * are automatically redacted, but you should explicitly declare any
- * domain-specific sensitive fields.
+ * are automatically redacted, and card numbers, emails, JWTs and phone
+ * numbers are detected in any logged string, but you should explicitly
+ * declare any domain-specific sensitive fields.
+ *
+ * Redaction applies to @LogRequestMeta and @LogResponseMeta values, error
+ * metadata and error messages.
  *
  * @param pathsOrConfig - Array of paths or config object
  *
  * @example Basic usage
  * ```typescript
  * @Post()
- * @LogRedact(['body.creditCard', 'body.socialSecurityNumber'])
+ * @LogRedact(['body.creditCard', 'body.**.socialSecurityNumber'])
  * async sensitiveOperation(@Body() dto: SensitiveDto) { ... }
  * ```
  *
@@ -59,6 +62,14 @@ export const DEFAULT_REDACT_PATHS = [
  * async verifyPin(@Body() dto: PinDto) { ... }
  * ```
  *
+ * @example Keyed hashes (requires LOG_REDACT_HASH_KEY)
+ * ```typescript
+ * @Post()
+ * @LogRequestMeta(['body.items'])
+ * @LogRedact({ paths: ['body.items[*].iban'], mode: RedactionMode.HASH })
+ * async payout(@Body() dto: PayoutDto) { ... }
+ * ```
+ *
  * @example Combining with @LogRequestMeta
  * ```typescript
  * @Post()
@@ -72,8 +83,5 @@ export function LogRedact(pathsOrConfig: string[] | LogRedactConfig) {
     ? { paths: pathsOrConfig }
     : pathsOrConfig;
 
-  return SetMetadata(LOG_REDACT_KEY, {
-    paths: [...DEFAULT_REDACT_PATHS, ...config.paths],
-    replacement: config.replacement ?? '[REDACTED]',
-  });
+  return SetMetadata(LOG_REDACT_KEY, config);
 }
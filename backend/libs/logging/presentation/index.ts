@@ -2,3 +2,4 @@ export * from './logging.interceptor';
 export * from './service.decorator';
 export * from './decorators';
 export * from './normalizers';
+export * from './controllers';
@@ -8,11 +8,16 @@ import {
 import { Reflector } from '@nestjs/core';
 import { Observable, throwError } from 'rxjs';
 import { catchError, finalize, tap } from 'rxjs/operators';
-import { Request } from 'express';
+import { Request, Response } from 'express';
 import { randomUUID } from 'crypto';
 import { LoggingUseCase } from '@logging/in-ports';
 import { ContextService } from 'libs/logging/service';
-import { FinalizeMetrics } from '@logging/domain';
+import {
+  FinalizeMetrics,
+  LoggingContext,
+  RedactionPolicy,
+  TraceContext,
+} from '@logging/domain';
 import { RouteNormalizer, ErrorNormalizer } from './normalizers';
 
 // Import decorator metadata keys
@@ -27,7 +32,7 @@ import {
   LogUserConfig,
   LogMetaConfig,
   LogRedactConfig,
-  DEFAULT_REDACT_PATHS,
+  SamplingHintLevel,
 } from './decorators';
 
 /**
@@ -40,8 +45,9 @@ interface HandlerMetadata {
   logUserFromRequest: boolean;
   requestMetaConfig: (LogMetaConfig & { paths: string[] }) | null;
   responseMetaConfig: (LogMetaConfig & { paths: string[] }) | null;
-  redactConfig: LogRedactConfig;
-  samplingHint: string | null;
+  /** Global policy extended with the handler's @LogRedact config */
+  redaction: RedactionPolicy;
+  samplingHint: SamplingHintLevel | null;
 }
 
 /**
@@ -50,8 +56,10 @@ interface HandlerMetadata {
  * Responsibilities:
  * - Initialize logging context at request start (sync)
  * - Auto-enrich context from decorator metadata (@LogUser, @LogRequestMeta, etc.)
+ * - Continue or start a W3C trace (traceparent / tracestate)
  * - Normalize routes for consistent querying
  * - Normalize errors for stable error codes/messages
+ * - Redact request/response meta, error meta and error messages
  * - Track request duration (performance)
  * - Finalize and flush the Wide Event at request end (async)
  *
@@ -66,6 +74,25 @@ interface HandlerMetadata {
 export class LoggingInterceptor implements NestInterceptor {
   private readonly SERVICE_METADATA_KEY = 'service';
 
+  /**
+   * Header that groups related requests for tail-based sampling.
+   */
+  private readonly CORRELATION_HEADER = (
+    process.env.LOG_CORRELATION_HEADER || 'x-correlation-id'
+  ).toLowerCase();
+
+  /**
+   * Header carrying the upstream service's sampling verdict ("1" / "0").
+   */
+  private readonly SAMPLED_HEADER = (
+    process.env.LOG_SAMPLED_HEADER || 'x-sampled'
+  ).toLowerCase();
+
+  /**
+   * Global redaction policy (LOG_REDACT_*), extended per handler by @LogRedact.
+   */
+  private readonly redactionPolicy = RedactionPolicy.fromEnv(process.env);
+
   /**
    * Cache for handler metadata to avoid repeated Reflector lookups.
    * WeakMap allows GC of handlers when they're no longer referenced.
@@ -128,17 +155,20 @@ export class LoggingInterceptor implements NestInterceptor {
             controller,
           ) ||
           null,
-        redactConfig: this.reflector.get<LogRedactConfig>(
-          LOG_REDACT_KEY,
-          handler,
-        ) ||
-          this.reflector.get<LogRedactConfig>(LOG_REDACT_KEY, controller) || {
-            paths: DEFAULT_REDACT_PATHS,
-            replacement: '[REDACTED]',
-          },
+        redaction: this.resolveRedactionPolicy(
+          this.reflector.get<LogRedactConfig>(LOG_REDACT_KEY, handler) ||
+            this.reflector.get<LogRedactConfig>(LOG_REDACT_KEY, controller) ||
+            null,
+        ),
         samplingHint:
-          this.reflector.get<string>(LOG_SAMPLING_HINT_KEY, handler) ||
-          this.reflector.get<string>(LOG_SAMPLING_HINT_KEY, controller) ||
+          this.reflector.get<SamplingHintLevel>(
+            LOG_SAMPLING_HINT_KEY,
+            handler,
+          ) ||
+          this.reflector.get<SamplingHintLevel>(
+            LOG_SAMPLING_HINT_KEY,
+            controller,
+          ) ||
           null,
       };
 
@@ -148,6 +178,23 @@ export class LoggingInterceptor implements NestInterceptor {
     return cached;
   }
 
+  private resolveRedactionPolicy(
+    config: LogRedactConfig | null,
+  ): RedactionPolicy {
+    if (!config) {
+      return this.redactionPolicy;
+    }
+
+    return this.redactionPolicy.extend({
+      paths: config.paths,
+      ...(config.replacement !== undefined && {
+        replacement: config.replacement,
+      }),
+      ...(config.mode !== undefined && { mode: config.mode }),
+      ...(config.detectors !== undefined && { detectors: config.detectors }),
+    });
+  }
+
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
     const handler = context.getHandler();
     const controller = context.getClass();
@@ -181,6 +228,13 @@ export class LoggingInterceptor implements NestInterceptor {
       route,
     );
 
+    // Continue the caller's W3C trace (or start one) and echo it to the client
+    this.applyTraceContext(
+      request,
+      context.switchToHttp().getResponse<Response>(),
+      loggingContext,
+    );
+
     // 3. Process @LogUser or @LogUserFromRequest (using cached config)
     this.applyUserEnrichmentCached(request, metadata, loggingContext);
 
@@ -195,16 +249,40 @@ export class LoggingInterceptor implements NestInterceptor {
       };
     }
 
+    // 6. Capture correlation id (groups related requests for tail sampling)
+    const correlationId = request.headers[this.CORRELATION_HEADER];
+    if (typeof correlationId === 'string' && correlationId.length > 0) {
+      loggingContext._metadata = {
+        ...loggingContext._metadata,
+        _correlationId: correlationId,
+      };
+    }
+
+    // Capture upstream sampling verdict (keeps a flow recorded in every service or none)
+    const upstreamSampled = this.parseSampledHeader(
+      request.headers[this.SAMPLED_HEADER],
+    );
+    if (upstreamSampled !== null) {
+      loggingContext._metadata = {
+        ...loggingContext._metadata,
+        _upstreamSampled: upstreamSampled.sampled,
+        ...(upstreamSampled.rate !== undefined && {
+          _upstreamSampleRate: upstreamSampled.rate,
+        }),
+      };
+    }
+
     const startTime = Date.now();
 
     return this.contextService.run(loggingContext, () => {
       return next.handle().pipe(
-        // 6. Process @LogResponseMeta - extract fields from response
+        // 7. Process @LogResponseMeta - extract fields from response
         tap((response) => {
           if (metadata.responseMetaConfig && response) {
             const responseMeta = this.extractResponseMeta(
               response,
               metadata.responseMetaConfig,
+              metadata.redaction,
             );
             loggingContext._metadata = {
               ...loggingContext._metadata,
@@ -213,18 +291,21 @@ export class LoggingInterceptor implements NestInterceptor {
           }
         }),
         catchError((error) => {
-          // 7. Use ErrorNormalizer for consistent error handling
+          // 8. Use ErrorNormalizer for consistent error handling
           const normalized = ErrorNormalizer.normalize(error);
 
           loggingContext.error = {
             code: normalized.code,
-            message: normalized.message,
+            message: metadata.redaction.redactText(normalized.message),
           };
 
           // Store detailed error metadata separately
           loggingContext._metadata = {
             ...loggingContext._metadata,
-            _errorMeta: normalized._errorMeta,
+            _errorMeta: metadata.redaction.redact(
+              normalized._errorMeta,
+              'error',
+            ),
           };
 
           return throwError(() => error);
@@ -233,7 +314,7 @@ export class LoggingInterceptor implements NestInterceptor {
           const durationMs = Date.now() - startTime;
           loggingContext.performance = { durationMs };
 
-          // 8. Finalize with metrics tracking
+          // 9. Finalize with metrics tracking
           this.loggingUseCase
             .finalize(loggingContext)
             .then(() => this.finalizeMetrics.recordSuccess())
@@ -293,27 +374,18 @@ export class LoggingInterceptor implements NestInterceptor {
       return;
     }
 
-    const redactConfig = metadata.redactConfig;
     const extractedMeta: Record<string, any> = {};
 
     for (const path of metaConfig.paths) {
       const value = this.extractValueByPath(request, path);
       if (value !== undefined) {
-        // Check if this path should be redacted
-        const shouldRedact = redactConfig.paths.some(
-          (redactPath) =>
-            path === redactPath ||
-            path.endsWith(`.${redactPath.split('.').pop()}`),
-        );
-
         const key = path.split('.').pop() || path;
-        extractedMeta[key] = shouldRedact
-          ? redactConfig.replacement
-          : this.sanitizeValue(
-              value,
-              metaConfig.maxDepth ?? 2,
-              metaConfig.maxStringLength ?? 200,
-            );
+        // Redact before truncation, so detectors see whole values
+        extractedMeta[key] = this.sanitizeValue(
+          metadata.redaction.redact(value, path),
+          metaConfig.maxDepth ?? 2,
+          metaConfig.maxStringLength ?? 200,
+        );
       }
     }
 
@@ -323,12 +395,89 @@ export class LoggingInterceptor implements NestInterceptor {
     };
   }
 
+  /**
+   * Parse incoming traceparent/tracestate into the context.
+   * Each request gets its own span; the caller's span becomes the parent.
+   */
+  private applyTraceContext(
+    request: Request,
+    response: Response,
+    loggingContext: LoggingContext,
+  ): void {
+    const traceparent = request.headers['traceparent'];
+    const parent = TraceContext.parseTraceparent(
+      Array.isArray(traceparent) ? traceparent[0] : traceparent,
+    );
+    const tracestate = request.headers['tracestate'];
+
+    const traceId = parent?.traceId ?? TraceContext.generateTraceId();
+    const spanId = TraceContext.generateSpanId();
+    // tracestate is only meaningful alongside a valid traceparent
+    const traceState = parent
+      ? TraceContext.parseTracestate(
+          Array.isArray(tracestate) ? tracestate.join(',') : tracestate,
+        )
+      : null;
+
+    loggingContext.enrich({
+      traceId,
+      spanId,
+      parentSpanId: parent?.parentSpanId,
+      traceFlags: parent?.flags,
+      traceState: traceState ?? undefined,
+    });
+
+    if (!response.headersSent) {
+      response.setHeader(
+        'traceparent',
+        TraceContext.formatTraceparent(traceId, spanId, parent?.flags),
+      );
+      if (traceState) {
+        response.setHeader('tracestate', traceState);
+      }
+    }
+  }
+
+  /**
+   * Parse the upstream sampled header: a verdict, optionally followed by the
+   * rate upstream sampled with ("1;rate=0.05"). Returns null when absent or
+   * unrecognized; an invalid rate is left out.
+   */
+  private parseSampledHeader(
+    value: string | string[] | undefined,
+  ): { sampled: boolean; rate?: number } | null {
+    const raw = Array.isArray(value) ? value[0] : value;
+    const [verdict, ...params] = (raw ?? '').split(';');
+
+    let sampled: boolean;
+    switch (verdict.trim().toLowerCase()) {
+      case '1':
+      case 'true':
+        sampled = true;
+        break;
+      case '0':
+      case 'false':
+        sampled = false;
+        break;
+      default:
+        return null;
+    }
+
+    const rateParam = params.find((param) =>
+      param.trim().toLowerCase().startsWith('rate='),
+    );
+    const rate = rateParam ? Number(rateParam.split('=')[1]) : NaN;
+    return rate > 0 && rate <= 1 ? { sampled, rate } : { sampled };
+  }
+
   /**
    * Extract response metadata from @LogResponseMeta configuration.
+   * Values are redacted under the 'response.' path prefix.
    */
   private extractResponseMeta(
     response: any,
     config: LogMetaConfig & { paths: string[] },
+    redaction: RedactionPolicy,
   ): Record<string, any> {
     const meta: Record<string, any> = {};
 
@@ -337,7 +486,7 @@ export class LoggingInterceptor implements NestInterceptor {
       if (value !== undefined) {
         const key = path.includes('.') ? path.replace(/\./g, '_') : path;
         meta[`response_${key}`] = this.sanitizeValue(
-          value,
+          redaction.redact(value, `response.${path}`),
           config.maxDepth ?? 2,
           config.maxStringLength ?? 200,
         );
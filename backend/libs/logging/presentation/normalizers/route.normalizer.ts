@@ -1,5 +1,17 @@
 import { Request } from 'express';
 
+/**
+ * Path segments that look like identifiers and are collapsed to `:id`.
+ */
+const ID_SEGMENT_PATTERNS: RegExp[] = [
+  // Numeric ids: /users/123
+  /^\d+$/,
+  // UUIDs: /orders/3f2b...-...
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  // Mongo ObjectIds and other long hex ids (hashes, tokens)
+  /^(?=.*\d)[0-9a-f]{16,}$/i,
+];
+
 /**
  * RouteNormalizer - Creates canonical route identifiers for consistent logging.
  *
@@ -13,6 +25,7 @@ import { Request } from 'express';
  * Solution:
  * - Normalize all routes to a consistent format: "METHOD /path"
  * - Prefer template paths (with :params) over actual paths
+ * - Without a template, collapse id-like segments to `:id` (see toPattern)
  * - Strip query strings
  * - Handle base path via environment variable
  *
@@ -20,15 +33,15 @@ import { Request } from 'express';
  * // Template path available (NestJS standard)
  * RouteNormalizer.normalize(request) // "POST /payments/:id"
  *
- * // Fallback to actual path
- * RouteNormalizer.normalize(request) // "GET /users/123"
+ * // Fallback to actual path with ids collapsed
+ * RouteNormalizer.normalize(request) // "GET /users/:id"
  */
 export class RouteNormalizer {
   /**
    * Canonical route generation rules:
    * 1. Method is always uppercase
    * 2. Prefer template path (request.route?.path) for consistency
-   * 3. Fallback: request.path with query string stripped
+   * 3. Fallback: request.path with query string stripped and ids collapsed
    * 4. Base path is normalized via API_BASE_PATH environment variable
    */
   static normalize(request: Request): string {
@@ -38,7 +51,7 @@ export class RouteNormalizer {
     const basePath = process.env.API_BASE_PATH || '';
 
     // Prefer template path for better aggregation (e.g., /users/:id instead of /users/123)
-    const path = templatePath || actualPath;
+    const path = templatePath || this.toPattern(actualPath);
 
     // Normalize base path handling
     const normalizedPath = this.normalizeBasePath(path, basePath);
@@ -108,13 +121,28 @@ export class RouteNormalizer {
 
   /**
    * Create a route pattern for matching in SamplingPolicy.
-   * Converts actual paths to pattern-matchable format.
+   * Collapses id-like path segments (numeric, UUID, ObjectId / long hex)
+   * to `:id` so that raw paths aggregate like template paths.
+   * Accepts either a full route ("METHOD /path") or a bare path.
    *
    * @example
-   * toPattern("GET /users/123") // "GET /users/:id" (if template available)
+   * toPattern("GET /users/123") // "GET /users/:id"
+   * toPattern("/orders/65a1f0c2e4b0a1b2c3d4e5f6/items") // "/orders/:id/items"
    */
   static toPattern(route: string): string {
-    // For now, return as-is. In future, could implement pattern detection.
-    return route;
+    const spaceIndex = route.indexOf(' ');
+    const prefix = spaceIndex === -1 ? '' : route.substring(0, spaceIndex + 1);
+    const path = spaceIndex === -1 ? route : route.substring(spaceIndex + 1);
+
+    const normalizedPath = path
+      .split('/')
+      .map((segment) =>
+        ID_SEGMENT_PATTERNS.some((pattern) => pattern.test(segment))
+          ? ':id'
+          : segment,
+      )
+      .join('/');
+
+    return `${prefix}${normalizedPath}`;
   }
 }
@@ -0,0 +1,133 @@
+import 'reflect-metadata';
+import { LoggingContext, TraceContext } from '@logging/domain';
+import { ContextService } from './context.service';
+
+describe('ContextService', () => {
+  let contextService: ContextService;
+  let context: LoggingContext;
+
+  const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    contextService = new ContextService();
+    context = new LoggingContext('req-1', 'payments', 'POST /payments');
+    context.enrich({
+      traceId: TraceContext.generateTraceId(),
+      spanId: TraceContext.generateSpanId(),
+    });
+  });
+
+  describe('startSpan', () => {
+    it('should parent spans to the request span outside of withSpan', () => {
+      contextService.run(context, () => {
+        const first = contextService.startSpan('first');
+        // first is still open: it must not become the parent
+        const second = contextService.startSpan('second');
+
+        expect(first.parentSpanId).toBe(context.spanId);
+        expect(second.parentSpanId).toBe(context.spanId);
+        expect(context.spans).toEqual([first, second]);
+      });
+    });
+
+    it('should give concurrent siblings the same parent', async () => {
+      await contextService.run(context, async () => {
+        const parent = contextService.startSpan('settle');
+
+        const [debit, credit] = await contextService.withSpan(parent, () =>
+          Promise.all(
+            ['debit', 'credit'].map(async (name) => {
+              await tick();
+              const span = contextService.startSpan(name);
+              await tick();
+              return span;
+            }),
+          ),
+        );
+
+        expect(debit.parentSpanId).toBe(parent.spanId);
+        expect(credit.parentSpanId).toBe(parent.spanId);
+      });
+    });
+
+    it('should nest by call structure across async boundaries', async () => {
+      await contextService.run(context, async () => {
+        const outer = contextService.startSpan('outer');
+
+        const inner = await contextService.withSpan(outer, async () => {
+          await tick();
+          const span = contextService.startSpan('inner');
+          const leaf = await contextService.withSpan(span, async () => {
+            await tick();
+            return contextService.startSpan('leaf');
+          });
+          return { span, leaf };
+        });
+        const after = contextService.startSpan('after');
+
+        expect(inner.span.parentSpanId).toBe(outer.spanId);
+        expect(inner.leaf.parentSpanId).toBe(inner.span.spanId);
+        expect(after.parentSpanId).toBe(context.spanId);
+      });
+    });
+
+    it('should prefer an explicit parent over the active span', () => {
+      contextService.run(context, () => {
+        const explicitParent = contextService.startSpan('explicit');
+        const active = contextService.startSpan('active');
+
+        const span = contextService.withSpan(active, () =>
+          contextService.startSpan('child', { parent: explicitParent }),
+        );
+
+        expect(span.parentSpanId).toBe(explicitParent.spanId);
+      });
+    });
+
+    it('should time but not record spans outside of a context', () => {
+      const span = contextService.startSpan('orphan', { service: 'jobs' });
+
+      expect(span.service).toBe('jobs');
+      expect(span.parentSpanId).toBeUndefined();
+      expect(context.spans).toBeUndefined();
+    });
+  });
+
+  describe('endOpenSpans', () => {
+    it('should end open spans as failed and keep ended ones', () => {
+      contextService.run(context, () => {
+        const ended = contextService.startSpan('ended', undefined);
+        contextService.endSpan(ended);
+        const open = contextService.startSpan('open');
+
+        contextService.endOpenSpans(context);
+
+        expect(ended.status).toBe('OK');
+        expect(ended.error).toBeUndefined();
+        expect(open.status).toBe('ERROR');
+        expect(open.error?.code).toBe('SPAN_NOT_ENDED');
+        expect(open.durationMs).toBeGreaterThanOrEqual(0);
+      });
+    });
+  });
+
+  describe('getPropagationHeaders', () => {
+    it('should use the active span as the parent of outgoing calls', () => {
+      contextService.run(context, () => {
+        const span = contextService.startSpan('callGateway');
+
+        const outside = contextService.getPropagationHeaders();
+        const inside = contextService.withSpan(span, () =>
+          contextService.getPropagationHeaders(),
+        );
+
+        expect(TraceContext.parseTraceparent(outside.traceparent)).toEqual(
+          expect.objectContaining({ parentSpanId: context.spanId }),
+        );
+        expect(TraceContext.parseTraceparent(inside.traceparent)).toEqual(
+          expect.objectContaining({ parentSpanId: span.spanId }),
+        );
+      });
+    });
+  });
+});
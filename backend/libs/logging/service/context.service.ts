@@ -1,14 +1,28 @@
 import { Injectable } from '@nestjs/common';
 import { AsyncLocalStorage } from 'async_hooks';
-import { LoggingContext } from '@logging/domain';
+import {
+  LoggingContext,
+  TraceContext,
+  Span,
+  StartSpanOptions,
+  EndSpanOptions,
+} from '@logging/domain';
+
+/** Upper bound of spans recorded per request (protects the wide event size) */
+const MAX_SPANS_PER_CONTEXT = 100;
 
 /**
  * ContextService - Manages request-scoped logging context using AsyncLocalStorage.
  * This ensures context is preserved across async boundaries.
+ *
+ * The active span is tracked in a second AsyncLocalStorage, so spans nest
+ * by call structure: concurrent siblings started in the same scope share
+ * their parent, whatever order they are opened or ended in.
  */
 @Injectable()
 export class ContextService {
   private readonly asyncLocalStorage = new AsyncLocalStorage<LoggingContext>();
+  private readonly activeSpanStorage = new AsyncLocalStorage<Span>();
 
   /**
    * Run a function within a logging context.
@@ -67,6 +81,98 @@ export class ContextService {
     }
   }
 
+  /**
+   * Start a child span in the current context.
+   * Its parent is `options.parent`, else the active span (see withSpan()),
+   * else the request span.
+   * Outside of a context, the span is timed but not recorded.
+   */
+  startSpan(name: string, options: StartSpanOptions = {}): Span {
+    const context = this.getContext();
+    const parent = options.parent ?? this.activeSpanStorage.getStore();
+
+    const span = new Span(
+      name,
+      options.service ?? context?.service ?? 'unknown',
+      parent?.spanId ?? context?.spanId,
+      options.attributes,
+    );
+
+    if (context) {
+      context.spans = context.spans ?? [];
+      if (context.spans.length < MAX_SPANS_PER_CONTEXT) {
+        context.spans.push(span);
+      } else {
+        const dropped = context._metadata._droppedSpans;
+        context._metadata._droppedSpans =
+          (typeof dropped === 'number' ? dropped : 0) + 1;
+      }
+    }
+
+    return span;
+  }
+
+  /**
+   * End a span started with startSpan(). Ending twice is a no-op.
+   */
+  endSpan(span: Span, options?: EndSpanOptions): void {
+    span.end(options);
+  }
+
+  /**
+   * Run a function with `span` as the active span: spans started within it
+   * (including in async continuations) become its children.
+   * The span is not ended automatically.
+   */
+  withSpan<T>(span: Span, fn: () => T): T {
+    return this.activeSpanStorage.run(span, fn);
+  }
+
+  /**
+   * End the spans of a context that are still open when its request
+   * finishes, marking them as failed (SPAN_NOT_ENDED).
+   */
+  endOpenSpans(context: LoggingContext, now = Date.now()): void {
+    for (const span of context.spans ?? []) {
+      if (!span.ended) {
+        span.end(
+          {
+            error: {
+              code: 'SPAN_NOT_ENDED',
+              message: 'Span was still open when the request finished',
+            },
+          },
+          now,
+        );
+      }
+    }
+  }
+
+  /**
+   * W3C Trace Context headers for an outgoing call made within the current
+   * request. The current span (the active span, else the request span)
+   * becomes the parent of the callee's span.
+   * Returns an empty object outside of a traced context.
+   */
+  getPropagationHeaders(): Record<string, string> {
+    const context = this.getContext();
+    if (!context?.traceId || !context.spanId) {
+      return {};
+    }
+
+    const headers: Record<string, string> = {
+      traceparent: TraceContext.formatTraceparent(
+        context.traceId,
+        this.activeSpanStorage.getStore()?.spanId ?? context.spanId,
+        context.traceFlags,
+      ),
+    };
+    if (context.traceState) {
+      headers.tracestate = context.traceState;
+    }
+    return headers;
+  }
+
   /**
    * Dynamically update the service field.
    * Use this when an error occurs in a downstream service to track which step failed.
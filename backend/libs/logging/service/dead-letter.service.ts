@@ -0,0 +1,111 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DeadLetterPort } from '@logging/out-ports';
+import {
+  DeadLetterMessage,
+  DeadLetterListResult,
+  DeadLetterRedriveResult,
+} from '@logging/dtos';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/**
+ * Statistics for dead-letter handling.
+ */
+export interface DeadLetterStats {
+  topic: string;
+  /** Messages written to the dead-letter topic */
+  sentCount: number;
+  /** Messages that could not even be dead-lettered (lost) */
+  sendFailureCount: number;
+  redrivenCount: number;
+}
+
+/**
+ * DeadLetterService - Dead-lettering and re-drive of failed MQ log events.
+ *
+ * - The MQ consumer sends messages here once retries are exhausted
+ * - Admin endpoints list pending messages and re-drive them into their
+ *   source topic
+ */
+@Injectable()
+export class DeadLetterService {
+  private readonly logger = new Logger(DeadLetterService.name);
+
+  private sentCount = 0;
+  private sendFailureCount = 0;
+  private redrivenCount = 0;
+
+  constructor(private readonly deadLetterPort: DeadLetterPort) {}
+
+  /**
+   * Dead-letter a message. Never throws: if the dead-letter topic is
+   * unavailable too, the message is logged and counted as lost.
+   */
+  async send(message: DeadLetterMessage): Promise<boolean> {
+    try {
+      await this.deadLetterPort.send(message);
+      this.sentCount++;
+      this.logger.warn(
+        `Dead-lettered message from ${message.sourceTopic}[${message.sourcePartition}]@${message.sourceOffset} after ${message.attempts} attempts: ${message.reason}`,
+      );
+      return true;
+    } catch (error) {
+      this.sendFailureCount++;
+      this.logger.error(
+        `Failed to dead-letter message (requestId: ${message.requestId ?? 'unknown'}), message lost: ${error.message}`,
+      );
+      return false;
+    }
+  }
+
+  async list(limit?: number): Promise<DeadLetterListResult> {
+    return this.deadLetterPort.list(this.clampLimit(limit));
+  }
+
+  async redrive(limit?: number): Promise<DeadLetterRedriveResult> {
+    try {
+      const entries = await this.deadLetterPort.redrive(this.clampLimit(limit));
+      const redriven = entries.filter((entry) => entry.message).length;
+      const skipped = entries.length - redriven;
+
+      this.redrivenCount += redriven;
+      if (skipped > 0) {
+        this.logger.warn(
+          `Skipped ${skipped} unreadable dead-letter messages during re-drive`,
+        );
+      }
+      this.logger.log(
+        `Re-drove ${redriven} messages from ${this.deadLetterPort.getTopic()}`,
+      );
+
+      return { success: true, redriven, skipped };
+    } catch (error) {
+      const unavailable = /not connected/i.test(error.message);
+      this.logger.error(`Dead-letter re-drive failed: ${error.message}`);
+      return {
+        success: false,
+        redriven: 0,
+        skipped: 0,
+        errorCode: unavailable ? 'UNAVAILABLE' : 'REDRIVE_FAILED',
+        error: error.message,
+      };
+    }
+  }
+
+  getStats(): DeadLetterStats {
+    return {
+      topic: this.deadLetterPort.getTopic(),
+      sentCount: this.sentCount,
+      sendFailureCount: this.sendFailureCount,
+      redrivenCount: this.redrivenCount,
+    };
+  }
+
+  private clampLimit(limit?: number): number {
+    if (limit === undefined || !Number.isFinite(limit) || limit <= 0) {
+      return DEFAULT_LIMIT;
+    }
+    return Math.min(Math.floor(limit), MAX_LIMIT);
+  }
+}
@@ -1,7 +1,12 @@
 export * from './logging.service';
 export * from './context.service';
+export * from './sampling-config.service';
 export * from './logging-mode.service';
+export * from './dead-letter.service';
+export * from './spool-replay.service';
+export * from './metrics.service';
+export * from './shutdown-coordinator.service';
 export * from './worker/mq-consumer.service';
 
 // Re-export injection token
-export { SAMPLING_POLICY } from './logging.service';
+export { SAMPLING_POLICY, TAIL_SAMPLING_BUFFER } from './logging.tokens';
@@ -1,56 +1,119 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { LoggingMode } from '@logging/domain';
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import {
+  CircuitBreaker,
+  CircuitBreakerStats,
+  CircuitState,
+  LoggingMode,
+} from '@logging/domain';
 
 /**
- * LoggingModeService - A service that manages the logging mode.
+ * LoggingModeService - Single health authority for the MQ pipeline.
  *
- * When Kafka fails, automatically switch to DIRECT mode and when Kafka recovers, switch back to KAFKA mode.
+ * Wraps a CircuitBreaker (MQ_CIRCUIT_*) that both the producer side
+ * (KafkaLogger) and the consumer side (MqConsumerService) report to:
+ * - CLOSED: KAFKA mode, events are published to the MQ
+ * - OPEN: DIRECT mode, events go straight to MongoDB; the consumer is stopped
+ * - HALF_OPEN: the consumer is restarted and a trickle of real publishes
+ *   probes the broker; the rest still goes direct
+ *
+ * While open, one timer moves the circuit to HALF_OPEN when the (exponentially
+ * growing) open time has elapsed, even without traffic.
  */
 @Injectable()
-export class LoggingModeService {
+export class LoggingModeService implements OnModuleDestroy {
   private readonly logger = new Logger(LoggingModeService.name);
-  private mode: LoggingMode = LoggingMode.KAFKA;
-  private modeChangeCallbacks: Array<(mode: LoggingMode) => void> = [];
+  private readonly breaker: CircuitBreaker;
+  private probeTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.breaker = CircuitBreaker.fromEnv(process.env);
+    this.breaker.onStateChange((state, previous) => {
+      this.logger.log(`MQ circuit changed: ${previous} → ${state}`);
+      if (state === CircuitState.OPEN) {
+        this.scheduleProbe();
+      }
+    });
+  }
+
+  onModuleDestroy(): void {
+    if (this.probeTimer) {
+      clearTimeout(this.probeTimer);
+      this.probeTimer = null;
+    }
+  }
 
   /**
-   * Return the current logging mode.
+   * Return the current logging mode: KAFKA only while the circuit is closed.
    */
   getMode(): LoggingMode {
-    return this.mode;
+    return this.getState() === CircuitState.CLOSED
+      ? LoggingMode.KAFKA
+      : LoggingMode.DIRECT;
+  }
+
+  getState(): CircuitState {
+    return this.breaker.getState();
   }
 
   /**
-   * Change the logging mode and call the registered callbacks.
+   * Whether an event may be published to the MQ. While half-open only a
+   * few probe publishes are let through; report each outcome with
+   * recordSuccess()/recordFailure().
    */
-  setMode(mode: LoggingMode): void {
-    if (this.mode !== mode) {
-      const previousMode = this.mode;
-      this.mode = mode;
-      this.logger.log(`Logging mode changed: ${previousMode} → ${mode}`);
-      this.notifyModeChange(mode);
-    }
+  allowPublish(): boolean {
+    return this.breaker.allowRequest();
+  }
+
+  recordSuccess(): void {
+    this.breaker.recordSuccess();
+  }
+
+  recordFailure(reason: string): void {
+    this.breaker.recordFailure(reason);
   }
 
   /**
-   * Register a callback that will be called when the mode changes.
+   * Open the circuit immediately (e.g. the consumer crashed).
    */
-  onModeChange(callback: (mode: LoggingMode) => void): void {
-    this.modeChangeCallbacks.push(callback);
+  trip(reason: string): void {
+    this.breaker.trip(reason);
   }
 
   /**
-   * Notify all registered callbacks of the mode change.
+   * Register a callback that will be called when the circuit state changes.
    */
-  private notifyModeChange(mode: LoggingMode): void {
-    this.modeChangeCallbacks.forEach((cb) => {
+  onStateChange(
+    callback: (state: CircuitState, previous: CircuitState) => void,
+  ): void {
+    this.breaker.onStateChange((state, previous) => {
       try {
-        cb(mode);
+        callback(state, previous);
       } catch (error) {
         this.logger.error(
-          `Error in mode change callback: ${error.message}`,
+          `Error in state change callback: ${error.message}`,
           error.stack,
         );
       }
     });
   }
+
+  getStats(): CircuitBreakerStats {
+    this.breaker.getState();
+    return this.breaker.getStats();
+  }
+
+  private scheduleProbe(): void {
+    if (this.probeTimer) {
+      clearTimeout(this.probeTimer);
+    }
+    const delay = this.breaker.getRetryDelay();
+    this.logger.warn(
+      `MQ circuit open (${this.breaker.getStats().lastFailure}). Probing again in ${delay}ms`,
+    );
+    this.probeTimer = setTimeout(() => {
+      this.probeTimer = null;
+      this.breaker.getState();
+    }, delay);
+    this.probeTimer.unref();
+  }
 }
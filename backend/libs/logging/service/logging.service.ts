@@ -1,12 +1,35 @@
-import { Injectable, Logger, OnModuleDestroy, Inject } from '@nestjs/common';
+import { Injectable, Logger, Inject } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { LoggerPort } from '@logging/out-ports';
-import { WideEvent, LoggingContext, SamplingPolicy } from '@logging/domain';
+import {
+  WideEvent,
+  LoggingContext,
+  SamplingDecision,
+  SamplingReason,
+  TailSamplingBuffer,
+  TailSamplingStats,
+  AdaptiveSamplingStats,
+  PipelineMetrics,
+  EventPriority,
+  EventPriorityPolicy,
+  Span,
+  StartSpanOptions,
+  EndSpanOptions,
+} from '@logging/domain';
 import { LoggingUseCase } from '@logging/in-ports';
 import { ContextService } from './context.service';
+import { SamplingConfigService } from './sampling-config.service';
+import { TAIL_SAMPLING_BUFFER } from './logging.tokens';
 
-/** Injection token for SamplingPolicy */
-export const SAMPLING_POLICY = Symbol('SAMPLING_POLICY');
+export { SAMPLING_POLICY, TAIL_SAMPLING_BUFFER } from './logging.tokens';
+
+/**
+ * Sampling reasons that promote held events of the same group.
+ */
+const PROMOTING_REASONS: ReadonlySet<SamplingReason> = new Set([
+  SamplingReason.HAS_ERROR,
+  SamplingReason.SLOW_REQUEST,
+]);
 
 /**
  * Simple LRU Cache implementation using Map (maintains insertion order).
@@ -56,9 +79,19 @@ class LRUCache<K, V> {
  * Performance Optimizations:
  * - LRU cache for duplicate finalization prevention (bounded memory)
  * - Backpressure mechanism to limit concurrent finalize operations
+ *
+ * Pending finalizes are tracked so ShutdownCoordinator can drain them.
+ *
+ * Tail-based sampling:
+ * - Unsampled events are held in TailSamplingBuffer, grouped by
+ *   correlation id (or user id when no correlation id is present)
+ * - An error or slow request promotes the held events of its group
+ *
+ * The active SamplingPolicy is owned by SamplingConfigService so that it can
+ * be changed at runtime via `PUT /logging/sampling`.
  */
 @Injectable()
-export class LoggingService extends LoggingUseCase implements OnModuleDestroy {
+export class LoggingService extends LoggingUseCase {
   private readonly serviceLogger = new Logger(LoggingService.name);
 
   /**
@@ -70,17 +103,22 @@ export class LoggingService extends LoggingUseCase implements OnModuleDestroy {
 
   /**
    * Backpressure: limit concurrent finalize operations to prevent overload.
+   * Lower priorities are admitted only while more slots are free, so
+   * errors, slow requests and critical routes keep reserved capacity.
    */
-  private pendingFinalizeCount = 0;
+  private readonly pendingFinalizes = new Set<Promise<void>>();
   private readonly maxPendingFinalizes: number;
-  private droppedCount = 0;
+  private readonly reservedPendingFinalizes: number;
+  private readonly droppedByReason = new Map<SamplingReason, number>();
 
   constructor(
     private readonly contextService: ContextService,
     private readonly logger: LoggerPort,
-    @Inject(SAMPLING_POLICY)
-    private readonly samplingPolicy: SamplingPolicy,
+    private readonly samplingConfigService: SamplingConfigService,
+    @Inject(TAIL_SAMPLING_BUFFER)
+    private readonly tailSamplingBuffer: TailSamplingBuffer<LoggingContext>,
     private readonly configService: ConfigService,
+    private readonly pipelineMetrics: PipelineMetrics,
   ) {
     super();
 
@@ -92,10 +130,20 @@ export class LoggingService extends LoggingUseCase implements OnModuleDestroy {
     this.finalizedRequestIds = new LRUCache<string, true>(this.maxCacheSize);
 
     // Configurable max pending finalizes (default: 500)
-    this.maxPendingFinalizes = this.configService.get<number>(
-      'LOG_MAX_PENDING_FINALIZES',
-      500,
+    this.maxPendingFinalizes =
+      parseInt(
+        this.configService.get<string>('LOG_MAX_PENDING_FINALIZES') || '',
+        10,
+      ) || 500;
+
+    // Slots each priority leaves to the one above it (default: 20% of max)
+    const reserved = parseInt(
+      this.configService.get<string>('LOG_RESERVED_PENDING_FINALIZES') || '',
+      10,
     );
+    this.reservedPendingFinalizes = Number.isNaN(reserved)
+      ? Math.floor(this.maxPendingFinalizes * 0.2)
+      : Math.max(0, reserved);
   }
 
   /**
@@ -160,13 +208,52 @@ export class LoggingService extends LoggingUseCase implements OnModuleDestroy {
     this.contextService.setService(service);
   }
 
+  /**
+   * Start a timed child span within the current request.
+   *
+   * @example
+   * const span = loggingService.startSpan('callGateway', { service: 'paymentGateway' });
+   * try {
+   *   await gateway.call();
+   *   loggingService.endSpan(span);
+   * } catch (e) {
+   *   loggingService.endSpan(span, { error: { code: 'GATEWAY_TIMEOUT', message: e.message } });
+   *   throw e;
+   * }
+   */
+  override startSpan(name: string, options?: StartSpanOptions): Span {
+    return this.contextService.startSpan(name, options);
+  }
+
+  /**
+   * Run a function with `span` as the active span.
+   *
+   * @example
+   * const span = loggingService.startSpan('settle');
+   * await loggingService.withSpan(span, () =>
+   *   Promise.all([debit(), credit()]), // both spans are children of 'settle'
+   * );
+   * loggingService.endSpan(span);
+   */
+  override withSpan<T>(span: Span, fn: () => T): T {
+    return this.contextService.withSpan(span, fn);
+  }
+
+  /**
+   * End a span started with startSpan().
+   */
+  override endSpan(span: Span, options?: EndSpanOptions): void {
+    this.contextService.endSpan(span, options);
+  }
+
   /**
    * Finalize and flush the current request's Wide Event.
    * This should be called once per request, even on error or early return.
    *
    * Performance Optimizations:
    * - LRU cache prevents duplicate finalization (bounded memory)
-   * - Backpressure drops requests when too many are pending
+   * - Backpressure drops recorded events when too many are pending,
+   *   lowest priority first (see admit())
    *
    * Phase 5: Applies sampling policy before persisting.
    * - Errors and slow requests are always recorded (100% retention).
@@ -185,23 +272,33 @@ export class LoggingService extends LoggingUseCase implements OnModuleDestroy {
     }
     this.finalizedRequestIds.set(context.requestId, true);
 
-    // Backpressure: drop if too many pending finalizes
-    if (this.pendingFinalizeCount >= this.maxPendingFinalizes) {
-      this.droppedCount++;
-      if (this.droppedCount % 100 === 1) {
-        // Log warning periodically, not every time
-        this.serviceLogger.warn(
-          `Backpressure active: dropped ${this.droppedCount} log entries. ` +
-            `Pending: ${this.pendingFinalizeCount}/${this.maxPendingFinalizes}`,
-        );
-      }
-      return;
+    // Spans the handler never ended would otherwise be stored without a duration
+    this.contextService.endOpenSpans(context);
+
+    // Exact request metrics, independent of sampling and backpressure
+    if (context.performance) {
+      this.pipelineMetrics.observeRequest(
+        context.service,
+        context.route,
+        context.error ? 'error' : 'success',
+        context.performance.durationMs,
+      );
     }
 
-    // Phase 5: Apply sampling policy
-    const samplingDecision = this.samplingPolicy.shouldRecord(context);
+    // Phase 5: Apply sampling policy (runtime-adjustable, see SamplingConfigService)
+    const samplingDecision = this.samplingConfigService
+      .getPolicy()
+      .shouldRecord(context);
+    const groupKey = this.getTailSamplingGroupKey(context);
 
     if (!samplingDecision.shouldRecord) {
+      this.pipelineMetrics.recordSampling(samplingDecision.reason, false);
+
+      // Hold for tail-based sampling; a related error may promote it later
+      if (groupKey) {
+        this.tailSamplingBuffer.hold(groupKey, context);
+      }
+
       // Log sampling decision for monitoring (debug level in production)
       this.serviceLogger.debug(
         `Request ${context.requestId} not sampled: ${samplingDecision.reason}`,
@@ -209,34 +306,140 @@ export class LoggingService extends LoggingUseCase implements OnModuleDestroy {
       return;
     }
 
-    // Track pending finalize count for backpressure
-    this.pendingFinalizeCount++;
+    // Backpressure: drop if too many finalizes are pending for this priority
+    if (!this.admit(context, samplingDecision.reason)) {
+      return;
+    }
+    this.pipelineMetrics.recordSampling(samplingDecision.reason, true);
+
+    // Track pending finalizes for backpressure and shutdown draining
+    const pending = this.persistRecorded(context, samplingDecision, groupKey);
+    this.pendingFinalizes.add(pending);
 
     try {
-      // Create WideEvent using factory method (handles type conversion)
-      const event = WideEvent.fromContext(context);
-
-      // Generate deterministic summary using domain method
-      const _summary = event.toSummary();
-
-      // Add sampling reason to metadata for auditing/debugging
-      const enrichedMetadata = {
-        ...context._metadata,
-        _sampling: {
-          recorded: true,
-          reason: samplingDecision.reason,
-        },
-      };
-
-      // We pass the core event plus internal processing fields to the logger.
-      // This preserves the WideEvent domain model while allowing infrastructure
-      // to store semantic enrichment data.
-      await this.logger.log(event, enrichedMetadata, _summary);
+      await pending;
     } finally {
-      this.pendingFinalizeCount--;
+      this.pendingFinalizes.delete(pending);
     }
   }
 
+  /**
+   * Wait until every pending finalize has settled, including those started
+   * while waiting. Callers bound the wait (see ShutdownCoordinator).
+   */
+  async drain(): Promise<void> {
+    while (this.pendingFinalizes.size > 0) {
+      await Promise.allSettled(this.pendingFinalizes);
+    }
+  }
+
+  /**
+   * Backpressure gate for a recorded event. HIGH priority events (errors,
+   * slow requests, critical routes) may use every slot; each lower priority
+   * leaves LOG_RESERVED_PENDING_FINALIZES more slots free, so LOW traffic
+   * is shed first, then NORMAL. Drops are counted per sampling reason.
+   */
+  private admit(context: LoggingContext, reason: SamplingReason): boolean {
+    const priority = context.error
+      ? EventPriority.HIGH
+      : EventPriorityPolicy.forReason(reason);
+    const limit =
+      this.maxPendingFinalizes -
+      (EventPriority.HIGH - priority) * this.reservedPendingFinalizes;
+
+    if (this.pendingFinalizes.size < Math.max(1, limit)) {
+      return true;
+    }
+
+    this.droppedByReason.set(
+      reason,
+      (this.droppedByReason.get(reason) ?? 0) + 1,
+    );
+    const dropped = [...this.droppedByReason.values()].reduce(
+      (sum, count) => sum + count,
+      0,
+    );
+    if (dropped % 100 === 1) {
+      // Log warning periodically, not every time
+      this.serviceLogger.warn(
+        `Backpressure active: dropped ${dropped} log entries (latest: ${reason}). ` +
+          `Pending: ${this.pendingFinalizes.size}/${this.maxPendingFinalizes}`,
+      );
+    }
+    return false;
+  }
+
+  /**
+   * Persist a recorded event, then promote held events of its group.
+   */
+  private async persistRecorded(
+    context: LoggingContext,
+    samplingDecision: SamplingDecision,
+    groupKey: string | null,
+  ): Promise<void> {
+    await this.persist(context, samplingDecision);
+
+    // Tail-based sampling: promote held events of the same group
+    if (groupKey && PROMOTING_REASONS.has(samplingDecision.reason)) {
+      const promoted = this.tailSamplingBuffer.release(groupKey);
+      for (const heldContext of promoted) {
+        this.pipelineMetrics.recordSampling(
+          SamplingReason.PROMOTED_BY_RELATED_ERROR,
+          true,
+        );
+        await this.persist(heldContext, {
+          shouldRecord: true,
+          reason: SamplingReason.PROMOTED_BY_RELATED_ERROR,
+          sampleRate: 1,
+        });
+      }
+    }
+  }
+
+  /**
+   * Build the Wide Event for a context and hand it to the logger.
+   */
+  private async persist(
+    context: LoggingContext,
+    samplingDecision: SamplingDecision,
+  ): Promise<void> {
+    // Create WideEvent using factory method (handles type conversion)
+    const event = WideEvent.fromContext(context);
+
+    // Generate deterministic summary using domain method
+    const _summary = event.toSummary();
+
+    // Add sampling reason to metadata for auditing/debugging
+    const enrichedMetadata = {
+      ...context._metadata,
+      _sampling: {
+        recorded: true,
+        reason: samplingDecision.reason,
+        sampleRate: samplingDecision.sampleRate,
+        ...(samplingDecision.sampleRateUnknown && { sampleRateUnknown: true }),
+      },
+    };
+
+    // We pass the core event plus internal processing fields to the logger.
+    // This preserves the WideEvent domain model while allowing infrastructure
+    // to store semantic enrichment data.
+    await this.logger.log(event, enrichedMetadata, _summary);
+  }
+
+  /**
+   * Group key for tail-based sampling: correlation id, then user id.
+   */
+  private getTailSamplingGroupKey(context: LoggingContext): string | null {
+    const correlationId = context._metadata?._correlationId;
+    if (typeof correlationId === 'string' && correlationId.length > 0) {
+      return `correlation:${correlationId}`;
+    }
+    if (context.user?.id) {
+      return `user:${context.user.id}`;
+    }
+    return null;
+  }
+
   /**
    * Get service stats for monitoring.
    */
@@ -245,19 +448,23 @@ export class LoggingService extends LoggingUseCase implements OnModuleDestroy {
     maxCacheSize: number;
     pendingFinalizes: number;
     maxPendingFinalizes: number;
-    droppedCount: number;
+    reservedPendingFinalizes: number;
+    /** Events dropped by backpressure, by sampling reason */
+    dropped: Partial<Record<SamplingReason, number>>;
+    tailSampling: TailSamplingStats;
+    adaptiveSampling: AdaptiveSamplingStats | null;
   } {
     return {
       cacheSize: this.finalizedRequestIds.size,
       maxCacheSize: this.maxCacheSize,
-      pendingFinalizes: this.pendingFinalizeCount,
+      pendingFinalizes: this.pendingFinalizes.size,
       maxPendingFinalizes: this.maxPendingFinalizes,
-      droppedCount: this.droppedCount,
+      reservedPendingFinalizes: this.reservedPendingFinalizes,
+      dropped: Object.fromEntries(this.droppedByReason),
+      tailSampling: this.tailSamplingBuffer.getStats(),
+      adaptiveSampling: this.samplingConfigService
+        .getPolicy()
+        .getAdaptiveStats(),
     };
   }
-
-  /**
-   * Cleanup on module destroy.
-   */
-  onModuleDestroy(): void {}
 }
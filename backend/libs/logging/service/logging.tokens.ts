@@ -0,0 +1,5 @@
+/** Injection token for SamplingPolicy */
+export const SAMPLING_POLICY = Symbol('SAMPLING_POLICY');
+
+/** Injection token for TailSamplingBuffer */
+export const TAIL_SAMPLING_BUFFER = Symbol('TAIL_SAMPLING_BUFFER');
@@ -0,0 +1,326 @@
+import { Injectable, Optional } from '@nestjs/common';
+import {
+  CircuitState,
+  FinalizeMetrics,
+  LoggingMode,
+  PipelineMetrics,
+} from '@logging/domain';
+import { FileLogger, KafkaLogger, MongoLogger } from '@logging/infrastructure';
+import { LoggingService } from './logging.service';
+import { LoggingModeService } from './logging-mode.service';
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+interface MetricSample {
+  /** Appended to the metric name (`_bucket`, `_sum`, `_count`) */
+  suffix?: string;
+  labels?: Record<string, string>;
+  value: number;
+}
+
+/**
+ * Prometheus text exposition format (version 0.0.4) writer.
+ */
+class PrometheusTextBuilder {
+  private readonly lines: string[] = [];
+
+  add(
+    name: string,
+    type: MetricType,
+    help: string,
+    samples: MetricSample[],
+  ): this {
+    this.lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    for (const sample of samples) {
+      this.lines.push(
+        `${name}${sample.suffix ?? ''}${this.formatLabels(sample.labels)} ${this.formatValue(sample.value)}`,
+      );
+    }
+    return this;
+  }
+
+  toString(): string {
+    return this.lines.join('\n') + '\n';
+  }
+
+  private formatLabels(labels?: Record<string, string>): string {
+    if (!labels || Object.keys(labels).length === 0) {
+      return '';
+    }
+    const pairs = Object.entries(labels).map(
+      ([key, value]) =>
+        `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`,
+    );
+    return `{${pairs.join(',')}}`;
+  }
+
+  private formatValue(value: number): string {
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+    return String(value);
+  }
+}
+
+/**
+ * MetricsService - Publishes logging pipeline counters for Prometheus.
+ *
+ * Collects FinalizeMetrics, LoggingService backpressure/tail-sampling stats,
+ * PipelineMetrics (request durations, sampling decisions) and, when their
+ * storage type is active, the MongoLogger buffer, FileLogger and KafkaLogger
+ * losses and the MQ logging mode and circuit breaker state.
+ */
+@Injectable()
+export class MetricsService {
+  constructor(
+    private readonly finalizeMetrics: FinalizeMetrics,
+    private readonly pipelineMetrics: PipelineMetrics,
+    private readonly loggingService: LoggingService,
+    @Optional() private readonly mongoLogger?: MongoLogger,
+    @Optional() private readonly loggingModeService?: LoggingModeService,
+    @Optional() private readonly kafkaLogger?: KafkaLogger,
+    @Optional() private readonly fileLogger?: FileLogger,
+  ) {}
+
+  /**
+   * Render all metrics in the Prometheus text format.
+   */
+  render(): string {
+    const builder = new PrometheusTextBuilder();
+    this.addFinalizeMetrics(builder);
+    this.addServiceMetrics(builder);
+    this.addPipelineMetrics(builder);
+
+    if (this.mongoLogger) {
+      const buffer = this.mongoLogger.getBufferStats();
+      builder
+        .add(
+          'logging_mongo_buffer_size',
+          'gauge',
+          'Events buffered by MongoLogger, waiting for the next batch write',
+          [{ value: buffer.bufferSize }],
+        )
+        .add(
+          'logging_mongo_batch_size',
+          'gauge',
+          'Configured MongoLogger batch size',
+          [{ value: buffer.batchSize }],
+        )
+        .add(
+          'logging_mongo_retried_events_total',
+          'counter',
+          'Events put back into the MongoLogger buffer after a failed write',
+          [{ value: buffer.retriedCount }],
+        )
+        .add(
+          'logging_mongo_lost_events_total',
+          'counter',
+          'Events MongoLogger gave up on, by reason',
+          Object.entries(buffer.lostCount).map(([reason, value]) => ({
+            labels: { reason },
+            value,
+          })),
+        );
+    }
+
+    if (this.loggingModeService) {
+      const mode = this.loggingModeService.getMode();
+      const circuit = this.loggingModeService.getStats();
+      builder
+        .add(
+          'logging_mode',
+          'gauge',
+          'Current MQ logging mode (1 for the active mode)',
+          Object.values(LoggingMode).map((value) => ({
+            labels: { mode: value },
+            value: value === mode ? 1 : 0,
+          })),
+        )
+        .add(
+          'logging_mq_circuit_state',
+          'gauge',
+          'Current MQ circuit breaker state (1 for the active state)',
+          Object.values(CircuitState).map((value) => ({
+            labels: { state: value },
+            value: value === circuit.state ? 1 : 0,
+          })),
+        )
+        .add(
+          'logging_mq_circuit_opened_total',
+          'counter',
+          'Times the MQ circuit breaker opened',
+          [{ value: circuit.openedCount }],
+        );
+    }
+
+    if (this.fileLogger) {
+      builder.add(
+        'logging_file_lost_events_total',
+        'counter',
+        'Events FileLogger dropped after failed writes',
+        [{ value: this.fileLogger.getStats().lostCount }],
+      );
+    }
+
+    if (this.kafkaLogger) {
+      const { lostCount } = this.kafkaLogger.getStats();
+      builder.add(
+        'logging_mq_lost_events_total',
+        'counter',
+        'Events accepted by neither the MQ, the fallback logger nor the spool, by reason',
+        Object.entries(lostCount).map(([reason, value]) => ({
+          labels: { reason },
+          value,
+        })),
+      );
+    }
+
+    return builder.toString();
+  }
+
+  private addFinalizeMetrics(builder: PrometheusTextBuilder): void {
+    const stats = this.finalizeMetrics.getStats();
+    builder.add(
+      'logging_finalize_total',
+      'counter',
+      'Finalize calls by result',
+      [
+        { labels: { result: 'success' }, value: stats.successCount },
+        { labels: { result: 'failure' }, value: stats.failureCount },
+      ],
+    );
+
+    const sinks = Object.entries(stats.sinks);
+    if (sinks.length > 0) {
+      builder.add(
+        'logging_sink_events_total',
+        'counter',
+        'Events handed to each composite sink, by result',
+        sinks.flatMap(([sink, sinkStats]) => [
+          {
+            labels: { sink, result: 'success' },
+            value: sinkStats.successCount,
+          },
+          {
+            labels: { sink, result: 'failure' },
+            value: sinkStats.failureCount,
+          },
+          {
+            labels: { sink, result: 'skipped' },
+            value: sinkStats.skippedCount,
+          },
+        ]),
+      );
+    }
+  }
+
+  private addServiceMetrics(builder: PrometheusTextBuilder): void {
+    const stats = this.loggingService.getStats();
+    builder
+      .add(
+        'logging_pending_finalizes',
+        'gauge',
+        'Finalize operations in flight',
+        [{ value: stats.pendingFinalizes }],
+      )
+      .add(
+        'logging_max_pending_finalizes',
+        'gauge',
+        'Pending finalizes at which events are dropped (backpressure)',
+        [{ value: stats.maxPendingFinalizes }],
+      )
+      .add(
+        'logging_reserved_pending_finalizes',
+        'gauge',
+        'Pending finalize slots each priority leaves to the one above it',
+        [{ value: stats.reservedPendingFinalizes }],
+      )
+      .add(
+        'logging_dropped_events_total',
+        'counter',
+        'Recorded events dropped by backpressure, by sampling reason',
+        Object.entries(stats.dropped).map(([reason, value]) => ({
+          labels: { reason },
+          value,
+        })),
+      )
+      .add(
+        'logging_finalized_cache_size',
+        'gauge',
+        'Request ids remembered to prevent duplicate finalization',
+        [{ value: stats.cacheSize }],
+      )
+      .add(
+        'logging_tail_sampling_held_events',
+        'gauge',
+        'Unsampled events held for tail-based promotion',
+        [{ value: stats.tailSampling.heldEvents }],
+      )
+      .add(
+        'logging_tail_sampling_events_total',
+        'counter',
+        'Held events by how they left the tail-sampling buffer',
+        [
+          {
+            labels: { result: 'promoted' },
+            value: stats.tailSampling.promotedCount,
+          },
+          {
+            labels: { result: 'expired' },
+            value: stats.tailSampling.expiredCount,
+          },
+          {
+            labels: { result: 'evicted' },
+            value: stats.tailSampling.evictedCount,
+          },
+        ],
+      );
+  }
+
+  private addPipelineMetrics(builder: PrometheusTextBuilder): void {
+    const stats = this.pipelineMetrics.getStats();
+    const boundsSeconds = stats.durationBucketsMs.map((ms) => ms / 1000);
+
+    builder.add(
+      'logging_request_duration_seconds',
+      'histogram',
+      'Duration of finalized requests by service, normalized route and outcome',
+      stats.requestDurations.flatMap((series) => {
+        const labels = {
+          service: series.service,
+          route: series.route,
+          outcome: series.outcome,
+        };
+        return [
+          ...boundsSeconds.map((le, index) => ({
+            suffix: '_bucket',
+            labels: { ...labels, le: String(le) },
+            value: series.bucketCounts[index],
+          })),
+          {
+            suffix: '_bucket',
+            labels: { ...labels, le: '+Inf' },
+            value: series.count,
+          },
+          { suffix: '_sum', labels, value: series.sumMs / 1000 },
+          { suffix: '_count', labels, value: series.count },
+        ];
+      }),
+    );
+
+    builder.add(
+      'logging_sampling_events_total',
+      'counter',
+      'Sampling decisions by reason: recorded or sampled out',
+      [
+        ...Object.entries(stats.recorded).map(([reason, value]) => ({
+          labels: { reason, decision: 'recorded' },
+          value,
+        })),
+        ...Object.entries(stats.sampledOut).map(([reason, value]) => ({
+          labels: { reason, decision: 'sampled_out' },
+          value,
+        })),
+      ],
+    );
+  }
+}
@@ -0,0 +1,243 @@
+import { Injectable, Logger, OnModuleDestroy, Inject } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { LoggerPort } from '@logging/out-ports';
+import {
+  WideEvent,
+  LoggingContext,
+  SamplingPolicy,
+  SamplingPolicyConfig,
+  SamplingReason,
+} from '@logging/domain';
+import {
+  SamplingConfigState,
+  SamplingConfigUpdateRequest,
+  SamplingConfigUpdateResult,
+} from '@logging/dtos';
+import { SAMPLING_POLICY } from './logging.tokens';
+
+/** Upper bound for temporary overrides (7 days) */
+const MAX_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+type SamplingConfigAction = 'UPDATED' | 'REVERTED' | 'EXPIRED';
+
+/**
+ * SamplingConfigService - Holds the active SamplingPolicy and allows it to be
+ * changed at runtime without a redeploy.
+ *
+ * - The env-based policy (SAMPLING_POLICY) is kept as the baseline
+ * - Updates are validated, versioned, and applied atomically by swapping the
+ *   policy instance (in-flight decisions keep the instance they started with)
+ * - Temporary overrides revert to the baseline after `ttlSeconds`
+ * - Every change is written as an audit Wide Event (bypassing sampling)
+ */
+@Injectable()
+export class SamplingConfigService implements OnModuleDestroy {
+  private readonly serviceLogger = new Logger(SamplingConfigService.name);
+
+  private policy: SamplingPolicy;
+  private version = 1;
+  private updatedAt = new Date();
+  private updatedBy: string | null = null;
+  private expiresAt: Date | null = null;
+  private revertTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @Inject(SAMPLING_POLICY)
+    private readonly baselinePolicy: SamplingPolicy,
+    private readonly logger: LoggerPort,
+  ) {
+    this.policy = baselinePolicy;
+  }
+
+  /**
+   * Currently active policy. Read on every finalize.
+   */
+  getPolicy(): SamplingPolicy {
+    return this.policy;
+  }
+
+  getState(): SamplingConfigState {
+    const config = this.policy.getConfig();
+    const baseline = this.baselinePolicy.getConfig();
+
+    return {
+      version: this.version,
+      config,
+      baseline,
+      overridden: this.policy !== this.baselinePolicy,
+      updatedAt: this.updatedAt.toISOString(),
+      updatedBy: this.updatedBy,
+      expiresAt: this.expiresAt ? this.expiresAt.toISOString() : null,
+    };
+  }
+
+  /**
+   * Merge the given fields over the active configuration.
+   */
+  async update(
+    request: SamplingConfigUpdateRequest,
+  ): Promise<SamplingConfigUpdateResult> {
+    const errors = SamplingPolicy.validateConfig(request?.config);
+    if (
+      request?.ttlSeconds !== undefined &&
+      (!Number.isInteger(request.ttlSeconds) ||
+        request.ttlSeconds <= 0 ||
+        request.ttlSeconds > MAX_TTL_SECONDS)
+    ) {
+      errors.push(
+        `ttlSeconds must be an integer between 1 and ${MAX_TTL_SECONDS}`,
+      );
+    }
+    if (errors.length > 0) {
+      return { success: false, errorCode: 'INVALID_CONFIG', errors };
+    }
+
+    if (
+      request.expectedVersion !== undefined &&
+      request.expectedVersion !== this.version
+    ) {
+      return {
+        success: false,
+        errorCode: 'VERSION_CONFLICT',
+        errors: [
+          `Expected version ${request.expectedVersion}, current version is ${this.version}`,
+        ],
+        state: this.getState(),
+      };
+    }
+
+    const previous = this.policy.getConfig();
+    const next: SamplingPolicyConfig = { ...previous, ...request.config };
+    const previousVersion = this.version;
+
+    this.apply(new SamplingPolicy(next), request.changedBy ?? null);
+    this.scheduleRevert(request.ttlSeconds);
+
+    await this.writeAudit('UPDATED', previousVersion, previous, next, {
+      ttlSeconds: request.ttlSeconds ?? null,
+      changedBy: request.changedBy ?? null,
+      reason: request.reason ?? null,
+    });
+
+    return { success: true, state: this.getState() };
+  }
+
+  /**
+   * Revert to the baseline configuration.
+   */
+  async reset(changedBy?: string): Promise<SamplingConfigState> {
+    await this.revert('REVERTED', changedBy ?? null);
+    return this.getState();
+  }
+
+  onModuleDestroy(): void {
+    this.clearRevertTimer();
+  }
+
+  private async revert(
+    action: SamplingConfigAction,
+    changedBy: string | null,
+  ): Promise<void> {
+    this.clearRevertTimer();
+    this.expiresAt = null;
+
+    if (this.policy === this.baselinePolicy) {
+      return;
+    }
+
+    const previous = this.policy.getConfig();
+    const previousVersion = this.version;
+    this.apply(this.baselinePolicy, changedBy);
+
+    await this.writeAudit(
+      action,
+      previousVersion,
+      previous,
+      this.baselinePolicy.getConfig(),
+      { ttlSeconds: null, changedBy, reason: null },
+    );
+  }
+
+  private apply(policy: SamplingPolicy, changedBy: string | null): void {
+    this.policy = policy;
+    this.version++;
+    this.updatedAt = new Date();
+    this.updatedBy = changedBy;
+  }
+
+  private scheduleRevert(ttlSeconds?: number): void {
+    this.clearRevertTimer();
+    this.expiresAt = null;
+
+    if (!ttlSeconds) return;
+
+    this.expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+    this.revertTimer = setTimeout(() => {
+      this.revertTimer = null;
+      void this.revert('EXPIRED', 'ttl');
+    }, ttlSeconds * 1000);
+    // Don't keep the process alive just for the revert
+    this.revertTimer.unref();
+  }
+
+  private clearRevertTimer(): void {
+    if (this.revertTimer) {
+      clearTimeout(this.revertTimer);
+      this.revertTimer = null;
+    }
+  }
+
+  /**
+   * Record a configuration change as a Wide Event.
+   * Audit failures never fail the change itself.
+   */
+  private async writeAudit(
+    action: SamplingConfigAction,
+    previousVersion: number,
+    previous: SamplingPolicyConfig,
+    next: SamplingPolicyConfig,
+    details: {
+      ttlSeconds: number | null;
+      changedBy: string | null;
+      reason: string | null;
+    },
+  ): Promise<void> {
+    const context = new LoggingContext(
+      randomUUID(),
+      'logging',
+      'AUDIT /logging/sampling',
+    );
+    const event = WideEvent.fromContext(context);
+
+    try {
+      await this.logger.log(
+        event,
+        {
+          _audit: {
+            type: 'SAMPLING_CONFIG',
+            action,
+            previousVersion,
+            version: this.version,
+            previous,
+            next,
+            ...details,
+          },
+          _sampling: {
+            recorded: true,
+            reason: SamplingReason.AUDIT,
+            sampleRate: 1,
+          },
+        },
+        `${event.toSummary()} | Sampling config ${action.toLowerCase()} (v${previousVersion} -> v${this.version})`,
+      );
+    } catch (error) {
+      this.serviceLogger.warn(
+        `Failed to write sampling config audit event: ${error.message}`,
+      );
+    }
+
+    this.serviceLogger.log(
+      `Sampling config ${action.toLowerCase()}: v${previousVersion} -> v${this.version}`,
+    );
+  }
+}
@@ -0,0 +1,233 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  Optional,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpAdapterHost } from '@nestjs/core';
+import { Server } from 'http';
+import { LoggerPort, MqProducerPort } from '@logging/out-ports';
+import { MongoLogger } from '@logging/infrastructure';
+import { LoggingService } from './logging.service';
+import { MqConsumerService } from './worker/mq-consumer.service';
+
+/**
+ * Shutdown stages, in the order they run.
+ */
+export type ShutdownStage =
+  | 'requests'
+  | 'finalizes'
+  | 'producer'
+  | 'sinks'
+  | 'mongo'
+  | 'consumer';
+
+export interface ShutdownStageResult {
+  stage: ShutdownStage;
+  status: 'completed' | 'failed' | 'timed_out' | 'skipped';
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Outcome of a coordinated shutdown.
+ */
+export interface ShutdownReport {
+  deadlineMs: number;
+  durationMs: number;
+  stages: ShutdownStageResult[];
+  /** Work left when the coordinator stopped waiting */
+  unfinished: {
+    /** Finalizes whose events never reached a sink */
+    pendingFinalizes: number;
+    /** Events still in the MongoLogger buffer (spooled or lost on teardown) */
+    mongoBuffered: number;
+  };
+}
+
+/**
+ * ShutdownCoordinator - Drains the logging pipeline, stage by stage, before
+ * its components are torn down.
+ *
+ * Nest calls every provider's onModuleDestroy concurrently, so the sinks,
+ * clients and the consumer tear down on onApplicationShutdown instead and
+ * this coordinator runs first:
+ * 1. requests  - stop accepting HTTP connections, let open requests finish
+ * 2. finalizes - wait for pending LoggingService finalizes
+ * 3. producer  - flush the MQ producer's buffer
+ * 4. sinks     - flush the LoggerPort (file, OTLP, composite sinks, ...)
+ * 5. mongo     - flush the MongoLogger buffer (also the MQ fallback)
+ * 6. consumer  - stop the MQ consumer; its current batch is stored and
+ *                its offsets committed
+ *
+ * All stages share one deadline (LOG_SHUTDOWN_TIMEOUT_MS). Once it expires
+ * the remaining stages are skipped and the report logs what was left.
+ */
+@Injectable()
+export class ShutdownCoordinator implements OnModuleDestroy {
+  private readonly logger = new Logger(ShutdownCoordinator.name);
+  private readonly timeoutMs: number;
+  private shutdownPromise: Promise<ShutdownReport> | null = null;
+
+  constructor(
+    private readonly loggingService: LoggingService,
+    private readonly configService: ConfigService,
+    @Optional() @Inject(LoggerPort) private readonly loggerPort?: LoggerPort,
+    @Optional() private readonly mqProducer?: MqProducerPort,
+    @Optional() private readonly mongoLogger?: MongoLogger,
+    @Optional() private readonly mqConsumerService?: MqConsumerService,
+    @Optional() private readonly httpAdapterHost?: HttpAdapterHost,
+  ) {
+    this.timeoutMs =
+      parseInt(
+        this.configService.get<string>('LOG_SHUTDOWN_TIMEOUT_MS') || '',
+        10,
+      ) || 10000;
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.shutdown();
+  }
+
+  /**
+   * Run the shutdown stages once; later calls return the same report.
+   */
+  shutdown(): Promise<ShutdownReport> {
+    if (!this.shutdownPromise) {
+      this.shutdownPromise = this.runStages();
+    }
+    return this.shutdownPromise;
+  }
+
+  private async runStages(): Promise<ShutdownReport> {
+    const startedAt = Date.now();
+    const deadline = startedAt + this.timeoutMs;
+    const stages: ShutdownStageResult[] = [];
+    const { mqProducer, loggerPort, mongoLogger, mqConsumerService } = this;
+
+    const tasks: [ShutdownStage, (() => Promise<void>) | null][] = [
+      ['requests', () => this.closeHttpServer()],
+      ['finalizes', () => this.loggingService.drain()],
+      ['producer', mqProducer ? () => mqProducer.flush() : null],
+      ['sinks', loggerPort ? () => loggerPort.flush() : null],
+      [
+        // Skipped when MongoLogger is the LoggerPort itself
+        'mongo',
+        mongoLogger && mongoLogger !== loggerPort
+          ? () => mongoLogger.flush()
+          : null,
+      ],
+      ['consumer', mqConsumerService ? () => mqConsumerService.stop() : null],
+    ];
+
+    let expired = false;
+    for (const [stage, task] of tasks) {
+      if (!task) {
+        continue;
+      }
+      if (expired) {
+        stages.push({ stage, status: 'skipped', durationMs: 0 });
+        continue;
+      }
+      const result = await this.runStage(stage, task, deadline);
+      expired = result.status === 'timed_out';
+      stages.push(result);
+    }
+
+    const report: ShutdownReport = {
+      deadlineMs: this.timeoutMs,
+      durationMs: Date.now() - startedAt,
+      stages,
+      unfinished: {
+        pendingFinalizes: this.loggingService.getStats().pendingFinalizes,
+        mongoBuffered: this.mongoLogger?.getBufferStats().bufferSize ?? 0,
+      },
+    };
+    this.logReport(report);
+    return report;
+  }
+
+  /**
+   * Run one stage, bounded by what is left of the shared deadline.
+   */
+  private async runStage(
+    stage: ShutdownStage,
+    task: () => Promise<void>,
+    deadline: number,
+  ): Promise<ShutdownStageResult> {
+    const startedAt = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<'timed_out'>((resolve) => {
+      timer = setTimeout(
+        () => resolve('timed_out'),
+        Math.max(0, deadline - startedAt),
+      );
+    });
+
+    try {
+      const outcome = await Promise.race([
+        task().then(() => 'completed' as const),
+        timeout,
+      ]);
+      return { stage, status: outcome, durationMs: Date.now() - startedAt };
+    } catch (error) {
+      return {
+        stage,
+        status: 'failed',
+        durationMs: Date.now() - startedAt,
+        error: (error as Error).message,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Stop accepting connections and wait for open ones to finish.
+   * Nothing to do without a listening HTTP server (e.g. a worker process).
+   */
+  private closeHttpServer(): Promise<void> {
+    const server = this.httpAdapterHost?.httpAdapter?.getHttpServer() as
+      | Server
+      | undefined;
+    if (!server?.listening) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      // Keep-alive connections become idle once their response is sent
+      const idleTimer = setInterval(() => server.closeIdleConnections(), 50);
+      idleTimer.unref();
+      server.close(() => {
+        clearInterval(idleTimer);
+        resolve();
+      });
+      server.closeIdleConnections();
+    });
+  }
+
+  private logReport(report: ShutdownReport): void {
+    const incomplete = report.stages.filter(
+      (stage) => stage.status !== 'completed',
+    );
+    if (incomplete.length === 0) {
+      this.logger.log(`Logging pipeline drained in ${report.durationMs}ms`);
+      return;
+    }
+
+    this.logger.warn(
+      `Logging shutdown incomplete after ${report.durationMs}ms ` +
+        `(deadline ${report.deadlineMs}ms): ` +
+        incomplete
+          .map(
+            (stage) =>
+              `${stage.stage} ${stage.status}${stage.error ? ` (${stage.error})` : ''}`,
+          )
+          .join(', ') +
+        `. Unfinished: ${report.unfinished.pendingFinalizes} pending finalizes, ` +
+        `${report.unfinished.mongoBuffered} events in the MongoDB buffer`,
+    );
+  }
+}
@@ -0,0 +1,156 @@
+import {
+  Injectable,
+  Logger,
+  Optional,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  LogSpoolPort,
+  MqProducerPort,
+  SpoolEntry,
+  SpoolStats,
+} from '@logging/out-ports';
+import { MongoLogger } from '@logging/infrastructure';
+import { LoggingMode } from '@logging/domain';
+import { LoggingModeService } from './logging-mode.service';
+
+/**
+ * Spool statistics plus replay progress.
+ */
+export interface SpoolReplayStats extends SpoolStats {
+  replayedCount: number;
+  lastReplayAt: string | null;
+  lastReplayError: string | null;
+}
+
+/**
+ * SpoolReplayService - Drains the disk spool once a sink recovers.
+ *
+ * - Runs every LOG_SPOOL_REPLAY_INTERVAL_MS while the spool is non-empty
+ * - Delivers to Kafka when the pipeline is in KAFKA mode and connected,
+ *   otherwise writes straight to MongoDB
+ * - Entries are committed only after delivery; the first failure stops the
+ *   run, so order is kept and nothing is removed before it is stored
+ */
+@Injectable()
+export class SpoolReplayService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SpoolReplayService.name);
+  private readonly intervalMs: number;
+  private readonly batchSize: number;
+  private replayTimer: NodeJS.Timeout | null = null;
+  private isReplaying = false;
+
+  private replayedCount = 0;
+  private lastReplayAt: Date | null = null;
+  private lastReplayError: string | null = null;
+
+  constructor(
+    private readonly spool: LogSpoolPort,
+    private readonly mongoLogger: MongoLogger,
+    private readonly configService: ConfigService,
+    @Optional() private readonly mqProducer?: MqProducerPort,
+    @Optional() private readonly loggingModeService?: LoggingModeService,
+  ) {
+    this.intervalMs =
+      parseInt(
+        this.configService.get<string>('LOG_SPOOL_REPLAY_INTERVAL_MS') || '',
+        10,
+      ) || 5000;
+    this.batchSize =
+      parseInt(
+        this.configService.get<string>('LOG_SPOOL_REPLAY_BATCH_SIZE') || '',
+        10,
+      ) || 100;
+  }
+
+  onModuleInit(): void {
+    this.replayTimer = setInterval(() => {
+      this.replay().catch((err) => {
+        this.logger.error(`Spool replay failed: ${err.message}`);
+      });
+    }, this.intervalMs);
+    this.replayTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.replayTimer) {
+      clearInterval(this.replayTimer);
+      this.replayTimer = null;
+    }
+  }
+
+  /**
+   * Replay spooled entries until the spool is empty or delivery fails.
+   * Returns the number of entries delivered.
+   */
+  async replay(): Promise<number> {
+    if (this.isReplaying || this.spool.getStats().depth === 0) {
+      return 0;
+    }
+
+    this.isReplaying = true;
+    let delivered = 0;
+
+    try {
+      let batch = await this.spool.read(this.batchSize);
+      while (batch) {
+        let count = 0;
+        try {
+          for (const entry of batch.entries) {
+            await this.deliver(entry);
+            count++;
+          }
+        } catch (error) {
+          await this.spool.commit(batch, count);
+          delivered += count;
+          this.lastReplayError = error.message;
+          this.logger.warn(
+            `Spool replay paused after ${delivered} entries: ${error.message}`,
+          );
+          return delivered;
+        }
+
+        await this.spool.commit(batch);
+        delivered += count;
+        batch = await this.spool.read(this.batchSize);
+      }
+
+      this.lastReplayError = null;
+      return delivered;
+    } finally {
+      this.isReplaying = false;
+      this.replayedCount += delivered;
+      if (delivered > 0) {
+        this.lastReplayAt = new Date();
+        this.logger.log(`Replayed ${delivered} spooled events`);
+      }
+    }
+  }
+
+  getStats(): SpoolReplayStats {
+    return {
+      ...this.spool.getStats(),
+      replayedCount: this.replayedCount,
+      lastReplayAt: this.lastReplayAt?.toISOString() ?? null,
+      lastReplayError: this.lastReplayError,
+    };
+  }
+
+  private async deliver(entry: SpoolEntry): Promise<void> {
+    if (
+      this.mqProducer?.isConnected() &&
+      this.loggingModeService?.getMode() === LoggingMode.KAFKA
+    ) {
+      await this.mqProducer.publish(
+        entry.event,
+        entry._metadata ?? {},
+        entry.summary,
+      );
+      return;
+    }
+
+    await this.mongoLogger.persist(entry.event, entry._metadata, entry.summary);
+  }
+}
@@ -0,0 +1,209 @@
+import 'reflect-metadata';
+import { ConfigService } from '@nestjs/config';
+import { LogEnvelopeCodec, SCHEMA_ID_HEADER, WideEvent } from '@logging/domain';
+import {
+  InMemoryConsumer,
+  InMemoryDeadLetterQueue,
+  InMemoryQueue,
+  MongoBatchWriteResult,
+  MongoLogEntry,
+  MongoLogger,
+} from '@logging/infrastructure';
+import { DeadLetterService } from '../dead-letter.service';
+import { LoggingModeService } from '../logging-mode.service';
+import { MqConsumerService } from './mq-consumer.service';
+
+const DUPLICATE_KEY = 11000;
+const DOCUMENT_VALIDATION_FAILURE = 121;
+
+describe('MqConsumerService', () => {
+  let queue: InMemoryQueue;
+  let modeService: LoggingModeService;
+  let deadLetterService: DeadLetterService;
+  let deadLetter: jest.SpyInstance;
+  let consumerService: MqConsumerService;
+  let writeBatch: jest.Mock<Promise<MongoBatchWriteResult>, [MongoLogEntry[]]>;
+
+  const config = {
+    get: (key: string) =>
+      ({
+        MQ_ENABLED: 'true',
+        MQ_BATCH_SIZE: '10',
+        MQ_BATCH_TIMEOUT_MS: '10',
+        MQ_MAX_RETRIES: '2',
+        MQ_RETRY_BACKOFF_MS: '1',
+      })[key],
+  } as unknown as ConfigService;
+
+  const codec = new LogEnvelopeCodec();
+
+  const eventFor = (requestId: string) =>
+    new WideEvent(
+      requestId,
+      new Date().toISOString(),
+      'payments',
+      'POST /payments',
+    );
+
+  /** Start consuming and wait until every published message is handled */
+  const drain = async () => {
+    await consumerService.onModuleInit();
+    expect(await queue.waitUntilDrained('log-events')).toBe(true);
+  };
+
+  /** Publish, then start consuming so the events arrive in one batch */
+  const consume = async (...requestIds: string[]) => {
+    for (const requestId of requestIds) {
+      await queue.publish('log-events', {
+        key: requestId,
+        ...codec.encode(eventFor(requestId), {}, 'summary'),
+      });
+    }
+    await drain();
+  };
+
+  const requestIdsOf = (call: [MongoLogEntry[]]) =>
+    call[0].map((entry) => entry.event.requestId);
+
+  /** Rejects `requestId` with `code`, stores everything else */
+  const rejecting =
+    (requestId: string, code: number) => (entries: MongoLogEntry[]) => {
+      const index = entries.findIndex(
+        (entry) => entry.event.requestId === requestId,
+      );
+      return Promise.resolve({
+        inserted: entries.length - (index >= 0 ? 1 : 0),
+        duplicates: 0,
+        rejected:
+          index >= 0 ? [{ index, code, message: `E${code} ${requestId}` }] : [],
+      });
+    };
+
+  beforeEach(() => {
+    queue = new InMemoryQueue(config);
+    modeService = new LoggingModeService();
+    deadLetterService = new DeadLetterService(
+      new InMemoryDeadLetterQueue(queue, config),
+    );
+    deadLetter = jest.spyOn(deadLetterService, 'send');
+    writeBatch = jest.fn(rejecting('', 0));
+
+    consumerService = new MqConsumerService(
+      new InMemoryConsumer(queue, config),
+      { writeBatch } as unknown as MongoLogger,
+      modeService,
+      deadLetterService,
+      config,
+    );
+  });
+
+  afterEach(async () => {
+    await consumerService.stop();
+    modeService.onModuleDestroy();
+  });
+
+  describe('per-document rejections', () => {
+    it('should retry only the documents rejected with a transient code', async () => {
+      writeBatch.mockImplementationOnce(rejecting('req-2', DUPLICATE_KEY));
+
+      await consume('req-1', 'req-2', 'req-3');
+
+      expect(writeBatch.mock.calls.map(requestIdsOf)).toEqual([
+        ['req-1', 'req-2', 'req-3'],
+        ['req-2'],
+      ]);
+      expect(deadLetter).not.toHaveBeenCalled();
+    });
+
+    it('should dead-letter permanent rejections without retrying', async () => {
+      writeBatch.mockImplementationOnce(
+        rejecting('req-2', DOCUMENT_VALIDATION_FAILURE),
+      );
+
+      await consume('req-1', 'req-2');
+
+      expect(writeBatch).toHaveBeenCalledTimes(1);
+      expect(deadLetter).toHaveBeenCalledTimes(1);
+      expect(deadLetter).toHaveBeenCalledWith(
+        expect.objectContaining({ requestId: 'req-2', attempts: 1 }),
+      );
+    });
+
+    it('should dead-letter transient rejections once MQ_MAX_RETRIES is exhausted', async () => {
+      writeBatch.mockImplementation(rejecting('req-2', DUPLICATE_KEY));
+
+      await consume('req-1', 'req-2');
+
+      expect(writeBatch.mock.calls.map(requestIdsOf)).toEqual([
+        ['req-1', 'req-2'],
+        ['req-2'],
+        ['req-2'],
+      ]);
+      expect(deadLetter).toHaveBeenCalledTimes(1);
+      expect(deadLetter).toHaveBeenCalledWith(
+        expect.objectContaining({
+          requestId: 'req-2',
+          attempts: 3,
+          reason: `PERSIST_ERROR: E${DUPLICATE_KEY} req-2`,
+        }),
+      );
+    });
+  });
+
+  describe('envelope versions', () => {
+    /** An unversioned message, as producers wrote it before v2 */
+    const v1Value = (requestId: string) =>
+      JSON.stringify({
+        event: eventFor(requestId),
+        _metadata: { userId: 'user-1' },
+        summary: 'v1 summary',
+        timestamp: new Date().toISOString(),
+      });
+
+    it('should upcast and store a v1 message', async () => {
+      await queue.publish('log-events', {
+        key: 'req-1',
+        value: v1Value('req-1'),
+        headers: {},
+      });
+
+      await drain();
+
+      expect(writeBatch).toHaveBeenCalledTimes(1);
+      expect(writeBatch.mock.calls[0][0]).toEqual([
+        expect.objectContaining({
+          event: expect.objectContaining({ requestId: 'req-1' }) as unknown,
+          _metadata: { userId: 'user-1' },
+          summary: 'v1 summary',
+        }),
+      ]);
+      expect(deadLetter).not.toHaveBeenCalled();
+    });
+
+    it('should dead-letter a message with an unknown schema id instead of dropping it', async () => {
+      const value = v1Value('req-2');
+      await queue.publish('log-events', {
+        key: 'req-2',
+        value,
+        headers: { [SCHEMA_ID_HEADER]: 'audit-event.v1' },
+      });
+      await queue.publish('log-events', {
+        key: 'req-3',
+        ...codec.encode(eventFor('req-3'), {}, 'summary'),
+      });
+
+      await drain();
+
+      expect(writeBatch.mock.calls.map(requestIdsOf)).toEqual([['req-3']]);
+      expect(deadLetter).toHaveBeenCalledTimes(1);
+      expect(deadLetter).toHaveBeenCalledWith(
+        expect.objectContaining({
+          originalPayload: value,
+          originalKey: 'req-2',
+          reason: 'UNKNOWN_SCHEMA: unsupported schema "audit-event"',
+          attempts: 1,
+        }),
+      );
+    });
+  });
+});
@@ -1,21 +1,60 @@
 import {
   Injectable,
   Logger,
+  Optional,
   OnModuleInit,
-  OnModuleDestroy,
+  OnApplicationShutdown,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Consumer } from 'kafkajs';
-import { MongoLogger, KafkaConsumerClient } from '@logging/infrastructure';
-import { WideEvent, LoggingContext } from '@logging/domain';
-import { LoggingMode } from '../../core/domain/logging-mode.enum';
+import { MongoLogger } from '@logging/infrastructure';
+import {
+  CircuitState,
+  LogEnvelope,
+  LogEnvelopeCodec,
+  RetryPolicy,
+} from '@logging/domain';
+import {
+  LogSpoolPort,
+  MqConsumerPort,
+  MqMessage,
+  MqMessageBatch,
+  MqBatchContext,
+  REDRIVE_COUNT_HEADER,
+} from '@logging/out-ports';
 import { LoggingModeService } from '../logging-mode.service';
+import { DeadLetterService } from '../dead-letter.service';
 
-interface LogMessage {
-  event: WideEvent;
-  _metadata: LoggingContext['_metadata'];
-  summary: string;
-  timestamp: string;
+/**
+ * Where a consumed message came from (kept for dead-lettering).
+ */
+interface MessageSource {
+  topic: string;
+  partition: number;
+  offset: string;
+  key: string | null;
+  raw: string;
+  redriveCount: number;
+}
+
+interface BatchItem {
+  message: LogEnvelope;
+  source: MessageSource;
+}
+
+/**
+ * Outcome of writeWithRetry(): every item is inserted, a duplicate,
+ * rejected, spooled or failed.
+ */
+interface WriteOutcome {
+  inserted: number;
+  duplicates: number;
+  /** Rejected by MongoDB permanently, or still retryable after MQ_MAX_RETRIES */
+  rejected: { item: BatchItem; message: string }[];
+  spooled: number;
+  /** Neither MongoDB nor the spool accepted these (`error` says why) */
+  failed: BatchItem[];
+  attempts: number;
+  error?: Error;
 }
 
 /**
@@ -26,65 +65,91 @@ interface LogMessage {
  * - Consumer는 "ephemeral worker"로 취급됩니다.
  * - Kafka가 정상일 때만 Consumer 인스턴스를 생성합니다.
  * - Kafka 장애 시 Consumer 인스턴스를 완전히 파괴합니다.
- * - Watchdog은 Consumer를 건드리지 않고 브로커 가용성만 확인합니다.
+ * - 복구 판단은 LoggingModeService의 circuit breaker가 단독으로 담당합니다.
+ *   HALF_OPEN에서 Consumer를 재생성하며, 배치를 소비하고 ack까지 마친 경우에만
+ *   probe 성공으로 보고됩니다 (Consumer 시작만으로는 보고하지 않음).
  *
  * Features:
- * - Batch processing (100 events or 1 second timeout)
+ * - Broker-neutral: consumes through MqConsumerPort (Kafka, Redis Streams or in-memory)
+ * - At-least-once delivery: a chunk (MQ_BATCH_SIZE) is acknowledged only
+ *   after it is stored, spooled or dead-lettered
+ * - Idempotent bulk writes (requestIds are claimed before insert, see
+ *   MongoLogger), so redelivery after a crash never duplicates wide events
+ * - Retry with exponential backoff (MQ_MAX_RETRIES), then the disk spool
+ * - Versioned envelope (LogEnvelopeCodec): older versions are upcast on
+ *   consume, unknown versions are dead-lettered
+ * - Dead-letter topic for messages that cannot be parsed or persisted
  * - Error handling with graceful degradation
- * - State machine-based lifecycle management
+ * - Circuit breaker-based lifecycle management (shared with KafkaLogger)
  */
 @Injectable()
-export class MqConsumerService implements OnModuleInit, OnModuleDestroy {
+export class MqConsumerService implements OnModuleInit, OnApplicationShutdown {
   private readonly logger = new Logger(MqConsumerService.name);
-  private consumer: Consumer | null = null; // 🔥 null로 초기화
   private readonly topic: string;
   private readonly batchSize: number;
-  private readonly batchTimeoutMs: number;
   private isRunning = false;
-  private batch: LogMessage[] = [];
-  private batchTimeout: NodeJS.Timeout | null = null;
-  private watchdogTimer: NodeJS.Timeout | null = null;
-  private consecutiveSuccessCount = 0;
-  private readonly STABILITY_THRESHOLD = 3;
+  private isStopped = false;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly codec = new LogEnvelopeCodec();
 
   constructor(
-    private readonly ConsumerClient: KafkaConsumerClient,
+    private readonly mqConsumer: MqConsumerPort,
     private readonly mongoLogger: MongoLogger,
     private readonly loggingModeService: LoggingModeService, // 🔥 상태 머신 주입
+    private readonly deadLetterService: DeadLetterService,
     private readonly configService: ConfigService,
+    @Optional() private readonly spool?: LogSpoolPort,
   ) {
     this.topic = this.configService.get<string>('MQ_LOG_TOPIC') || 'log-events';
     this.batchSize = parseInt(
       this.configService.get<string>('MQ_BATCH_SIZE') || '100',
       10,
     );
-    this.batchTimeoutMs = parseInt(
-      this.configService.get<string>('MQ_BATCH_TIMEOUT_MS') || '1000',
-      10,
-    );
+    this.retryPolicy = new RetryPolicy({
+      maxRetries: parseInt(
+        this.configService.get<string>('MQ_MAX_RETRIES') || '3',
+        10,
+      ),
+      baseDelayMs: parseInt(
+        this.configService.get<string>('MQ_RETRY_BACKOFF_MS') || '200',
+        10,
+      ),
+      maxDelayMs: parseInt(
+        this.configService.get<string>('MQ_RETRY_MAX_BACKOFF_MS') || '5000',
+        10,
+      ),
+    });
 
-    // 🔥 상태 변경 감지 - 모드가 변경되면 Consumer를 생성/파괴
-    this.loggingModeService.onModeChange((mode) => {
-      if (mode === LoggingMode.DIRECT) {
-        this.logger.log('Mode changed to DIRECT. Destroying consumer...');
-        this.destroyConsumer();
-      } else if (mode === LoggingMode.KAFKA) {
-        this.logger.log('Mode changed to KAFKA. Starting consumer...');
-        this.startConsumer();
+    // 🔥 상태 변경 감지 - circuit이 열리면 Consumer를 파괴, 아니면 (재)생성
+    this.loggingModeService.onStateChange((state) => {
+      if (state === CircuitState.OPEN) {
+        this.logger.log('MQ circuit opened. Destroying consumer...');
+        void this.destroyConsumer();
+      } else {
+        this.logger.log(`MQ circuit ${state}. Starting consumer...`);
+        void this.startConsumer();
       }
     });
   }
 
   async onModuleInit(): Promise<void> {
-    // 초기 모드에 따라 Consumer 시작
-    if (this.loggingModeService.getMode() === LoggingMode.KAFKA) {
+    // 초기 상태에 따라 Consumer 시작
+    if (this.loggingModeService.getState() !== CircuitState.OPEN) {
       await this.startConsumer();
     }
   }
 
-  async onModuleDestroy(): Promise<void> {
+  async onApplicationShutdown(): Promise<void> {
+    await this.stop();
+  }
+
+  /**
+   * Consumer를 파괴하고 이후 circuit 상태 변경에도 재생성하지 않습니다.
+   * 처리 중인 배치가 끝나고 offset이 커밋될 때까지 기다립니다 (ShutdownCoordinator).
+   */
+  async stop(): Promise<void> {
+    this.isStopped = true;
     await this.destroyConsumer();
-    this.stopWatchdog();
   }
 
   /**
@@ -92,249 +157,303 @@ export class MqConsumerService implements OnModuleInit, OnModuleDestroy {
    * Kafka가 정상일 때만 호출됩니다.
    */
   private async startConsumer(): Promise<void> {
-    if (this.consumer) {
+    if (this.isStopped) {
+      return;
+    }
+    if (this.isRunning) {
       this.logger.debug('Consumer already exists, skipping...');
       return;
     }
 
     try {
-      // 🔥 Consumer 인스턴스 생성
-      this.consumer = await this.ConsumerClient.createAndConnect();
-
-      await this.consumer.subscribe({
-        topic: this.topic,
-        fromBeginning: false,
-      });
+      // 🔥 Consumer 생성 및 consume 시작
+      // A handler that throws (nothing stored, spooled or dead-lettered)
+      // crashes the consumer; the unacknowledged batch is redelivered once
+      // the consumer is recreated
+      await this.mqConsumer.start(
+        this.topic,
+        (batch, context) => this.handleBatch(batch, context),
+        (error) => {
+          this.logger.error(`Consumer crashed: ${error.message}`);
+          this.handleConsumerFailure(`Consumer crashed: ${error.message}`);
+        },
+      );
 
+      // Health is reported per acknowledged chunk (handleBatch), not here:
+      // a consumer that starts but cannot consume must not close the circuit
       this.isRunning = true;
-      this.stopWatchdog();
 
       this.logger.log(
-        `Started MQ consumer for topic: ${this.topic}, group: ${this.ConsumerClient.getGroupId()}`,
+        `Started MQ consumer for topic: ${this.topic}, group: ${this.mqConsumer.getGroupId()}`,
       );
-
-      // 🔥 consume() 실행
-      this.consume().catch((error) => {
-        this.logger.error(
-          `Consumer runtime error: ${error.message}`,
-          error.stack,
-        );
-        this.handleConsumerFailure();
-      });
     } catch (error) {
       this.logger.error(
         `Failed to start consumer: ${error.message}`,
         error.stack,
       );
-      this.handleConsumerFailure();
+      // Release whatever was created before the failure
+      await this.mqConsumer.stop().catch(() => undefined);
+      this.handleConsumerFailure(`Consumer start failed: ${error.message}`);
     }
   }
 
   /**
    * Consumer를 완전히 파괴합니다.
-   * disconnect() 후 반드시 null로 설정하여 GC 대상으로 만듭니다.
+   * 진행 중인 배치 완료를 기다리며, 미확인(ack) 메시지는 재전달됩니다.
    */
   private async destroyConsumer(): Promise<void> {
-    if (!this.consumer) {
+    if (!this.isRunning) {
       return;
     }
 
     this.isRunning = false;
 
     try {
-      // 배치 처리 중이면 완료 대기
-      if (this.batch.length > 0) {
-        this.logger.log(
-          `Processing final batch of ${this.batch.length} events before destroying consumer...`,
-        );
-        await this.flushBatch();
-      }
-
-      // Consumer 중지
-      if (this.consumer) {
-        await this.consumer.stop();
-      }
+      await this.mqConsumer.stop();
     } catch (error) {
       this.logger.warn(`Error stopping consumer: ${error.message}`);
     }
 
-    // 🔥 ConsumerClient를 통해 완전 파괴
-    await this.ConsumerClient.destroy();
-    this.consumer = null; // 🔥 null로 설정
-
-    // 배치 타이머 정리
-    if (this.batchTimeout) {
-      clearTimeout(this.batchTimeout);
-      this.batchTimeout = null;
-    }
-
     this.logger.log('Consumer destroyed');
   }
 
   /**
    * Consumer 실패 시 처리
-   * 상태를 DIRECT로 변경하여 Consumer 파괴를 트리거합니다.
+   * Circuit을 즉시 열어 Consumer 파괴와 DIRECT 모드 전환을 트리거합니다.
+   * 복구 probe는 LoggingModeService가 예약합니다.
    */
-  private handleConsumerFailure(): void {
-    this.logger.warn(
-      'Consumer failure detected. Switching to DIRECT mode and starting watchdog.',
-    );
+  private handleConsumerFailure(reason: string): void {
+    this.logger.warn('Consumer failure detected. Opening the MQ circuit.');
+    this.loggingModeService.trip(reason);
+  }
 
-    // 상태를 DIRECT로 변경 (이것이 Consumer 파괴를 트리거함)
-    this.loggingModeService.setMode(LoggingMode.DIRECT);
+  /**
+   * Process a delivered batch in chunks of MQ_BATCH_SIZE, acknowledging
+   * each chunk once it is durably handled.
+   */
+  private async handleBatch(
+    batch: MqMessageBatch,
+    context: MqBatchContext,
+  ): Promise<void> {
+    const { topic, partition, messages } = batch;
+
+    for (let start = 0; start < messages.length; start += this.batchSize) {
+      if (!context.isActive()) {
+        return;
+      }
 
-    // Watchdog 시작
-    this.startWatchdog();
+      const chunk = messages.slice(start, start + this.batchSize);
+      await this.processChunk(topic, partition, chunk);
+      await context.ack(chunk);
+      this.loggingModeService.recordSuccess();
+      await context.heartbeat();
+    }
   }
 
   /**
-   * Watchdog: Kafka 브로커 가용성만 확인
-   * Consumer를 절대 건드리지 않습니다.
+   * Durably handle one chunk of messages: every message ends up stored,
+   * spooled or dead-lettered before this returns. Throws otherwise, so the
+   * chunk's offsets are not committed and it is redelivered.
    */
-  private startWatchdog(): void {
-    if (this.watchdogTimer) {
-      return;
-    }
+  private async processChunk(
+    topic: string,
+    partition: number,
+    messages: MqMessage[],
+  ): Promise<void> {
+    const startTime = Date.now();
+    const items: BatchItem[] = [];
+    let undelivered = 0;
 
-    this.consecutiveSuccessCount = 0;
-    this.logger.log(
-      'Watchdog started. Monitoring Kafka broker availability...',
-    );
+    for (const message of messages) {
+      if (!message.value) {
+        this.logger.warn('Received message with no value');
+        continue;
+      }
 
-    this.watchdogTimer = setInterval(async () => {
-      try {
-        const isAvailable = await this.ConsumerClient.checkBrokerAvailability();
+      const source: MessageSource = {
+        topic,
+        partition,
+        offset: message.id,
+        key: message.key,
+        raw: message.value,
+        redriveCount:
+          parseInt(message.headers[REDRIVE_COUNT_HEADER] ?? '', 10) || 0,
+      };
+
+      // Older envelope versions are upcast; unknown (newer) versions are
+      // dead-lettered and can be re-driven once this consumer is upgraded
+      const decoded = this.codec.decode(source.raw, message.headers);
+      if (!decoded.ok) {
+        if (
+          !(await this.deadLetter(
+            source,
+            `${decoded.reason}: ${decoded.error}`,
+            1,
+          ))
+        ) {
+          undelivered++;
+        }
+        continue;
+      }
 
-        if (isAvailable) {
-          this.consecutiveSuccessCount++;
-          this.logger.debug(
-            `Watchdog: Kafka available (${this.consecutiveSuccessCount}/${this.STABILITY_THRESHOLD})`,
-          );
+      items.push({ message: decoded.envelope, source });
+    }
 
-          if (this.consecutiveSuccessCount >= this.STABILITY_THRESHOLD) {
-            this.logger.log(
-              'Watchdog: Kafka is stable. Switching to KAFKA mode...',
-            );
-            this.consecutiveSuccessCount = 0;
-            this.stopWatchdog();
+    const { inserted, duplicates, rejected, spooled, failed, attempts, error } =
+      await this.writeWithRetry(items);
+
+    for (const { item, message } of rejected) {
+      const { source, message: logMessage } = item;
+      if (
+        !(await this.deadLetter(
+          source,
+          `PERSIST_ERROR: ${message}`,
+          attempts,
+          logMessage.event.requestId,
+        ))
+      ) {
+        undelivered++;
+      }
+    }
 
-            // 🔥 상태 변경만 하면 됨 - onModeChange 콜백이 Consumer를 생성함
-            this.loggingModeService.setMode(LoggingMode.KAFKA);
-          }
-        } else {
-          this.consecutiveSuccessCount = 0;
-          this.logger.debug('Watchdog: Kafka still offline.');
+    if (error) {
+      // Neither MongoDB nor the spool accepted the events: dead-letter them
+      this.logger.error(
+        `Failed to persist ${failed.length} log events after ${attempts} attempts: ${error.message}`,
+      );
+      for (const { source, message } of failed) {
+        if (
+          !(await this.deadLetter(
+            source,
+            `PERSIST_ERROR: ${error.message}`,
+            attempts,
+            message.event.requestId,
+          ))
+        ) {
+          undelivered++;
         }
-      } catch (error) {
-        this.consecutiveSuccessCount = 0;
-        this.logger.debug(`Watchdog error: ${error.message}`);
       }
-    }, 60000); // 1분마다 체크
-  }
-
-  private stopWatchdog(): void {
-    if (this.watchdogTimer) {
-      clearInterval(this.watchdogTimer);
-      this.watchdogTimer = null;
     }
-  }
 
-  private async consume(): Promise<void> {
-    if (!this.consumer) {
-      throw new Error('Consumer instance does not exist');
+    if (undelivered > 0) {
+      throw new Error(
+        `${undelivered} messages from ${topic}[${partition}] could not be stored or dead-lettered; not acknowledging`,
+      );
     }
 
-    await this.consumer.run({
-      eachMessage: async ({ topic, partition, message }) => {
-        try {
-          if (!message.value) {
-            this.logger.warn('Received message with no value');
-            return;
-          }
-
-          const logMessage: LogMessage = JSON.parse(message.value.toString());
-          this.batch.push(logMessage);
+    const duration = Date.now() - startTime;
+    this.logger.log(
+      `Processed batch: ${messages.length} events (${inserted} inserted, ${duplicates} duplicates, ${spooled} spooled, ${messages.length - inserted - duplicates - spooled} dead-lettered) in ${duration}ms`,
+    );
+  }
 
-          // Process batch if it reaches the size limit
-          if (this.batch.length >= this.batchSize) {
-            await this.flushBatch();
+  /**
+   * Bulk-write the chunk with exponential backoff (MQ_MAX_RETRIES). A failed
+   * write is retried as a whole; after a partial failure only documents
+   * rejected with a transient code are retried (e.g. a requestId another
+   * writer is still storing), permanent rejections are returned right away.
+   * When retries of a failed write are exhausted, the remaining events are
+   * spooled to disk if possible; what the spool cannot take is `failed`.
+   */
+  private async writeWithRetry(items: BatchItem[]): Promise<WriteOutcome> {
+    const outcome: WriteOutcome = {
+      inserted: 0,
+      duplicates: 0,
+      rejected: [],
+      spooled: 0,
+      failed: [],
+      attempts: 0,
+    };
+
+    let pending = items;
+    let lastError: Error | undefined;
+    for (let attempt = 1; pending.length > 0; attempt++) {
+      outcome.attempts = attempt;
+      try {
+        const result = await this.mongoLogger.writeBatch(
+          pending.map(({ message }) => message),
+        );
+        lastError = undefined;
+        outcome.inserted += result.inserted;
+        outcome.duplicates += result.duplicates;
+
+        const retryable: BatchItem[] = [];
+        for (const rejection of result.rejected) {
+          const item = pending[rejection.index];
+          if (
+            MongoLogger.isRetryableWriteError(rejection.code) &&
+            this.retryPolicy.canRetry(attempt)
+          ) {
+            retryable.push(item);
           } else {
-            // Set timeout for batch processing
-            this.scheduleBatchFlush();
+            outcome.rejected.push({ item, message: rejection.message });
           }
-        } catch (error) {
-          this.logger.error(
-            `Error processing message from topic ${topic}, partition ${partition}: ${error.message}`,
-            error.stack,
+        }
+        pending = retryable;
+        if (pending.length > 0) {
+          this.logger.warn(
+            `Retrying ${pending.length} rejected log events (attempt ${attempt}): ${result.rejected[0].message}`,
           );
         }
-      },
-      // Disable KafkaJS auto-restart - we handle recovery via state machine
-      restartOnFailure: async (error) => {
-        this.logger.warn(
-          `Consumer error: ${error.message}. Disabling KafkaJS auto-restart.`,
-        );
-        // 🔥 false 반환하여 KafkaJS 자동 재시작 비활성화
-        // 상태 머신이 Consumer 파괴 및 복구를 관리합니다.
-        return false;
-      },
-    } as any); // Type assertion: restartOnFailure is supported in KafkaJS but may not be in TypeScript types yet
-  }
-
-  private scheduleBatchFlush(): void {
-    if (this.batchTimeout) {
-      return;
-    }
-
-    this.batchTimeout = setTimeout(async () => {
-      this.batchTimeout = null;
-      if (this.batch.length > 0) {
-        await this.flushBatch();
+      } catch (error) {
+        lastError = error as Error;
+        if (!this.retryPolicy.canRetry(attempt)) {
+          break;
+        }
       }
-    }, this.batchTimeoutMs);
-  }
 
-  private async flushBatch(): Promise<void> {
-    if (this.batch.length === 0) {
-      return;
+      if (pending.length > 0) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, this.retryPolicy.delayFor(attempt)),
+        );
+      }
     }
 
-    if (this.batchTimeout) {
-      clearTimeout(this.batchTimeout);
-      this.batchTimeout = null;
+    if (!lastError) {
+      return outcome;
     }
 
-    const batchToProcess = [...this.batch];
-    this.batch = [];
-
-    await this.processBatch(batchToProcess);
-  }
-
-  private async processBatch(batch: LogMessage[]): Promise<void> {
-    const startTime = Date.now();
-    let successCount = 0;
-    let failureCount = 0;
-
-    for (const message of batch) {
-      try {
-        await this.mongoLogger.log(
-          message.event,
-          message._metadata,
-          message.summary,
-        );
-        successCount++;
-      } catch (error) {
-        failureCount++;
-        this.logger.error(
-          `Failed to persist log event (requestId: ${message.event.requestId}): ${error.message}`,
-          error.stack,
+    if (this.spool) {
+      for (const { message } of pending) {
+        try {
+          const { event, _metadata, summary } = message;
+          if (!(await this.spool.append({ event, _metadata, summary }))) break;
+          outcome.spooled++;
+        } catch {
+          break;
+        }
+      }
+      if (outcome.spooled > 0) {
+        this.logger.warn(
+          `MongoDB unavailable after ${outcome.attempts} attempts; spooled ${outcome.spooled}/${pending.length} events to disk`,
         );
       }
     }
 
-    const duration = Date.now() - startTime;
-    this.logger.log(
-      `Processed batch: ${batch.length} events (${successCount} success, ${failureCount} failures) in ${duration}ms`,
-    );
+    outcome.failed = pending.slice(outcome.spooled);
+    if (outcome.failed.length > 0) {
+      outcome.error = lastError;
+    }
+    return outcome;
+  }
+
+  private async deadLetter(
+    source: MessageSource,
+    reason: string,
+    attempts: number,
+    requestId?: string,
+  ): Promise<boolean> {
+    return this.deadLetterService.send({
+      originalPayload: source.raw,
+      originalKey: source.key,
+      reason,
+      attempts,
+      redriveCount: source.redriveCount,
+      sourceTopic: source.topic,
+      sourcePartition: source.partition,
+      sourceOffset: source.offset,
+      requestId,
+      failedAt: new Date().toISOString(),
+    });
   }
 }
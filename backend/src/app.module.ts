@@ -15,7 +15,7 @@ import { EmbeddingsModule } from "@embeddings";
       load: [pathConfig],
     }),
     LoggingModule.forRoot(),
-    ...(process.env.STORAGE_TYPE === "file" ? [] : [EmbeddingsModule]),
+    EmbeddingsModule.forRoot(),
     PaymentsModule,
   ],
   controllers: [AppController],
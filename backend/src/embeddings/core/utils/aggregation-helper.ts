@@ -1,5 +1,10 @@
+import { SamplingReason } from '@logging/domain';
 import { QueryMetadata } from '../dtos/query-metadata';
 
+/** Stored sampling decision, see LoggingService */
+const SAMPLE_RATE_FIELD = '$_metadata._sampling.sampleRate';
+const SAMPLING_REASON_FIELD = '$_metadata._sampling.reason';
+
 export class AggregationHelper {
   static buildMatchStage(metadata: QueryMetadata, extraFilters: any = {}): any {
     const match: any = { ...extraFilters };
@@ -33,4 +38,32 @@ export class AggregationHelper {
 
     return match;
   }
+
+  /**
+   * Weight of one stored event in count aggregations (Horvitz-Thompson).
+   *
+   * - An event kept with probability `sampleRate` stands for 1/sampleRate requests
+   * - Events without a stored rate (pre-sampling data) count as 1
+   * - Upstream-sampled events without the upstream rate are stored with rate 1
+   *   and `_sampling.sampleRateUnknown`, so they count as 1 (a lower bound)
+   * - Promoted and audit events count as 0: promoted events are already
+   *   represented by their head-sampled peers, audit events are not traffic
+   *
+   * @example
+   * { $group: { _id: '$route', count: { $sum: AggregationHelper.sampleWeight() } } }
+   */
+  static sampleWeight(): Record<string, unknown> {
+    return {
+      $cond: [
+        {
+          $in: [
+            SAMPLING_REASON_FIELD,
+            [SamplingReason.PROMOTED_BY_RELATED_ERROR, SamplingReason.AUDIT],
+          ],
+        },
+        0,
+        { $divide: [1, { $ifNull: [SAMPLE_RATE_FIELD, 1] }] },
+      ],
+    };
+  }
 }
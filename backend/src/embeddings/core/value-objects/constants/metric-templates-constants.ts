@@ -16,7 +16,7 @@ export const METRIC_TEMPLATES: Record<string, IMetricTemplate> = {
       {
         $group: {
           _id: '$error.code',
-          count: { $sum: 1 },
+          count: { $sum: AggregationHelper.sampleWeight() },
           examples: {
             $push: {
               requestId: '$requestId',
@@ -54,7 +54,7 @@ export const METRIC_TEMPLATES: Record<string, IMetricTemplate> = {
       {
         $group: {
           _id: '$route',
-          count: { $sum: 1 },
+          count: { $sum: AggregationHelper.sampleWeight() },
           errorCodes: { $addToSet: '$error.code' },
         },
       },
@@ -84,7 +84,7 @@ export const METRIC_TEMPLATES: Record<string, IMetricTemplate> = {
       {
         $group: {
           _id: '$service',
-          count: { $sum: 1 },
+          count: { $sum: AggregationHelper.sampleWeight() },
         },
       },
       { $sort: { count: -1 } },
@@ -150,7 +150,8 @@ export const METRIC_TEMPLATES: Record<string, IMetricTemplate> = {
   ERROR_RATE: {
     id: 'ERROR_RATE',
     name: 'Error Rate Analysis',
-    description: 'Calculates the ratio of errors to total requests.',
+    description:
+      'Calculates the ratio of errors to total requests (re-weighted by sample rate).',
     requiredParams: [],
     pipelineTemplate: (params) => [
       {
@@ -159,17 +160,26 @@ export const METRIC_TEMPLATES: Record<string, IMetricTemplate> = {
       {
         $group: {
           _id: null,
-          totalCount: { $sum: 1 },
+          // Estimated totals: each stored event weighs 1/sampleRate
+          totalCount: { $sum: AggregationHelper.sampleWeight() },
           errorCount: {
-            $sum: { $cond: [{ $ifNull: ['$error.code', false] }, 1, 0] },
+            $sum: {
+              $cond: [
+                { $ifNull: ['$error.code', false] },
+                AggregationHelper.sampleWeight(),
+                0,
+              ],
+            },
           },
+          sampledCount: { $sum: 1 },
         },
       },
       {
         $project: {
           _id: 0,
-          totalCount: 1,
-          errorCount: 1,
+          totalCount: { $round: ['$totalCount', 0] },
+          errorCount: { $round: ['$errorCount', 0] },
+          sampledCount: 1,
           errorRate: {
             $cond: [
               { $gt: ['$totalCount', 0] },
@@ -1,4 +1,4 @@
-import { Module } from '@nestjs/common';
+import { DynamicModule, Module, Provider } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { EmbeddingUseCase, SearchUseCase } from '@embeddings/in-ports';
 import {
@@ -34,6 +34,9 @@ import {
   MongoLogStorageAdapter,
   MongoChatHistoryAdapter,
   MongoEmbeddingClient,
+  FileLogStorageAdapter,
+  FileChatHistoryAdapter,
+  FileEmbeddingClient,
   SessionInMemoryAdapter,
   RedisClient,
   SessionRedisAdapter,
@@ -111,7 +114,6 @@ import {
     // Infrastructure Clients (Initialization only)
     VoyageClient,
     GeminiClient,
-    MongoEmbeddingClient,
     RedisClient,
     // Query Preprocessing Service
     QueryPreprocessorService,
@@ -164,14 +166,6 @@ import {
       provide: SynthesisPort,
       useClass: GeminiAdapter,
     },
-    {
-      provide: ChatHistoryPort,
-      useClass: MongoChatHistoryAdapter,
-    },
-    {
-      provide: LogStoragePort,
-      useClass: MongoLogStorageAdapter,
-    },
     // Session Cache: Redis (distributed) or InMemory (single instance)
     // Set SESSION_CACHE_TYPE=redis or memory in .env to use Redis
     {
@@ -188,4 +182,31 @@ import {
     },
   ],
 })
-export class EmbeddingsModule {}
+export class EmbeddingsModule {
+  /**
+   * Adds the log storage and chat history adapters.
+   * Uses process.env.STORAGE_TYPE: `file` reads the FileLogger output and keeps
+   * embeddings on disk, anything else uses MongoDB.
+   */
+  static forRoot(): DynamicModule {
+    const storageType = process.env.STORAGE_TYPE || 'mongodb';
+
+    const providers: Provider[] =
+      storageType === 'file'
+        ? [
+            FileEmbeddingClient,
+            { provide: ChatHistoryPort, useClass: FileChatHistoryAdapter },
+            { provide: LogStoragePort, useClass: FileLogStorageAdapter },
+          ]
+        : [
+            MongoEmbeddingClient,
+            { provide: ChatHistoryPort, useClass: MongoChatHistoryAdapter },
+            { provide: LogStoragePort, useClass: MongoLogStorageAdapter },
+          ];
+
+    return {
+      module: EmbeddingsModule,
+      providers,
+    };
+  }
+}
@@ -5,6 +5,9 @@ export * from './api/synthesis/gemini.client';
 export * from './repository/mongodb/mongo-log-storage.adapter';
 export * from './repository/mongodb/mongo-chat-history.adapter';
 export * from './repository/mongodb/mongo.client';
+export * from './repository/file/file-log-storage.adapter';
+export * from './repository/file/file-chat-history.adapter';
+export * from './repository/file/file.client';
 export * from './cache/in-memory/session-in-memory.adapter';
 export * from './cache/redis/redis.client';
 export * from './cache/redis/session-redis.adapter';
@@ -0,0 +1,57 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ChatHistoryPort } from '@embeddings/out-ports';
+import { AnalysisResult } from '@embeddings/dtos';
+import { AnalysisIntent } from '@embeddings/value-objects/filter';
+import { FileEmbeddingClient } from './file.client';
+
+@Injectable()
+export class FileChatHistoryAdapter extends ChatHistoryPort {
+  private readonly logger = new Logger(FileChatHistoryAdapter.name);
+  private readonly historyFile = 'chat_history.jsonl';
+
+  constructor(private readonly client: FileEmbeddingClient) {
+    super();
+  }
+
+  async save(result: AnalysisResult): Promise<void> {
+    try {
+      await this.client.appendJsonLines(this.historyFile, [
+        {
+          ...result,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+    } catch (error) {
+      this.logger.error(`Failed to save chat history: ${error.message}`);
+    }
+  }
+
+  async findBySessionId(sessionId: string): Promise<AnalysisResult[]> {
+    try {
+      const docs = await this.client.readJsonLines(this.historyFile);
+
+      // Appended in order, so already sorted by createdAt
+      return docs
+        .filter((doc) => doc.sessionId === sessionId)
+        .map((doc) => ({
+          question: typeof doc.question === 'string' ? doc.question : '',
+          intent: doc.intent as AnalysisIntent,
+          answer: typeof doc.answer === 'string' ? doc.answer : '',
+          sources: Array.isArray(doc.sources)
+            ? doc.sources.filter(
+                (source): source is string => typeof source === 'string',
+              )
+            : [],
+          confidence: Number(doc.confidence),
+          sessionId,
+          createdAt: FileEmbeddingClient.toDate(doc.createdAt),
+        }));
+    } catch (error) {
+      this.logger.error(
+        `Failed to find chat history for session ${sessionId}: ${error.message}`,
+      );
+      return [];
+    }
+  }
+}
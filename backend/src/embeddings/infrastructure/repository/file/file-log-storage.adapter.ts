@@ -0,0 +1,418 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { LogStoragePort, Watermark } from '@embeddings/out-ports';
+import { LogEmbeddingEntity } from '@embeddings/domain';
+import { EmbeddingStatus } from '@logging/value-objects';
+import { QueryMetadata } from '@embeddings/dtos';
+import { WideEvent } from '@logging/domain';
+import { FileEmbeddingClient, JsonDocument, LogDocument } from './file.client';
+import { InProcessAggregation } from './in-process-aggregation';
+
+/** A logged Wide Event line whose required fields were checked */
+type WideEventDocument = LogDocument &
+  Parameters<typeof WideEvent.fromDocument>[0];
+
+type EmbeddedDocument = {
+  eventId: string;
+  requestId: string;
+  summary: string;
+  model: string;
+  embedding: number[];
+  service?: string;
+  timestamp: Date;
+  createdAt: Date;
+};
+
+/**
+ * FileLogStorageAdapter - LogStoragePort over the FileLogger's JSON lines.
+ *
+ * - A log's event ID is its requestId (files have no `_id`)
+ * - Embeddings are appended to a local JSON lines file and searched by
+ *   brute-force cosine similarity; fine for the volumes a single file holds
+ * - Aggregations run in-process via InProcessAggregation
+ */
+@Injectable()
+export class FileLogStorageAdapter extends LogStoragePort {
+  private readonly logger = new Logger(FileLogStorageAdapter.name);
+  private readonly logsCollection = 'wide_events';
+  private readonly progressFile = 'embedding_progress.json';
+  private readonly embeddedCollection = 'wide_events_embedded';
+  private readonly embeddedFile = 'wide_events_embedded.jsonl';
+  private embedded: Map<string, EmbeddedDocument> | null = null;
+
+  constructor(private readonly client: FileEmbeddingClient) {
+    super();
+  }
+
+  /**
+   * Retrieves the last processed watermark for a given source.
+   */
+  async getWatermark(source: string): Promise<Watermark | null> {
+    try {
+      const progress = await this.client.readJson(this.progressFile);
+      const entry = progress?.[source];
+
+      if (!FileEmbeddingClient.isDocument(entry)) return null;
+
+      return {
+        lastEventId: entry.lastEmbeddedEventId,
+        lastEventTimestamp: FileEmbeddingClient.toDate(
+          entry.lastEmbeddedEventTimestamp,
+        ),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to get watermark for ${source}: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Retrieves logs that need embedding starting after the given watermark.
+   */
+  async findLogsAfterWatermark(
+    source: string,
+    watermark: Watermark | null,
+    limit: number,
+  ): Promise<LogEmbeddingEntity[]> {
+    try {
+      const docs = (await this.findLogs(source))
+        .filter(
+          (doc): doc is WideEventDocument & { _summary: string } =>
+            typeof doc._summary === 'string' && doc._summary !== '',
+        )
+        .filter((doc) => {
+          if (!watermark) return true;
+          const delta =
+            doc.timestamp.getTime() - watermark.lastEventTimestamp.getTime();
+          return (
+            delta > 0 ||
+            (delta === 0 && doc.requestId > String(watermark.lastEventId))
+          );
+        })
+        .sort(
+          (a, b) =>
+            a.timestamp.getTime() - b.timestamp.getTime() ||
+            (a.requestId < b.requestId ? -1 : 1),
+        )
+        .slice(0, limit);
+
+      return docs.map((doc) => {
+        const wideEvent = WideEvent.fromDocument({
+          requestId: doc.requestId,
+          timestamp: doc.timestamp,
+          service: doc.service,
+          route: doc.route,
+          user: doc.user,
+          error: doc.error,
+          performance: doc.performance,
+          traceId: doc.traceId,
+          spanId: doc.spanId,
+          parentSpanId: doc.parentSpanId,
+          spans: doc.spans,
+        });
+
+        return new LogEmbeddingEntity(
+          doc.requestId,
+          doc.requestId,
+          doc.timestamp,
+          doc._summary,
+          EmbeddingStatus.PENDING,
+          doc.service,
+          undefined,
+          undefined,
+          wideEvent,
+        );
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to find logs after watermark: ${error.message}`,
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Appends embedding results to the local store and updates the watermark.
+   */
+  async saveEmbeddingsAndUpdateWatermark(
+    source: string,
+    results: Array<{
+      eventId: any;
+      requestId: string;
+      summary: string;
+      embedding: number[];
+      model: string;
+      service?: string;
+      timestamp?: Date;
+    }>,
+    newWatermark: Watermark,
+  ): Promise<void> {
+    try {
+      const docs: EmbeddedDocument[] = results.map((r) => ({
+        eventId: String(r.eventId),
+        requestId: r.requestId,
+        summary: r.summary,
+        model: r.model,
+        embedding: r.embedding,
+        service: r.service,
+        timestamp: r.timestamp || new Date(),
+        createdAt: new Date(),
+      }));
+      await this.client.appendJsonLines(this.embeddedFile, docs);
+      for (const doc of docs) {
+        // Re-embedding an event replaces it, as when the store is loaded
+        this.embedded?.set(doc.eventId, doc);
+      }
+
+      const progress = (await this.client.readJson(this.progressFile)) || {};
+      progress[source] = {
+        lastEmbeddedEventId: String(newWatermark.lastEventId),
+        lastEmbeddedEventTimestamp: newWatermark.lastEventTimestamp,
+        lastUpdatedAt: new Date(),
+      };
+      await this.client.writeJson(this.progressFile, progress);
+
+      this.logger.log(
+        `Successfully saved ${results.length} embeddings and updated watermark for ${source}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to save embeddings and update watermark: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Logs a failure for a specific request.
+   */
+  logFailure(requestId: string, reason: string): Promise<void> {
+    this.logger.error(`Embedding failure for ${requestId}: ${reason}`);
+    return Promise.resolve();
+  }
+
+  /**
+   * Brute-force cosine search with optional metadata filtering.
+   * Scores are normalized to [0, 1] like Atlas' vectorSearchScore.
+   */
+  async vectorSearch(
+    embedding: number[],
+    limit: number,
+    metadata?: QueryMetadata,
+  ): Promise<any[]> {
+    try {
+      const docs = await this.loadEmbedded();
+      this.logger.log(
+        `Vector search: Store "${this.embeddedFile}" has ${docs.length} documents`,
+      );
+
+      if (docs.length === 0) {
+        this.logger.warn(
+          `No documents found in ${this.embeddedFile}. Run embedding batch process first.`,
+        );
+        return [];
+      }
+
+      const startTime = metadata?.startTime
+        ? new Date(metadata.startTime).getTime()
+        : -Infinity;
+      const endTime = metadata?.endTime
+        ? new Date(metadata.endTime).getTime()
+        : Infinity;
+      const inRange = docs.filter((doc) => {
+        const time = doc.timestamp.getTime();
+        return time >= startTime && time <= endTime;
+      });
+
+      const search = (candidates: EmbeddedDocument[]) =>
+        candidates
+          .map((doc) => ({
+            eventId: doc.eventId,
+            summary: doc.summary,
+            score: (1 + this.cosineSimilarity(embedding, doc.embedding)) / 2,
+          }))
+          .sort((a, b) => b.score - a.score)
+          .slice(0, limit);
+
+      const service = metadata?.service;
+      const results = search(
+        service ? inRange.filter((doc) => doc.service === service) : inRange,
+      );
+
+      this.logger.log(
+        `Vector search completed: ${results.length} results (requested: ${limit})`,
+      );
+
+      if (results.length === 0 && service) {
+        this.logger.warn(
+          `No results with service filter "${service}". Trying without service filter...`,
+        );
+        const fallbackResults = search(inRange);
+        this.logger.log(
+          `Fallback search (without service filter) returned ${fallbackResults.length} results`,
+        );
+        return fallbackResults;
+      }
+
+      return results;
+    } catch (error) {
+      this.logger.error(
+        `Embedding search failed: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves full log documents by their event IDs (requestIds).
+   */
+  async getLogsByEventIds(eventIds: any[]): Promise<any[]> {
+    try {
+      return await this.findLogsByRequestIds(eventIds.map(String));
+    } catch (error) {
+      this.logger.error(`Failed to get logs by event IDs: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Execute an aggregation pipeline in-process.
+   * Used for statistical queries (e.g., error code counts, top N analysis).
+   */
+  async executeAggregation(
+    pipeline: any[],
+    collectionName: string = 'wide_events',
+  ): Promise<any[]> {
+    try {
+      this.logger.debug(
+        `Executing aggregation pipeline on ${collectionName}: ${JSON.stringify(pipeline, null, 2)}`,
+      );
+      const docs =
+        collectionName === this.embeddedCollection
+          ? await this.loadEmbedded()
+          : await this.findLogs(collectionName);
+      const results = InProcessAggregation.run(docs, pipeline);
+      this.logger.log(
+        `Aggregation completed: ${results.length} results returned`,
+      );
+      return results;
+    } catch (error) {
+      this.logger.error(
+        `Aggregation failed on ${collectionName}: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches full log documents by their request IDs.
+   */
+  async findLogsByRequestIds(requestIds: string[]): Promise<any[]> {
+    try {
+      const wanted = new Set(requestIds);
+      return (await this.findLogs(this.logsCollection)).filter((doc) =>
+        wanted.has(doc.requestId),
+      );
+    } catch (error) {
+      this.logger.error(`Failed to find logs by requestIds: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Logged events for a source; only `wide_events` exists in file storage.
+   * A requestId logged more than once keeps its first record.
+   */
+  private async findLogs(source: string): Promise<WideEventDocument[]> {
+    if (source !== this.logsCollection) {
+      this.logger.warn(`Unknown source "${source}" in file storage`);
+      return [];
+    }
+
+    const seen = new Set<string>();
+    return (await this.client.readLogs()).filter(
+      (doc): doc is WideEventDocument => {
+        if (!this.isWideEvent(doc) || seen.has(doc.requestId)) return false;
+        seen.add(doc.requestId);
+        return true;
+      },
+    );
+  }
+
+  /**
+   * Loads the embedding store once; later saves are applied in memory too.
+   * An event embedded twice (crash before the watermark moved) keeps its
+   * latest embedding.
+   */
+  private async loadEmbedded(): Promise<EmbeddedDocument[]> {
+    if (!this.embedded) {
+      const byEventId = new Map<string, EmbeddedDocument>();
+      let skipped = 0;
+      for (const doc of await this.client.readJsonLines(this.embeddedFile)) {
+        const embedded = this.toEmbeddedDocument(doc);
+        if (embedded) {
+          byEventId.set(embedded.eventId, embedded);
+        } else {
+          skipped++;
+        }
+      }
+      if (skipped > 0) {
+        this.logger.warn(
+          `Skipped ${skipped} invalid embedding(s) in ${this.embeddedFile}`,
+        );
+      }
+      this.embedded = byEventId;
+    }
+    return Array.from(this.embedded.values());
+  }
+
+  private isWideEvent(doc: LogDocument): doc is WideEventDocument {
+    return (
+      typeof doc.requestId === 'string' &&
+      doc.requestId !== '' &&
+      typeof doc.service === 'string' &&
+      typeof doc.route === 'string'
+    );
+  }
+
+  private toEmbeddedDocument(doc: JsonDocument): EmbeddedDocument | null {
+    const { eventId, requestId, summary, model, embedding, service } = doc;
+    if (
+      typeof eventId !== 'string' ||
+      typeof requestId !== 'string' ||
+      typeof summary !== 'string' ||
+      typeof model !== 'string' ||
+      !Array.isArray(embedding) ||
+      !embedding.every((value): value is number => typeof value === 'number')
+    ) {
+      return null;
+    }
+
+    return {
+      eventId,
+      requestId,
+      summary,
+      model,
+      embedding,
+      service: typeof service === 'string' ? service : undefined,
+      timestamp: FileEmbeddingClient.toDate(doc.timestamp),
+      createdAt: FileEmbeddingClient.toDate(doc.createdAt),
+    };
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length) return 0;
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+  }
+}
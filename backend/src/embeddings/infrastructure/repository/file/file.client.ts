@@ -0,0 +1,238 @@
+import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import { gunzip } from 'zlib';
+import { promisify } from 'util';
+import { join, dirname, basename } from 'path';
+import { FileLogger } from '@logging/infrastructure';
+
+const gunzipAsync = promisify(gunzip);
+
+/** A parsed JSON line; readers narrow the fields they use */
+export type JsonDocument = Record<string, unknown>;
+
+/** A logged Wide Event line with `timestamp` parsed */
+export type LogDocument = JsonDocument & { timestamp: Date };
+
+interface CachedSegment {
+  size: number;
+  mtimeMs: number;
+  records: LogDocument[];
+}
+
+/**
+ * FileEmbeddingClient - Local file storage for the embeddings module
+ * (STORAGE_TYPE=file).
+ *
+ * - Reads the Wide Events FileLogger writes (LOG_FILE_PATH plus its rotated,
+ *   possibly gzipped, segments), newest first up to
+ *   EMBEDDING_LOG_MAX_RECORDS; parsed segments are cached until they change
+ * - Keeps embeddings, watermarks and chat history under EMBEDDING_STORE_DIR
+ *   as JSON / JSON lines files
+ */
+@Injectable()
+export class FileEmbeddingClient implements OnModuleInit {
+  private readonly logger = new Logger(FileEmbeddingClient.name);
+  private readonly logFilePath: string;
+  private readonly storeDir: string;
+  private readonly maxRecords: number;
+  private readonly segments = new Map<string, CachedSegment>();
+  private skippedSegments = 0;
+
+  constructor(private readonly configService: ConfigService) {
+    const projectRoot = this.configService.get<string>('paths.projectRoot');
+
+    if (!projectRoot) {
+      throw new Error('Project root path not configured');
+    }
+
+    this.logFilePath =
+      this.configService.get<string>('LOG_FILE_PATH') ||
+      join(projectRoot, 'logs', 'app.log');
+    this.storeDir =
+      this.configService.get<string>('EMBEDDING_STORE_DIR') ||
+      join(projectRoot, 'data', 'embeddings');
+    this.maxRecords =
+      parseInt(
+        this.configService.get<string>('EMBEDDING_LOG_MAX_RECORDS') || '',
+        10,
+      ) || 200000;
+  }
+
+  async onModuleInit() {
+    await fs.mkdir(this.storeDir, { recursive: true });
+    this.logger.log(
+      `Using file storage for Embeddings module (logs: ${this.logFilePath}, store: ${this.storeDir})`,
+    );
+  }
+
+  /**
+   * Logged Wide Events, oldest segment first, with `timestamp` as a Date.
+   *
+   * Segments are read newest first until maxRecords records are loaded (the
+   * last one read may overshoot); older segments are skipped and evicted
+   * from the cache, so memory stays bounded whatever retention keeps.
+   */
+  async readLogs(): Promise<LogDocument[]> {
+    const dir = dirname(this.logFilePath);
+    const pattern = FileLogger.rotatedFilePattern(this.logFilePath);
+
+    let names: string[];
+    try {
+      names = (await fs.readdir(dir)).filter((name) => pattern.test(name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    // While a segment is being gzipped both files exist; the plain one is
+    // complete, the `.gz` may not be yet
+    const rotated = Array.from(
+      new Set(names.map((name) => name.replace(/\.gz$/, ''))),
+    )
+      .sort()
+      .map((segment) =>
+        join(dir, names.includes(segment) ? segment : `${segment}.gz`),
+      );
+
+    const newestFirst = [this.logFilePath, ...rotated.reverse()];
+    const segments: LogDocument[][] = [];
+    const read = new Set<string>();
+    let count = 0;
+    for (const path of newestFirst) {
+      if (count >= this.maxRecords) break;
+      const records = await this.readSegment(path);
+      segments.unshift(records);
+      read.add(path);
+      count += records.length;
+    }
+
+    const skipped = newestFirst.length - read.size;
+    if (skipped > 0 && skipped !== this.skippedSegments) {
+      this.logger.warn(
+        `Skipped ${skipped} older log segment(s) beyond EMBEDDING_LOG_MAX_RECORDS (${this.maxRecords})`,
+      );
+    }
+    this.skippedSegments = skipped;
+
+    // Forget segments removed by retention or no longer read
+    for (const cached of this.segments.keys()) {
+      if (!read.has(cached)) this.segments.delete(cached);
+    }
+
+    return segments.flat();
+  }
+
+  async readJsonLines(name: string): Promise<JsonDocument[]> {
+    try {
+      const content = await fs.readFile(join(this.storeDir, name), 'utf8');
+      return this.parseLines(content, name);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  async appendJsonLines(name: string, docs: unknown[]): Promise<void> {
+    if (docs.length === 0) return;
+    const data = docs.map((doc) => JSON.stringify(doc) + '\n').join('');
+    await fs.appendFile(join(this.storeDir, name), data, 'utf8');
+  }
+
+  async readJson(name: string): Promise<JsonDocument | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(join(this.storeDir, name), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    const value: unknown = JSON.parse(content);
+    if (!FileEmbeddingClient.isDocument(value)) {
+      throw new Error(`${name} does not hold a JSON object`);
+    }
+    return value;
+  }
+
+  /**
+   * Replace a JSON file atomically (write a temp file, then rename).
+   */
+  async writeJson(name: string, value: unknown): Promise<void> {
+    const path = join(this.storeDir, name);
+    const tmpPath = `${path}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(value, null, 2), 'utf8');
+    await fs.rename(tmpPath, path);
+  }
+
+  static isDocument(value: unknown): value is JsonDocument {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  /** A JSON date (ISO string or epoch ms); anything else is Invalid Date */
+  static toDate(value: unknown): Date {
+    return new Date(
+      typeof value === 'string' || typeof value === 'number' ? value : NaN,
+    );
+  }
+
+  private async readSegment(path: string): Promise<LogDocument[]> {
+    let stat: { size: number; mtimeMs: number };
+    try {
+      stat = await fs.stat(path);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const cached = this.segments.get(path);
+    if (
+      cached &&
+      cached.size === stat.size &&
+      cached.mtimeMs === stat.mtimeMs
+    ) {
+      return cached.records;
+    }
+
+    const raw = await fs.readFile(path);
+    const content = (
+      path.endsWith('.gz') ? await gunzipAsync(raw) : raw
+    ).toString('utf8');
+    const records = this.parseLines(content, basename(path)).map((record) => ({
+      ...record,
+      timestamp: FileEmbeddingClient.toDate(record.timestamp),
+    }));
+
+    this.segments.set(path, {
+      size: stat.size,
+      mtimeMs: stat.mtimeMs,
+      records,
+    });
+    return records;
+  }
+
+  /**
+   * Parse JSON lines, skipping malformed ones (e.g. a line still being written).
+   */
+  private parseLines(content: string, name: string): JsonDocument[] {
+    const records: JsonDocument[] = [];
+    let skipped = 0;
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const record: unknown = JSON.parse(line);
+        if (FileEmbeddingClient.isDocument(record)) {
+          records.push(record);
+        } else {
+          skipped++;
+        }
+      } catch {
+        skipped++;
+      }
+    }
+    if (skipped > 0) {
+      this.logger.warn(`Skipped ${skipped} malformed line(s) in ${name}`);
+    }
+    return records;
+  }
+}
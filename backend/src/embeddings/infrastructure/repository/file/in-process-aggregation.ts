@@ -0,0 +1,470 @@
+/**
+ * InProcessAggregation - Evaluates MongoDB aggregation pipelines over plain
+ * in-memory documents, so METRIC_TEMPLATES run unchanged without a database.
+ *
+ * Supports the subset the templates use:
+ * - Stages: $match, $group, $sort, $limit, $skip, $project
+ * - Queries: equality (null also matches missing), $eq, $ne, $gt, $gte,
+ *   $lt, $lte, $in, $nin, $exists, $and, $or
+ * - Expressions: field paths, literals, $cond, $ifNull, $in, $eq, $ne, $gt,
+ *   $gte, $lt, $lte, $add, $subtract, $multiply, $divide, $floor, $round,
+ *   $arrayElemAt, $slice, $size, $sum, $avg, $min, $max
+ * - Accumulators: $sum, $avg, $min, $max, $push, $addToSet, $first, $last
+ *
+ * Anything else throws, rather than silently returning wrong numbers.
+ */
+export type AggregationDocument = Record<string, unknown>;
+
+export class InProcessAggregation {
+  static run(
+    documents: AggregationDocument[],
+    pipeline: unknown[],
+  ): AggregationDocument[] {
+    return pipeline.reduce<AggregationDocument[]>((docs, stage) => {
+      const [name, spec] = InProcessAggregation.isDocument(stage)
+        ? (Object.entries(stage)[0] ?? [])
+        : [];
+      switch (name) {
+        case '$match': {
+          const query = InProcessAggregation.toDocument(name, spec);
+          return docs.filter((doc) => InProcessAggregation.matches(doc, query));
+        }
+        case '$group':
+          return InProcessAggregation.group(
+            docs,
+            InProcessAggregation.toDocument(name, spec),
+          );
+        case '$sort':
+          return InProcessAggregation.sort(
+            docs,
+            InProcessAggregation.toDocument(name, spec),
+          );
+        case '$limit':
+          return docs.slice(0, InProcessAggregation.toNumber(name, spec));
+        case '$skip':
+          return docs.slice(InProcessAggregation.toNumber(name, spec));
+        case '$project': {
+          const projection = InProcessAggregation.toDocument(name, spec);
+          return docs.map((doc) =>
+            InProcessAggregation.project(doc, projection),
+          );
+        }
+        default:
+          throw new Error(`Unsupported aggregation stage: ${name}`);
+      }
+    }, documents);
+  }
+
+  private static matches(
+    doc: AggregationDocument,
+    query: AggregationDocument,
+  ): boolean {
+    return Object.entries(query).every(([key, condition]) => {
+      if (key === '$and') {
+        return InProcessAggregation.toArray(key, condition).every((q) =>
+          InProcessAggregation.matches(
+            doc,
+            InProcessAggregation.toDocument(key, q),
+          ),
+        );
+      }
+      if (key === '$or') {
+        return InProcessAggregation.toArray(key, condition).some((q) =>
+          InProcessAggregation.matches(
+            doc,
+            InProcessAggregation.toDocument(key, q),
+          ),
+        );
+      }
+
+      const value = InProcessAggregation.get(doc, key);
+      if (!InProcessAggregation.isOperatorObject(condition)) {
+        return InProcessAggregation.equals(value, condition);
+      }
+
+      return Object.entries(condition).every(([op, operand]) => {
+        switch (op) {
+          case '$eq':
+            return InProcessAggregation.equals(value, operand);
+          case '$ne':
+            return !InProcessAggregation.equals(value, operand);
+          case '$gt':
+            return InProcessAggregation.compareDefined(value, operand) > 0;
+          case '$gte':
+            return InProcessAggregation.compareDefined(value, operand) >= 0;
+          case '$lt':
+            return InProcessAggregation.compareDefined(value, operand) < 0;
+          case '$lte':
+            return InProcessAggregation.compareDefined(value, operand) <= 0;
+          case '$in':
+            return InProcessAggregation.toArray(op, operand).some((item) =>
+              InProcessAggregation.equals(value, item),
+            );
+          case '$nin':
+            return !InProcessAggregation.toArray(op, operand).some((item) =>
+              InProcessAggregation.equals(value, item),
+            );
+          case '$exists':
+            return (value !== undefined) === Boolean(operand);
+          default:
+            throw new Error(`Unsupported query operator: ${op}`);
+        }
+      });
+    });
+  }
+
+  private static group(
+    docs: AggregationDocument[],
+    spec: AggregationDocument,
+  ): AggregationDocument[] {
+    const { _id: idExpression, ...accumulators } = spec;
+    const groups = new Map<
+      string,
+      { _id: unknown; docs: AggregationDocument[] }
+    >();
+
+    for (const doc of docs) {
+      const id = InProcessAggregation.evaluate(doc, idExpression) ?? null;
+      const key = JSON.stringify(id);
+      const group = groups.get(key) ?? { _id: id, docs: [] };
+      group.docs.push(doc);
+      groups.set(key, group);
+    }
+
+    return Array.from(groups.values()).map((group) => {
+      const result: AggregationDocument = { _id: group._id };
+      for (const [field, accumulator] of Object.entries(accumulators)) {
+        const [op = '', expression] =
+          Object.entries(
+            InProcessAggregation.toDocument(field, accumulator),
+          )[0] ?? [];
+        const values = group.docs.map((doc) =>
+          InProcessAggregation.evaluate(doc, expression),
+        );
+        result[field] = InProcessAggregation.accumulate(op, values);
+      }
+      return result;
+    });
+  }
+
+  private static accumulate(op: string, values: unknown[]): unknown {
+    const numbers = values.filter((v): v is number => typeof v === 'number');
+    switch (op) {
+      case '$sum':
+        return numbers.reduce((sum, v) => sum + v, 0);
+      case '$avg':
+        return numbers.length > 0
+          ? numbers.reduce((sum, v) => sum + v, 0) / numbers.length
+          : null;
+      case '$min':
+      case '$max':
+        return InProcessAggregation.extreme(op, values);
+      case '$push':
+        return values.map((v) => v ?? null);
+      case '$addToSet': {
+        const seen = new Map<string, unknown>();
+        for (const v of values) {
+          if (v !== undefined) seen.set(JSON.stringify(v), v);
+        }
+        return Array.from(seen.values());
+      }
+      case '$first':
+        return values[0] ?? null;
+      case '$last':
+        return values[values.length - 1] ?? null;
+      default:
+        throw new Error(`Unsupported accumulator: ${op}`);
+    }
+  }
+
+  private static sort(
+    docs: AggregationDocument[],
+    spec: AggregationDocument,
+  ): AggregationDocument[] {
+    const keys = Object.entries(spec).map(
+      ([path, direction]) => [path, direction === -1 ? -1 : 1] as const,
+    );
+    return [...docs].sort((a, b) => {
+      for (const [path, direction] of keys) {
+        const order = InProcessAggregation.compare(
+          InProcessAggregation.get(a, path),
+          InProcessAggregation.get(b, path),
+        );
+        if (order !== 0) return order * direction;
+      }
+      return 0;
+    });
+  }
+
+  private static project(
+    doc: AggregationDocument,
+    spec: AggregationDocument,
+  ): AggregationDocument {
+    const entries = Object.entries(spec);
+    const isFlag = (v: unknown) => v === 0 || v === 1 || typeof v === 'boolean';
+    const exclusionOnly = entries.every(
+      ([field, v]) => isFlag(v) && (!v || field === '_id'),
+    );
+
+    if (exclusionOnly) {
+      const result = { ...doc };
+      for (const [field, v] of entries) {
+        if (!v) delete result[field];
+      }
+      return result;
+    }
+
+    const result: AggregationDocument = {};
+    if (spec._id === undefined && doc._id !== undefined) {
+      result._id = doc._id;
+    }
+    for (const [field, v] of entries) {
+      if (isFlag(v)) {
+        if (v) {
+          const value = InProcessAggregation.get(doc, field);
+          if (value !== undefined) result[field] = value;
+        }
+        continue;
+      }
+      result[field] = InProcessAggregation.evaluate(doc, v);
+    }
+    return result;
+  }
+
+  private static evaluate(doc: unknown, expression: unknown): unknown {
+    if (typeof expression === 'string' && expression.startsWith('$')) {
+      return InProcessAggregation.get(doc, expression.slice(1));
+    }
+    if (Array.isArray(expression)) {
+      return expression.map((item) => InProcessAggregation.evaluate(doc, item));
+    }
+    if (
+      expression === null ||
+      typeof expression !== 'object' ||
+      expression instanceof Date
+    ) {
+      return expression;
+    }
+
+    if (!InProcessAggregation.isOperatorObject(expression)) {
+      const result: AggregationDocument = {};
+      for (const [field, value] of Object.entries(expression)) {
+        result[field] = InProcessAggregation.evaluate(doc, value);
+      }
+      return result;
+    }
+
+    const [op, rawArgs] = Object.entries(expression)[0];
+    if (op === '$cond') {
+      const [condition, then, otherwise] = InProcessAggregation.isArray(rawArgs)
+        ? rawArgs
+        : InProcessAggregation.isDocument(rawArgs)
+          ? [rawArgs.if, rawArgs.then, rawArgs.else]
+          : [];
+      return InProcessAggregation.isTruthy(
+        InProcessAggregation.evaluate(doc, condition),
+      )
+        ? InProcessAggregation.evaluate(doc, then)
+        : InProcessAggregation.evaluate(doc, otherwise);
+    }
+    if (op === '$ifNull') {
+      for (const arg of InProcessAggregation.toArray(op, rawArgs)) {
+        const value = InProcessAggregation.evaluate(doc, arg);
+        if (value !== null && value !== undefined) return value;
+      }
+      return null;
+    }
+
+    const args = InProcessAggregation.evaluate(doc, rawArgs);
+    const list = InProcessAggregation.isArray(args) ? args : [args];
+    const nullish = list.some((v) => v === null || v === undefined);
+    // Dates take part as epoch milliseconds, like BSON date arithmetic
+    const numbers = list.map(Number);
+
+    switch (op) {
+      case '$eq':
+        return InProcessAggregation.compare(list[0], list[1]) === 0;
+      case '$ne':
+        return InProcessAggregation.compare(list[0], list[1]) !== 0;
+      case '$gt':
+        return InProcessAggregation.compare(list[0], list[1]) > 0;
+      case '$gte':
+        return InProcessAggregation.compare(list[0], list[1]) >= 0;
+      case '$lt':
+        return InProcessAggregation.compare(list[0], list[1]) < 0;
+      case '$lte':
+        return InProcessAggregation.compare(list[0], list[1]) <= 0;
+      case '$in':
+        return InProcessAggregation.toArray(op, list[1]).some((item) =>
+          InProcessAggregation.equals(list[0], item),
+        );
+      case '$add':
+        return nullish ? null : numbers.reduce((sum, v) => sum + v, 0);
+      case '$subtract':
+        return nullish ? null : numbers[0] - numbers[1];
+      case '$multiply':
+        return nullish ? null : numbers.reduce((product, v) => product * v, 1);
+      case '$divide':
+        return nullish ? null : numbers[0] / numbers[1];
+      case '$floor':
+        return nullish ? null : Math.floor(numbers[0]);
+      case '$round': {
+        if (list[0] === null || list[0] === undefined) return null;
+        const factor = 10 ** Number(list[1] ?? 0);
+        return Math.round(numbers[0] * factor) / factor;
+      }
+      case '$arrayElemAt': {
+        const [array, index] = list;
+        if (!InProcessAggregation.isArray(array) || typeof index !== 'number')
+          return null;
+        return index < 0 ? array[array.length + index] : array[index];
+      }
+      case '$slice': {
+        const [array, n] = list;
+        if (!InProcessAggregation.isArray(array)) return null;
+        const count = Number(n);
+        return count < 0 ? array.slice(count) : array.slice(0, count);
+      }
+      case '$size':
+        return InProcessAggregation.isArray(list[0]) ? list[0].length : null;
+      case '$sum':
+      case '$avg':
+      case '$min':
+      case '$max':
+        // Single array operand is reduced, like the accumulator
+        return InProcessAggregation.accumulate(
+          op,
+          list.length === 1 && InProcessAggregation.isArray(list[0])
+            ? list[0]
+            : list,
+        );
+      default:
+        throw new Error(`Unsupported expression operator: ${op}`);
+    }
+  }
+
+  private static extreme(op: '$min' | '$max', values: unknown[]): unknown {
+    const defined = values.filter((v) => v !== null && v !== undefined);
+    if (defined.length === 0) return null;
+    return defined.reduce((best, v) => {
+      const order = InProcessAggregation.compare(v, best);
+      return (op === '$max' ? order > 0 : order < 0) ? v : best;
+    });
+  }
+
+  private static get(doc: unknown, path: string): unknown {
+    return path
+      .split('.')
+      .reduce<unknown>(
+        (value, key) =>
+          value === null || value === undefined
+            ? undefined
+            : (value as Record<string, unknown>)[key],
+        doc,
+      );
+  }
+
+  private static isArray(value: unknown): value is unknown[] {
+    return Array.isArray(value);
+  }
+
+  private static isDocument(value: unknown): value is AggregationDocument {
+    return (
+      value !== null &&
+      typeof value === 'object' &&
+      !Array.isArray(value) &&
+      !(value instanceof Date)
+    );
+  }
+
+  private static isOperatorObject(
+    value: unknown,
+  ): value is AggregationDocument {
+    return (
+      InProcessAggregation.isDocument(value) &&
+      Object.keys(value).length > 0 &&
+      Object.keys(value).every((key) => key.startsWith('$'))
+    );
+  }
+
+  private static toDocument(
+    context: string,
+    value: unknown,
+  ): AggregationDocument {
+    if (!InProcessAggregation.isDocument(value)) {
+      throw new Error(`Expected an object for ${context}`);
+    }
+    return value;
+  }
+
+  private static toArray(context: string, value: unknown): unknown[] {
+    if (!InProcessAggregation.isArray(value)) {
+      throw new Error(`Expected an array for ${context}`);
+    }
+    return value;
+  }
+
+  private static toNumber(context: string, value: unknown): number {
+    if (typeof value !== 'number') {
+      throw new Error(`Expected a number for ${context}`);
+    }
+    return value;
+  }
+
+  private static isTruthy(value: unknown): boolean {
+    return (
+      value !== false && value !== null && value !== undefined && value !== 0
+    );
+  }
+
+  /** Query equality: `null` also matches a missing field. */
+  private static equals(value: unknown, expected: unknown): boolean {
+    if (expected === null) {
+      return value === null || value === undefined;
+    }
+    return InProcessAggregation.compare(value, expected) === 0;
+  }
+
+  /** Range operators never match across missing values. */
+  private static compareDefined(value: unknown, bound: unknown): number {
+    if (value === null || value === undefined) return NaN;
+    return InProcessAggregation.compare(value, bound);
+  }
+
+  /**
+   * Orders values like MongoDB's BSON comparison, simplified:
+   * missing/null < numbers < strings < objects < arrays < booleans < dates.
+   */
+  private static compare(a: unknown, b: unknown): number {
+    const rank = (v: unknown): number => {
+      if (v === null || v === undefined) return 0;
+      if (typeof v === 'number') return 1;
+      if (typeof v === 'string') return 2;
+      if (typeof v === 'boolean') return 5;
+      if (v instanceof Date) return 6;
+      return Array.isArray(v) ? 4 : 3;
+    };
+
+    const rankA = rank(a);
+    const rankB = rank(b);
+    if (rankA !== rankB) return rankA - rankB;
+
+    switch (rankA) {
+      case 0:
+        return 0;
+      case 1:
+        return (a as number) - (b as number);
+      case 2:
+        return a === b ? 0 : (a as string) < (b as string) ? -1 : 1;
+      case 5:
+        return Number(a) - Number(b);
+      case 6:
+        return (a as Date).getTime() - (b as Date).getTime();
+      default: {
+        const jsonA = JSON.stringify(a);
+        const jsonB = JSON.stringify(b);
+        return jsonA === jsonB ? 0 : jsonA < jsonB ? -1 : 1;
+      }
+    }
+  }
+}
@@ -83,6 +83,10 @@ export class MongoLogStorageAdapter extends LogStoragePort {
           user: doc.user,
           error: doc.error,
           performance: doc.performance,
+          traceId: doc.traceId,
+          spanId: doc.spanId,
+          parentSpanId: doc.parentSpanId,
+          spans: doc.spans,
         });
 
         return new LogEmbeddingEntity(
@@ -1,6 +1,7 @@
 import { Test, TestingModule } from "@nestjs/testing";
 import { PaymentsService } from "@payments/service";
 import { PaymentsOutPort } from "@payments/out-ports";
+import { LoggingUseCase } from "@logging/in-ports";
 
 describe("PaymentsService", () => {
   let service: PaymentsService;
@@ -9,6 +10,12 @@ describe("PaymentsService", () => {
   const mockOutPort = {
     checkBalance: jest.fn(),
     callGateway: jest.fn(),
+    confirmOrder: jest.fn(),
+  };
+
+  const mockLoggingUseCase = {
+    startSpan: jest.fn().mockReturnValue({}),
+    endSpan: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -16,6 +23,7 @@ describe("PaymentsService", () => {
       providers: [
         PaymentsService,
         { provide: PaymentsOutPort, useValue: mockOutPort },
+        { provide: LoggingUseCase, useValue: mockLoggingUseCase },
       ],
     }).compile();
 
@@ -28,6 +36,33 @@ describe("PaymentsService", () => {
   });
 
   describe("processPayment", () => {
+    it("should record one span per step, each ended without error", async () => {
+      mockLoggingUseCase.startSpan.mockClear();
+      mockLoggingUseCase.endSpan.mockClear();
+      mockOutPort.checkBalance.mockResolvedValue(true);
+      mockOutPort.callGateway.mockResolvedValue({
+        success: true,
+        transactionId: "txn_123",
+      });
+      mockOutPort.confirmOrder.mockResolvedValue({ success: true });
+
+      await service.processPayment({
+        userId: "user1",
+        role: "member",
+        amount: 100,
+        product: "product1",
+        count: 1,
+      });
+
+      expect(mockLoggingUseCase.startSpan.mock.calls).toEqual([
+        ["checkBalance", { service: "payments" }],
+        ["callGateway", { service: "paymentGateway" }],
+        ["confirmOrder", { service: "orders" }],
+      ]);
+      // No error options: every step ended successfully
+      expect(mockLoggingUseCase.endSpan.mock.calls).toEqual([[{}], [{}], [{}]]);
+    });
+
     it("should return success when balance and gateway call are successful", async () => {
       mockOutPort.checkBalance.mockResolvedValue(true);
       mockOutPort.callGateway.mockResolvedValue({
@@ -3,6 +3,7 @@ import { PaymentsServicePort } from "@payments/in-ports";
 import { PaymentsOutPort } from "@payments/out-ports";
 import { PaymentRequest, PaymentResult } from "@payments/dtos";
 import { PaymentStatusVO, PaymentStatusCode } from "@payments/value-objects";
+import { LoggingUseCase } from "@logging/in-ports";
 
 /**
  * Parsed error structure from adapter exceptions.
@@ -24,6 +25,8 @@ interface AdapterError {
  *
  * Logging is handled declaratively by LoggingInterceptor using decorators.
  * This service returns all relevant metadata in PaymentResult for extraction.
+ * Each step is recorded as a child span so per-step latency and the failing
+ * service are visible in the wide event.
  *
  * All status codes, messages, and business logic are delegated to:
  * - PaymentStatusVO: Status definitions and outcome determination
@@ -31,22 +34,40 @@ interface AdapterError {
  */
 @Injectable()
 export class PaymentsService extends PaymentsServicePort {
-  constructor(private readonly outPort: PaymentsOutPort) {
+  constructor(
+    private readonly outPort: PaymentsOutPort,
+    private readonly loggingUseCase: LoggingUseCase,
+  ) {
     super();
   }
 
   async processPayment(request: PaymentRequest): Promise<PaymentResult> {
     // Step 1: Balance Check (service: payments)
-    const hasBalance = await this.outPort.checkBalance(
-      request.userId,
-      request.amount,
-      request.count,
-    );
+    const balanceSpan = this.loggingUseCase.startSpan("checkBalance", {
+      service: "payments",
+    });
+    let hasBalance: boolean;
+
+    try {
+      hasBalance = await this.outPort.checkBalance(
+        request.userId,
+        request.amount,
+        request.count,
+      );
+    } catch (e) {
+      this.loggingUseCase.endSpan(balanceSpan, {
+        error: this.parseAdapterError(e as Error),
+      });
+      throw e;
+    }
 
     if (!hasBalance) {
       const status = PaymentStatusVO.getByCode(
         PaymentStatusCode.INSUFFICIENT_BALANCE,
       );
+      this.loggingUseCase.endSpan(balanceSpan, {
+        error: { code: status.code, message: status.message },
+      });
       return {
         success: false,
         errorCode: status.code,
@@ -55,9 +76,14 @@ export class PaymentsService extends PaymentsServicePort {
       };
     }
 
+    this.loggingUseCase.endSpan(balanceSpan);
+
     // Step 2: Payment Gateway Call (service: paymentGateway)
     let transactionId: string;
     let gatewayProcessingTimeMs: number | undefined;
+    const gatewaySpan = this.loggingUseCase.startSpan("callGateway", {
+      service: "paymentGateway",
+    });
 
     try {
       const gatewayRes = await this.outPort.callGateway(
@@ -67,8 +93,10 @@ export class PaymentsService extends PaymentsServicePort {
 
       transactionId = gatewayRes.transactionId!;
       gatewayProcessingTimeMs = gatewayRes.processingTimeMs;
+      this.loggingUseCase.endSpan(gatewaySpan);
     } catch (e) {
       const error = this.parseAdapterError(e as Error);
+      this.loggingUseCase.endSpan(gatewaySpan, { error });
       return {
         success: false,
         errorCode: error.code,
@@ -78,12 +106,17 @@ export class PaymentsService extends PaymentsServicePort {
     }
 
     // Step 3: Order Confirmation (service: orders)
+    const orderSpan = this.loggingUseCase.startSpan("confirmOrder", {
+      service: "orders",
+    });
+
     try {
       const orderRes = await this.outPort.confirmOrder(
         request.userId,
         transactionId,
         request.amount,
       );
+      this.loggingUseCase.endSpan(orderSpan);
 
       return {
         success: true,
@@ -94,6 +127,7 @@ export class PaymentsService extends PaymentsServicePort {
       };
     } catch (e) {
       const error = this.parseAdapterError(e as Error);
+      this.loggingUseCase.endSpan(orderSpan, { error });
       return {
         success: false,
         errorCode: error.code,
@@ -35,6 +35,12 @@ db.wide_events.createIndexes([
     key: { service: 1, "user.id": 1, timestamp: -1 },
     name: "service_user_id_timestamp_desc_index",
   },
+  // Join wide events with spans from other services (W3C Trace Context)
+  {
+    key: { traceId: 1, timestamp: -1 },
+    name: "trace_id_timestamp_desc_index",
+    partialFilterExpression: { traceId: { $exists: true } },
+  },
 ]);
 
 db.wide_events.createIndex(
@@ -45,6 +51,19 @@ db.wide_events.createIndex(
   },
 );
 
+// Time-series collections support no unique index: MongoLogger claims each
+// requestId here (_id = requestId) before inserting its wide event, so a
+// redelivered or replayed event is stored only once
+db.createCollection("wide_event_ids");
+
+// Claims only need to outlive the redelivery/replay window: the MQ topic's
+// retention (Kafka default 7 days) and the time an event may sit in the
+// disk spool. An event redelivered after its claim expired is stored again.
+db.wide_event_ids.createIndex(
+  { claimedAt: 1 },
+  { name: "claimed_at_ttl_index", expireAfterSeconds: 7 * 24 * 60 * 60 },
+);
+
 // Phase 3 Strategy
 // Create High Water Mark Collection
 // For Tracking Embedding Progress